@@ -0,0 +1,8 @@
+import { writeFileSync } from 'fs';
+import { serverConfigJsonSchema } from '../dist/server-config.js';
+
+// Written next to config.json, which refers to it with "$schema", and
+// shipped in the package for configs kept elsewhere
+const schema = serverConfigJsonSchema();
+writeFileSync('config.schema.json', JSON.stringify(schema, null, 2) + '\n');
+console.log('Wrote config.schema.json');
@@ -1,95 +1,189 @@
 import fs from 'fs/promises';
-import { CONFIG_FILE } from './config.js';
+import path from 'path';
+import { ALLOW_POLICY_CHANGES_FLAG, USER_CONFIG_FILE } from './config.js';
+import { CommandValidation, FileOperationRequest } from './types.js';
+import {
+  CommandInvocation,
+  findCommandInvocations,
+  findArgvInvocations
+} from './utils/shell-parser.js';
+import { DEFAULT_BLOCKED_COMMANDS } from './server-config.js';
+import {
+  CommandPolicy,
+  DEFAULT_COMMAND_POLICY,
+  evaluateCommandPolicy,
+  evaluateFileOperation
+} from './utils/command-policy.js';
+import { isPathWithin } from './utils/path-containment.js';
 
-// Default blocked commands for security when config file cannot be loaded
-const DEFAULT_BLOCKED_COMMANDS = [
-  'format', 'mount', 'umount', 'mkfs', 'fdisk', 'dd',
-  'sudo', 'su', 'passwd', 'adduser', 'useradd', 'usermod', 'groupadd'
-];
+export class CommandManager {
+  // Replaced by the config when it is loaded
+  private blockedCommands: Set<string> = new Set(DEFAULT_BLOCKED_COMMANDS);
+  private policy: CommandPolicy = DEFAULT_COMMAND_POLICY;
+  // Set by the operator when starting the server; the policy can always be read
+  private policyChangesAllowed = false;
 
-class CommandManager {
-  private blockedCommands: Set<string> = new Set();
+  /**
+   * Changes are saved to configFile. Every file in configFiles is protected
+   * from the filesystem tools, since the config is read from them.
+   */
+  constructor(
+    private configFile: string = USER_CONFIG_FILE,
+    private configFiles: string[] = [configFile]
+  ) {}
 
-  async loadBlockedCommands(): Promise<void> {
+  getPolicy(): CommandPolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: CommandPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Replaces the blocked commands and the policy together, so that no check
+   * sees one without the other
+   */
+  applyConfig(blockedCommands: string[], policy: CommandPolicy): void {
+    this.blockedCommands = new Set(blockedCommands);
+    this.policy = policy;
+  }
+
+  /** Set by the config manager when it finds which files the config is read from */
+  setConfigFiles(configFile: string, configFiles: string[]): void {
+    this.configFile = configFile;
+    this.configFiles = configFiles;
+  }
+
+  setPolicyChangesAllowed(allowed: boolean): void {
+    this.policyChangesAllowed = allowed;
+  }
+
+  canChangePolicy(): boolean {
+    return this.policyChangesAllowed;
+  }
+
+  /** Replaces the command policy and saves it to the config file */
+  async updatePolicy(policy: CommandPolicy): Promise<void> {
+    await this.updateConfig(config => {
+      config.commandPolicy = policy;
+    });
+    this.policy = policy;
+  }
+
+  async saveBlockedCommands(): Promise<void> {
+    await this.updateConfig(config => {
+      config.blockedCommands = Array.from(this.blockedCommands);
+    });
+  }
+
+  /**
+   * Changes part of the config file, keeping the rest of it, such as
+   * commandLimits, intact. A config file that exists but can't be read or
+   * parsed is left alone rather than overwritten, and a new one is created
+   * with its directory.
+   */
+  private async updateConfig(update: (config: Record<string, unknown>) => void): Promise<void> {
+    let config: Record<string, unknown> = {};
     try {
-      const configData = await fs.readFile(CONFIG_FILE, 'utf-8');
-      const config = JSON.parse(configData);
-      
-      if (!config.blockedCommands || !Array.isArray(config.blockedCommands)) {
-        const errorMsg = `Error: Invalid blockedCommands format in ${CONFIG_FILE}`;
-        process.stderr.write(JSON.stringify({
-          type: 'error',
-          timestamp: new Date().toISOString(),
-          message: errorMsg
-        }) + '\n');
-        
-        // Fall back to default blocked commands
-        this.blockedCommands = new Set(DEFAULT_BLOCKED_COMMANDS);
-        process.stderr.write(JSON.stringify({
-          type: 'warning',
-          timestamp: new Date().toISOString(),
-          message: `Using default blocked commands list as fallback`
-        }) + '\n');
-        return;
+      config = JSON.parse(await fs.readFile(this.configFile, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to read ${this.configFile}: ${errorMessage}`);
       }
-      
-      this.blockedCommands = new Set(config.blockedCommands);
-      process.stderr.write(JSON.stringify({
-        type: 'info',
-        timestamp: new Date().toISOString(),
-        message: `Successfully loaded ${this.blockedCommands.size} blocked commands from config`
-      }) + '\n');
+    }
+
+    update(config);
+    try {
+      await fs.mkdir(path.dirname(this.configFile), { recursive: true });
+      await fs.writeFile(this.configFile, JSON.stringify(config, null, 2), 'utf-8');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      process.stderr.write(JSON.stringify({
-        type: 'error',
-        timestamp: new Date().toISOString(),
-        message: `Failed to load blocked commands from ${CONFIG_FILE}: ${errorMessage}`
-      }) + '\n');
-      
-      // Fall back to default blocked commands
-      this.blockedCommands = new Set(DEFAULT_BLOCKED_COMMANDS);
-      process.stderr.write(JSON.stringify({
-        type: 'warning',
-        timestamp: new Date().toISOString(),
-        message: `Using default blocked commands list as fallback`
-      }) + '\n');
+      throw new Error(`Failed to save ${this.configFile}: ${errorMessage}`);
     }
   }
 
-  async saveBlockedCommands(): Promise<void> {
+  validateCommand(command: string, cwd?: string): boolean {
+    return this.checkCommand(command, cwd).allowed;
+  }
+
+  /**
+   * Checks every command a shell command line would run against the command
+   * policy and the blocked commands, including those in pipelines, lists,
+   * subshells, substitutions, and scripts passed to sh -c or eval. Command
+   * lines that can't be parsed are denied, since it's unknown what they
+   * would run. Directory rules are matched against cwd, which defaults to
+   * the server's working directory.
+   */
+  checkCommand(command: string, cwd?: string): CommandValidation {
+    let invocations: CommandInvocation[];
     try {
-      const config = {
-        blockedCommands: Array.from(this.blockedCommands)
-      };
-      await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+      invocations = findCommandInvocations(command);
     } catch (error) {
-      // Handle error if needed
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { allowed: false, action: 'deny', reason: `could not parse command: ${errorMessage}` };
     }
+    return this.checkInvocations(invocations, cwd);
   }
 
-  validateCommand(command: string): boolean {
-    const baseCommand = command.split(' ')[0].toLowerCase().trim();
-    return !this.blockedCommands.has(baseCommand);
+  /** Checks a command that is executed directly with the given argv */
+  checkArgv(argv: string[], cwd?: string): CommandValidation {
+    return this.checkInvocations(findArgvInvocations(argv), cwd);
   }
 
+  /** Checks a filesystem operation against the file rules of the policy */
+  checkFileOperation(request: FileOperationRequest): CommandValidation {
+    // The config is reloaded when it changes, so changing it, or creating a
+    // config file with a higher precedence, changes the policy
+    const configFile = request.paths
+      .map(target => path.resolve(target))
+      .find(target => this.configFiles.some(file => isPathWithin(target, path.resolve(file))));
+    if (!this.policyChangesAllowed && configFile) {
+      return {
+        allowed: false,
+        action: 'deny',
+        reason: `${configFile} holds the command policy, which can only be changed when the server is started with ${ALLOW_POLICY_CHANGES_FLAG}`
+      };
+    }
+    return evaluateFileOperation(request, this.policy);
+  }
+
+  private checkInvocations(invocations: CommandInvocation[], cwd: string = process.cwd()): CommandValidation {
+    return evaluateCommandPolicy(invocations, this.policy, this.blockedCommands, cwd);
+  }
+
+  /**
+   * Adds a command to the blocked commands and saves them. The change is
+   * undone if it can't be saved.
+   */
   async blockCommand(command: string): Promise<boolean> {
-    command = command.toLowerCase().trim();
+    command = command.toLowerCase().trim().replace(/\s+/g, ' ');
     if (this.blockedCommands.has(command)) {
       return false;
     }
     this.blockedCommands.add(command);
-    await this.saveBlockedCommands();
+    try {
+      await this.saveBlockedCommands();
+    } catch (error) {
+      this.blockedCommands.delete(command);
+      throw error;
+    }
     return true;
   }
 
   async unblockCommand(command: string): Promise<boolean> {
-    command = command.toLowerCase().trim();
+    command = command.toLowerCase().trim().replace(/\s+/g, ' ');
     if (!this.blockedCommands.has(command)) {
       return false;
     }
     this.blockedCommands.delete(command);
-    await this.saveBlockedCommands();
+    try {
+      await this.saveBlockedCommands();
+    } catch (error) {
+      this.blockedCommands.add(command);
+      throw error;
+    }
     return true;
   }
 
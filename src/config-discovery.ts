@@ -0,0 +1,130 @@
+import path from 'path';
+import os from 'os';
+import {
+  CONFIG_FLAG,
+  CONFIG_ENV_VAR,
+  PROJECT_CONFIG_FILE,
+  USER_CONFIG_FILE,
+  ALLOWED_DIR_FLAG,
+  READ_ONLY_DIR_FLAG
+} from './config.js';
+
+export type ConfigSource = 'flag' | 'env' | 'project' | 'user';
+
+export interface ConfigCandidate {
+  file: string;
+  source: ConfigSource;
+}
+
+/**
+ * The files the config may be read from, in order of precedence: the file
+ * given with --config, the file in DESKTOP_COMMANDER_CONFIG, config.json in
+ * the working directory, and the user's config in $XDG_CONFIG_HOME. Files
+ * that were named explicitly must exist; the others are optional.
+ */
+export function findConfigCandidates(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): ConfigCandidate[] {
+  const candidates: ConfigCandidate[] = [];
+
+  const flagValue = findFlagValues(argv, CONFIG_FLAG).pop();
+  if (flagValue !== undefined) {
+    candidates.push({ file: resolveConfigPath(flagValue, cwd), source: 'flag' });
+  }
+  if (env[CONFIG_ENV_VAR]) {
+    candidates.push({ file: resolveConfigPath(env[CONFIG_ENV_VAR], cwd), source: 'env' });
+  }
+  candidates.push({ file: path.join(cwd, PROJECT_CONFIG_FILE), source: 'project' });
+  candidates.push({ file: USER_CONFIG_FILE, source: 'user' });
+
+  // The same file named twice is read once, with the higher precedence
+  return candidates.filter((candidate, index) =>
+    candidates.findIndex(other => other.file === candidate.file) === index);
+}
+
+/**
+ * Settings given on the command line, which take precedence over every
+ * config file. Directories given with --allowed-dir and --read-only-dir
+ * replace allowedDirectories.
+ */
+export function findArgsConfig(
+  argv: string[] = process.argv.slice(2),
+  cwd: string = process.cwd()
+): Record<string, unknown> {
+  const allowedDirectories = [
+    ...findFlagValues(argv, ALLOWED_DIR_FLAG).map(dir => ({ path: resolveConfigPath(dir, cwd), mode: 'read-write' })),
+    ...findFlagValues(argv, READ_ONLY_DIR_FLAG).map(dir => ({ path: resolveConfigPath(dir, cwd), mode: 'read-only' }))
+  ];
+  return allowedDirectories.length > 0 ? { allowedDirectories } : {};
+}
+
+/** Whether the file was named by the operator rather than looked for */
+export function isExplicit(candidate: ConfigCandidate): boolean {
+  return candidate.source === 'flag' || candidate.source === 'env';
+}
+
+/** How a config file was found, for log messages */
+export function describeSource(source: ConfigSource): string {
+  switch (source) {
+    case 'flag':
+      return `from ${CONFIG_FLAG}`;
+    case 'env':
+      return `from ${CONFIG_ENV_VAR}`;
+    case 'project':
+      return 'in the working directory';
+    case 'user':
+      return 'in the user config directory';
+  }
+}
+
+/**
+ * Merges configs given in order of precedence. Objects such as
+ * commandPolicy are merged key by key, and any other value, including
+ * lists, replaces the value of the configs below it.
+ */
+export function mergeConfigs(configs: Record<string, unknown>[]): Record<string, unknown> {
+  return configs.reduceRight<Record<string, unknown>>((merged, config) => mergeObjects(merged, config), {});
+}
+
+function mergeObjects(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeObjects(merged[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Values of a flag given as "--flag value" or "--flag=value", in order
+function findFlagValues(argv: string[], flag: string): string[] {
+  const values: string[] = [];
+  argv.forEach((arg, index) => {
+    let value: string | undefined;
+    if (arg === flag) {
+      value = argv[index + 1];
+    } else if (arg.startsWith(`${flag}=`)) {
+      value = arg.slice(flag.length + 1);
+    } else {
+      return;
+    }
+    if (!value || value.startsWith('--')) {
+      throw new Error(`${flag} needs a path`);
+    }
+    values.push(value);
+  });
+  return values;
+}
+
+function resolveConfigPath(file: string, cwd: string): string {
+  const expanded = file === '~' || file.startsWith('~/')
+    ? path.join(os.homedir(), file.slice(1))
+    : file;
+  return path.resolve(cwd, expanded);
+}
@@ -0,0 +1,368 @@
+import { watch, FSWatcher } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { ALLOW_POLICY_CHANGES_FLAG, CONFIG_RELOAD_DELAY } from './config.js';
+import { CommandManager, commandManager } from './command-manager.js';
+import {
+  ConfigCandidate,
+  describeSource,
+  findArgsConfig,
+  findConfigCandidates,
+  isExplicit,
+  mergeConfigs
+} from './config-discovery.js';
+import { AllowedDirectory, ServerConfig, getServerConfig, parseServerConfig, setServerConfig } from './server-config.js';
+import { CommandPolicy, describeRule, describeFileRule } from './utils/command-policy.js';
+import { LIMIT_KEYS, describeLimits } from './utils/resource-limits.js';
+
+export type ConfigReloadLevel = 'info' | 'error';
+
+export interface ConfigReloadResult {
+  // Whether a valid config was read; an invalid one leaves everything as it was
+  applied: boolean;
+  changes: string[];
+  error?: string;
+}
+
+interface ConfigLayer {
+  candidate: ConfigCandidate;
+  config: Record<string, unknown>;
+}
+
+// Settings with a single value, described by name when they change
+const SCALAR_SETTINGS = [
+  'commandTimeoutMs',
+  'maxStoredOutputBytes',
+  'maxOutputChunks',
+  'maxCompletedSessions',
+  'maxHistoryEntries',
+  'fuzzyThreshold',
+  'maxReadBytes',
+  'maxImageBytes'
+] as const;
+
+/**
+ * Loads the config files, validated against the config schema, and reloads
+ * them when they change. Every file that exists is read and they are merged
+ * in order of precedence, see config-discovery.ts. A new config is validated
+ * as a whole before anything is applied, and an invalid one keeps the
+ * previous config in effect. Each reload is logged with what it changed.
+ * Unless policy changes are allowed, a reload keeps the blocked commands and
+ * the command policy the server started with.
+ */
+export class ConfigManager {
+  private watchers: FSWatcher[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private listeners: Array<(level: ConfigReloadLevel, message: string) => void> = [];
+  // The files the config in effect was read from, in order of precedence
+  private loadedFiles: ConfigCandidate[] = [];
+
+  /**
+   * Without candidates and argsConfig, they are found from the command line
+   * and the environment when the config is first loaded
+   */
+  constructor(
+    private candidates: ConfigCandidate[] | null = null,
+    private commands: CommandManager = commandManager,
+    private argsConfig: Record<string, unknown> | null = null
+  ) {}
+
+  /**
+   * Loads the config at startup. Without config files every setting has its
+   * default; an invalid file, or a missing one that was named explicitly, is
+   * an error, so the server doesn't run with security settings other than the
+   * ones configured.
+   */
+  async load(): Promise<ServerConfig> {
+    const layers = await this.readLayers();
+    const config = this.parseLayers(layers);
+    this.apply(config, layers);
+
+    if (layers.length === 0) {
+      this.log('warning', `No config file found at ${this.getCandidates().map(candidate => candidate.file).join(', ')}, ` +
+        'using the default settings');
+    } else {
+      const limits = describeLimits(config.commandLimits);
+      this.log('info', `Loaded config from ${describeLayers(layers)} with ${config.blockedCommands.length} blocked commands` +
+        (limits.length > 0 ? ` and command limits: ${limits.join(', ')}` : ''));
+    }
+    return this.get();
+  }
+
+  /**
+   * The config in effect. Blocked commands and the policy can also change
+   * through the policy tools, so they are taken from the command manager.
+   */
+  get(): ServerConfig {
+    return {
+      ...getServerConfig(),
+      blockedCommands: this.commands.listBlockedCommands(),
+      commandPolicy: this.commands.getPolicy()
+    };
+  }
+
+  /**
+   * The file that changes made with the policy tools are saved to: the file
+   * with the highest precedence, or the user's config if there is none
+   */
+  getConfigFile(): string {
+    const candidates = this.getCandidates();
+    return this.loadedFiles[0]?.file ?? candidates[candidates.length - 1].file;
+  }
+
+  /** The files the config in effect was read from, in order of precedence */
+  getLoadedFiles(): ConfigCandidate[] {
+    return [...this.loadedFiles];
+  }
+
+  /**
+   * Starts watching. The directories are watched rather than the files, so
+   * that editors that save by replacing a file, and config files that are
+   * created later, are noticed too. Directories that don't exist are skipped.
+   */
+  start(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+    const directories = new Map<string, Set<string>>();
+    for (const { file } of this.getCandidates()) {
+      const names = directories.get(path.dirname(file)) ?? new Set<string>();
+      directories.set(path.dirname(file), names.add(path.basename(file)));
+    }
+
+    for (const [directory, names] of directories) {
+      let watcher: FSWatcher;
+      try {
+        watcher = watch(directory, (_event, changed) => {
+          if (!changed || names.has(changed.toString())) {
+            this.scheduleReload();
+          }
+        });
+      } catch {
+        continue;
+      }
+      watcher.on('error', (error) => {
+        this.log('error', `Stopped watching ${directory}: ${error.message}`);
+        watcher.close();
+        this.watchers = this.watchers.filter(other => other !== watcher);
+      });
+      watcher.unref();
+      this.watchers.push(watcher);
+    }
+  }
+
+  stop(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Called with a description of every reload, such as to notify the client */
+  onReload(listener: (level: ConfigReloadLevel, message: string) => void): void {
+    this.listeners.push(listener);
+  }
+
+  async reload(): Promise<ConfigReloadResult> {
+    let layers: ConfigLayer[];
+    let next: ServerConfig;
+    try {
+      layers = await this.readLayers();
+      next = this.parseLayers(layers);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log('error', `Ignoring the changed config and keeping the previous config: ${errorMessage}`);
+      return { applied: false, changes: [], error: errorMessage };
+    }
+
+    // Commands can write the config files too, so without the flag the
+    // policy they hold only takes effect when the server starts
+    const previous = this.get();
+    let policyIgnored = false;
+    if (!this.commands.canChangePolicy()) {
+      policyIgnored = describePolicyChanges(previous, next).length > 0;
+      next = { ...next, blockedCommands: previous.blockedCommands, commandPolicy: previous.commandPolicy };
+    }
+
+    const previousFiles = this.loadedFiles.map(candidate => candidate.file);
+    const nextFiles = layers.map(layer => layer.candidate.file);
+    const changes = describeChanges(previous, next);
+    if (policyIgnored) {
+      changes.unshift(`changes to the blocked commands and command policy ignored until the server restarts, ` +
+        `since they can only change while it runs when it is started with ${ALLOW_POLICY_CHANGES_FLAG}`);
+    }
+    if (previousFiles.join('\n') !== nextFiles.join('\n')) {
+      changes.unshift(`config files changed from ${previousFiles.join(', ') || 'none'} to ${nextFiles.join(', ') || 'none'}`);
+    }
+    this.apply(next, layers);
+
+    // Saving the config from a tool also triggers a reload, which finds nothing new
+    if (changes.length > 0) {
+      this.log('info', `Reloaded ${nextFiles.join(', ') || 'the default settings'}: ${changes.join('; ')}`);
+    }
+    return { applied: true, changes };
+  }
+
+  private getCandidates(): ConfigCandidate[] {
+    this.candidates ??= findConfigCandidates();
+    return this.candidates;
+  }
+
+  /** Merges the config files and the settings given on the command line */
+  private parseLayers(layers: ConfigLayer[]): ServerConfig {
+    this.argsConfig ??= findArgsConfig();
+    try {
+      return parseServerConfig(mergeConfigs([this.argsConfig, ...layers.map(layer => layer.config)]));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid config after merging ${layers.map(layer => layer.candidate.file).join(', ')} and the command line: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads every config file that exists. Each file must be valid on its own,
+   * so that an error names the file it is in.
+   */
+  private async readLayers(): Promise<ConfigLayer[]> {
+    const layers: ConfigLayer[] = [];
+    for (const candidate of this.getCandidates()) {
+      let text: string;
+      try {
+        text = await fs.readFile(candidate.file, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new Error(`Failed to read ${candidate.file}: ${errorMessage}`);
+        }
+        if (isExplicit(candidate)) {
+          throw new Error(`Config file ${candidate.file} given ${describeSource(candidate.source)} does not exist`);
+        }
+        continue;
+      }
+
+      try {
+        const config = JSON.parse(text);
+        parseServerConfig(config);
+        layers.push({ candidate, config });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid config in ${candidate.file}: ${errorMessage}`);
+      }
+    }
+    return layers;
+  }
+
+  /** Swaps in a new config at once, between two tool calls */
+  private apply(config: ServerConfig, layers: ConfigLayer[]): void {
+    this.loadedFiles = layers.map(layer => layer.candidate);
+    setServerConfig(config);
+    this.commands.applyConfig(config.blockedCommands, config.commandPolicy);
+    this.commands.setConfigFiles(this.getConfigFile(), this.getCandidates().map(candidate => candidate.file));
+  }
+
+  private scheduleReload(): void {
+    // A single save can produce several events
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.reload();
+    }, CONFIG_RELOAD_DELAY);
+    this.timer.unref();
+  }
+
+  private log(level: ConfigReloadLevel | 'warning', message: string): void {
+    process.stderr.write(JSON.stringify({
+      type: level,
+      timestamp: new Date().toISOString(),
+      message
+    }) + '\n');
+    if (level !== 'warning') {
+      this.listeners.forEach(listener => listener(level, message));
+    }
+  }
+}
+
+/** Names the file that won, and the files it is layered over */
+function describeLayers(layers: ConfigLayer[]): string {
+  const [winner, ...rest] = layers.map(({ candidate }) => `${candidate.file} (${describeSource(candidate.source)})`);
+  return rest.length > 0 ? `${winner}, layered over ${rest.join(', ')},` : winner;
+}
+
+function describeChanges(previous: ServerConfig, next: ServerConfig): string[] {
+  const changes = describePolicyChanges(previous, next);
+
+  for (const key of LIMIT_KEYS) {
+    if (previous.commandLimits[key] !== next.commandLimits[key]) {
+      changes.push(`command limit ${key} changed from ${previous.commandLimits[key] ?? 'unset'} to ${next.commandLimits[key] ?? 'unset'}`);
+    }
+  }
+
+  for (const key of SCALAR_SETTINGS) {
+    if (previous[key] !== next[key]) {
+      changes.push(`${key} changed from ${previous[key]} to ${next[key]}`);
+    }
+  }
+
+  const directories = (config: ServerConfig) => config.allowedDirectories?.map(describeDirectory);
+  const previousDirectories = directories(previous);
+  const nextDirectories = directories(next);
+  if (!previousDirectories !== !nextDirectories) {
+    changes.push(nextDirectories
+      ? `allowed directories set to ${nextDirectories.join(', ')}`
+      : 'allowed directories reset to the defaults');
+  } else if (previousDirectories && nextDirectories) {
+    describeListChange(changes, 'allowed directories', previousDirectories, nextDirectories);
+  }
+  describeListChange(changes, 'denied paths', previous.deniedPaths, next.deniedPaths);
+  describeListChange(changes, 'search excludes', previous.searchExclude, next.searchExclude);
+  return changes;
+}
+
+/** Changes to the blocked commands and the command policy */
+function describePolicyChanges(previous: ServerConfig, next: ServerConfig): string[] {
+  const changes: string[] = [];
+
+  describeListChange(changes, 'blocked commands', previous.blockedCommands, next.blockedCommands);
+
+  if (previous.commandPolicy.mode !== next.commandPolicy.mode) {
+    changes.push(`command policy mode changed from ${previous.commandPolicy.mode} to ${next.commandPolicy.mode}`);
+  }
+  describeListChange(changes, 'allowed commands', previous.commandPolicy.allowedCommands, next.commandPolicy.allowedCommands);
+
+  const withReason = (description: string, reason?: string) => reason ? `${description}: ${reason}` : description;
+  const rules = (policy: CommandPolicy) => policy.rules.map(rule => withReason(describeRule(rule), rule.reason));
+  const fileRules = (policy: CommandPolicy) => policy.fileRules.map(rule => withReason(describeFileRule(rule), rule.reason));
+  describeRuleChange(changes, 'command rules', rules(previous.commandPolicy), rules(next.commandPolicy));
+  describeRuleChange(changes, 'file rules', fileRules(previous.commandPolicy), fileRules(next.commandPolicy));
+  return changes;
+}
+
+function describeDirectory(directory: AllowedDirectory): string {
+  return typeof directory === 'string' ? directory : `${directory.path} (${directory.mode})`;
+}
+
+function describeListChange(changes: string[], name: string, previous: string[], next: string[]): void {
+  const added = next.filter(entry => !previous.includes(entry));
+  const removed = previous.filter(entry => !next.includes(entry));
+  if (added.length > 0) {
+    changes.push(`${name} added: ${added.join(', ')}`);
+  }
+  if (removed.length > 0) {
+    changes.push(`${name} removed: ${removed.join(', ')}`);
+  }
+}
+
+/** Rules are ordered, so a reordering is a change even if no rule was added or removed */
+function describeRuleChange(changes: string[], name: string, previous: string[], next: string[]): void {
+  const before = changes.length;
+  describeListChange(changes, name, previous, next);
+  if (changes.length === before && previous.join('\n') !== next.join('\n')) {
+    changes.push(`${name} reordered`);
+  }
+}
+
+export const configManager = new ConfigManager();
@@ -1,8 +1,44 @@
 import path from 'path';
+import os from 'os';
 import process from 'process';
 
-export const CONFIG_FILE = path.join(process.cwd(), 'config.json');
-export const LOG_FILE = path.join(process.cwd(), 'server.log');
-export const ERROR_LOG_FILE = path.join(process.cwd(), 'error.log');
+// XDG base directories, ignoring relative paths as the specification requires
+function xdgDirectory(variable: string, fallback: string): string {
+  const value = process.env[variable];
+  return value && path.isAbsolute(value) ? value : path.join(os.homedir(), fallback);
+}
 
+// Config files, in order of precedence, see config-discovery.ts
+export const CONFIG_FLAG = '--config';
+export const CONFIG_ENV_VAR = 'DESKTOP_COMMANDER_CONFIG';
+export const PROJECT_CONFIG_FILE = 'config.json'; // relative to the working directory
+export const ALLOWED_DIR_FLAG = '--allowed-dir'; // read-write directory, replacing allowedDirectories in the config
+export const READ_ONLY_DIR_FLAG = '--read-only-dir'; // read-only directory, replacing allowedDirectories in the config
+export const USER_CONFIG_FILE = path.join(xdgDirectory('XDG_CONFIG_HOME', '.config'), 'desktop-commander', 'config.json');
+
+// Logs don't depend on the directory the client starts the server in
+export const STATE_DIR = path.join(xdgDirectory('XDG_STATE_HOME', path.join('.local', 'state')), 'desktop-commander');
+export const LOG_FILE = path.join(STATE_DIR, 'server.log');
+export const ERROR_LOG_FILE = path.join(STATE_DIR, 'error.log');
+
+// Defaults of the settings in config.json, see server-config.ts
 export const DEFAULT_COMMAND_TIMEOUT = 1000; // milliseconds
+export const DEFAULT_MAX_STORED_OUTPUT = 20 * 1024 * 1024; // bytes of output kept per session
+export const DEFAULT_MAX_OUTPUT_CHUNKS = 2000; // chunks of output kept per session
+export const DEFAULT_MAX_COMPLETED_SESSIONS = 100; // finished sessions whose output is kept
+export const DEFAULT_MAX_HISTORY_ENTRIES = 1000; // finished sessions listed in the history
+export const DEFAULT_FUZZY_THRESHOLD = 0.7; // minimum similarity of a fuzzy edit match, from 0 to 1
+export const DEFAULT_MAX_READ_BYTES = 256 * 1024; // content desktop_fs_read returns without full: true
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024; // images desktop_fs_read returns without full: true
+
+export const DEFAULT_INPUT_WAIT = 500; // milliseconds
+export const DEFAULT_WAIT_TIMEOUT = 30000; // milliseconds
+export const DEFAULT_TERMINATE_SIGNAL: NodeJS.Signals = 'SIGINT';
+export const DEFAULT_TERMINATE_GRACE = 1000; // milliseconds before escalating to SIGKILL
+export const DEFAULT_RESPONSE_MAX_BYTES = 50 * 1024; // output returned by a single tool call
+export const DEFAULT_RESPONSE_MAX_LINES = 1000;
+export const DEFAULT_GREP_MAX_MATCHES = 100; // matching lines desktop_fs_grep returns per call
+export const DEFAULT_SEARCH_MAX_RESULTS = 1000; // paths desktop_fs_search returns
+export const DEFAULT_CONFIRMATION_TIMEOUT = 5 * 60 * 1000; // milliseconds a pending action waits for confirmation
+export const ALLOW_POLICY_CHANGES_FLAG = '--allow-policy-changes'; // lets the policy tools change the command policy
+export const CONFIG_RELOAD_DELAY = 100; // milliseconds to wait for a config file write to settle
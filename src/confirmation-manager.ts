@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+import { PendingActionInfo, ToolResponse } from './types.js';
+import { DEFAULT_CONFIRMATION_TIMEOUT } from './config.js';
+
+interface PendingAction extends PendingActionInfo {
+  execute: () => Promise<ToolResponse>;
+}
+
+/**
+ * Holds actions that the command policy requires a human to confirm. Nothing
+ * runs until confirm() is called with the action's token before it expires,
+ * and each token can be used once.
+ */
+export class ConfirmationManager {
+  private pending: Map<string, PendingAction> = new Map();
+
+  constructor(private timeoutMs: number = DEFAULT_CONFIRMATION_TIMEOUT) {}
+
+  request(summary: string, reason: string, execute: () => Promise<ToolResponse>): PendingActionInfo {
+    this.removeExpired();
+
+    const action: PendingAction = {
+      token: randomUUID(),
+      summary,
+      reason,
+      expiresAt: new Date(Date.now() + this.timeoutMs),
+      execute
+    };
+    this.pending.set(action.token, action);
+    return this.toInfo(action);
+  }
+
+  /**
+   * Runs a pending action. Unknown, expired and already confirmed tokens are
+   * rejected.
+   */
+  async confirm(token: string): Promise<ToolResponse> {
+    this.removeExpired();
+
+    const action = this.pending.get(token);
+    if (!action) {
+      throw new Error(`No pending action with token ${token}. It may have expired or already been confirmed`);
+    }
+    this.pending.delete(token);
+    return action.execute();
+  }
+
+  /** Drops a pending action without running it */
+  cancel(token: string): boolean {
+    return this.pending.delete(token);
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [token, action] of this.pending) {
+      if (action.expiresAt.getTime() <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+
+  private toInfo(action: PendingAction): PendingActionInfo {
+    return {
+      token: action.token,
+      summary: action.summary,
+      reason: action.reason,
+      expiresAt: action.expiresAt
+    };
+  }
+}
+
+export const confirmationManager = new ConfirmationManager();
@@ -3,9 +3,13 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { server } from './server.js';
 import { commandManager } from './command-manager.js';
+import { terminalManager } from './terminal-manager.js';
+import { shellSessionManager } from './shell-session-manager.js';
+import { configManager } from './config-manager.js';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { VERSION } from './version.js';
+import { ALLOW_POLICY_CHANGES_FLAG } from './config.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -18,6 +22,19 @@ async function runSetup() {
   }
 }
 
+let shuttingDown = false;
+
+// Stop every process the server started, giving them a moment to exit cleanly
+async function shutdown() {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  configManager.stop();
+  await Promise.all([terminalManager.shutdown(), shellSessionManager.shutdown()]);
+  process.exit(0);
+}
+
 async function runServer() {
   try {
     // Check if first argument is "setup"
@@ -38,11 +55,24 @@ async function runServer() {
       process.exit(1);
     });
 
+    // Sessions run in their own process groups, so nothing stops them when
+    // the server goes away unless it cleans them up itself
+    process.on('exit', () => {
+      terminalManager.killAll();
+      shellSessionManager.killAll();
+    });
+    for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+      process.on(signal, () => shutdown());
+    }
+
     const transport = new StdioServerTransport();
     
-    // Load blocked commands from config file
+    // Only the operator can let the model change the command policy
+    commandManager.setPolicyChangesAllowed(process.argv.includes(ALLOW_POLICY_CHANGES_FLAG));
+
+    // Load the config, including blocked commands and the command policy
     try {
-      await commandManager.loadBlockedCommands();
+      await configManager.load();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       process.stderr.write(JSON.stringify({
@@ -53,7 +83,17 @@ async function runServer() {
       process.exit(1); // Exit if we can't load security settings
     }
 
+    // Apply later changes to the config without a restart, and tell the client about them
+    configManager.onReload((level, message) => {
+      server.sendLoggingMessage({ level, logger: 'config', data: message }).catch(() => {});
+    });
+    configManager.start();
+
     await server.connect(transport);
+
+    // The client closing stdin means the MCP connection is gone
+    server.onclose = () => shutdown();
+    process.stdin.on('end', () => shutdown());
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     process.stderr.write(JSON.stringify({
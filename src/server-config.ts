@@ -0,0 +1,126 @@
+import { z, ZodError } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CommandPolicySchema } from './utils/command-policy.js';
+import {
+  DEFAULT_COMMAND_TIMEOUT,
+  DEFAULT_MAX_STORED_OUTPUT,
+  DEFAULT_MAX_OUTPUT_CHUNKS,
+  DEFAULT_MAX_COMPLETED_SESSIONS,
+  DEFAULT_MAX_HISTORY_ENTRIES,
+  DEFAULT_FUZZY_THRESHOLD,
+  DEFAULT_MAX_READ_BYTES,
+  DEFAULT_MAX_IMAGE_BYTES
+} from './config.js';
+
+// Blocked when config.json does not list any
+export const DEFAULT_BLOCKED_COMMANDS = [
+  'format', 'mount', 'umount', 'mkfs', 'fdisk', 'dd',
+  'sudo', 'su', 'passwd', 'adduser', 'useradd', 'usermod', 'groupadd'
+];
+
+// Secrets and browser profiles the filesystem tools may not access unless
+// config.json sets deniedPaths
+export const DEFAULT_DENIED_PATHS = [
+  '~/.ssh/**', '~/.aws/**', '~/.gnupg/**', '~/.kube/**', '~/.docker/config.json',
+  '~/.config/gcloud/**', '~/.azure/**', '~/.netrc', '~/.git-credentials', '**/.env',
+  '~/.mozilla/**', '~/.config/google-chrome/**', '~/.config/chromium/**',
+  '~/Library/Application Support/Google/Chrome/**', '~/Library/Application Support/Firefox/**',
+  '~/Library/Keychains/**', '~/Desktop/**'
+];
+
+// Skipped by desktop_fs_search and desktop_fs_grep when config.json lists none
+export const DEFAULT_SEARCH_EXCLUDE = ['node_modules', '.git'];
+
+export const AllowedDirectorySchema = z.union([
+  z.string().min(1),
+  z.object({
+    path: z.string().min(1),
+    mode: z.enum(['read-only', 'read-write']).default('read-write')
+      .describe('read-only directories can be read but not changed with the filesystem tools'),
+  }).strict()
+]);
+
+export const CommandLimitsSchema = z.object({
+  maxRuntimeMs: z.number().positive().optional()
+    .describe('Wall clock time after which the whole process tree is killed'),
+  maxCpuSeconds: z.number().positive().optional()
+    .describe('CPU time per process'),
+  maxMemoryMb: z.number().positive().optional()
+    .describe('Address space per process'),
+  maxOutputBytes: z.number().int().positive().optional()
+    .describe('Output after which the command is killed'),
+  maxOpenFiles: z.number().int().positive().optional()
+    .describe('Open file descriptors per process'),
+}).strict();
+
+export const ServerConfigSchema = z.object({
+  $schema: z.string().optional(),
+  blockedCommands: z.array(z.string()).default(DEFAULT_BLOCKED_COMMANDS)
+    .describe('Commands that may not run; entries with several words match commands whose arguments start with them'),
+  commandPolicy: CommandPolicySchema.default({})
+    .describe('Allowlist and rules that allow, deny or ask for confirmation of commands and file operations'),
+  commandLimits: CommandLimitsSchema.default({})
+    .describe('Resource limits for every command; commands can only tighten them'),
+  commandTimeoutMs: z.number().int().positive().default(DEFAULT_COMMAND_TIMEOUT)
+    .describe('How long a command runs before its tool call returns, if the call sets no timeout'),
+  maxStoredOutputBytes: z.number().int().positive().default(DEFAULT_MAX_STORED_OUTPUT)
+    .describe('Output kept per session; older output is dropped'),
+  maxOutputChunks: z.number().int().positive().default(DEFAULT_MAX_OUTPUT_CHUNKS)
+    .describe('Chunks of output kept per session'),
+  maxCompletedSessions: z.number().int().positive().default(DEFAULT_MAX_COMPLETED_SESSIONS)
+    .describe('Finished sessions whose output is kept'),
+  maxHistoryEntries: z.number().int().positive().default(DEFAULT_MAX_HISTORY_ENTRIES)
+    .describe('Finished sessions listed in the command history'),
+  fuzzyThreshold: z.number().min(0).max(1).default(DEFAULT_FUZZY_THRESHOLD)
+    .describe('Minimum similarity, from 0 to 1, of a near match reported by desktop_fs_edit_block'),
+  maxReadBytes: z.number().int().positive().default(DEFAULT_MAX_READ_BYTES)
+    .describe('Content desktop_fs_read returns at once; larger files and ranges get a summary unless full is set'),
+  maxImageBytes: z.number().int().positive().default(DEFAULT_MAX_IMAGE_BYTES)
+    .describe('Largest image desktop_fs_read returns as image content; larger images get a summary unless full is set'),
+  allowedDirectories: z.array(AllowedDirectorySchema).optional()
+    .describe('Directories the filesystem tools may access, as paths or { path, mode } objects, replacing the default of the working directory, home directory and temp directory'),
+  deniedPaths: z.array(z.string().min(1)).default(DEFAULT_DENIED_PATHS)
+    .describe('Globs of paths the filesystem tools may not access even within an allowed directory, such as ~/.ssh/** or **/.env'),
+  searchExclude: z.array(z.string().min(1)).default(DEFAULT_SEARCH_EXCLUDE)
+    .describe('Globs of paths desktop_fs_search and desktop_fs_grep skip, relative to the directory searched; globs without a slash match names in any directory'),
+}).strict();
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+export type AllowedDirectory = z.infer<typeof AllowedDirectorySchema>;
+
+let currentConfig: ServerConfig = ServerConfigSchema.parse({});
+
+/** The config in effect, with defaults for everything the file doesn't set */
+export function getServerConfig(): ServerConfig {
+  return currentConfig;
+}
+
+export function setServerConfig(config: ServerConfig): void {
+  currentConfig = config;
+}
+
+/**
+ * Validates a config, naming every invalid setting in the error, such as
+ * "commandLimits.maxCpuSeconds: Number must be greater than 0"
+ */
+export function parseServerConfig(value: unknown): ServerConfig {
+  const parsed = ServerConfigSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(formatConfigErrors(parsed.error));
+  }
+  return parsed.data;
+}
+
+function formatConfigErrors(error: ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'config'}: ${issue.message}`)
+    .join('; ');
+}
+
+/** JSON Schema of config.json, for editors to validate and complete it */
+export function serverConfigJsonSchema(): object {
+  return zodToJsonSchema(ServerConfigSchema, {
+    name: 'DesktopCommanderConfig',
+    target: 'jsonSchema7'
+  });
+}
@@ -9,23 +9,46 @@ import { commandManager } from './command-manager.js';
 import {
   ExecuteCommandArgsSchema,
   ReadOutputArgsSchema,
+  SendInputArgsSchema,
+  WaitForArgsSchema,
   ForceTerminateArgsSchema,
   ListSessionsArgsSchema,
+  SessionHistoryArgsSchema,
   KillProcessArgsSchema,
+  CreateShellSessionArgsSchema,
+  RunInShellSessionArgsSchema,
+  ReadShellOutputArgsSchema,
+  ListShellSessionsArgsSchema,
+  CloseShellSessionArgsSchema,
   ReadFileArgsSchema,
   WriteFileArgsSchema,
   CreateDirectoryArgsSchema,
   ListDirectoryArgsSchema,
   MoveFileArgsSchema,
   SearchFilesArgsSchema,
+  GrepArgsSchema,
   GetFileInfoArgsSchema,
   EditBlockArgsSchema,
+  ConfirmActionArgsSchema,
+  GetPolicyArgsSchema,
+  BlockCommandArgsSchema,
+  UnblockCommandArgsSchema,
+  SetPolicyArgsSchema,
+  GetConfigArgsSchema,
 } from './tools/schemas.js';
-import { executeCommand, readOutput, forceTerminate, listSessions } from './tools/execute.js';
+import { executeCommand, readOutput, sendInput, waitFor, forceTerminate, listSessions, sessionHistory } from './tools/execute.js';
 import { listProcesses, killProcess } from './tools/process.js';
 import {
-  readFile,
+  createShellSession,
+  runInShellSession,
+  readShellOutput,
+  listShellSessions,
+  closeShellSession,
+} from './tools/shell-session.js';
+import {
+  readFileRange,
   writeFile,
+  decodeBase64,
   createDirectory,
   listDirectory,
   moveFile,
@@ -34,6 +57,11 @@ import {
   listAllowedDirectories,
 } from './tools/filesystem.js';
 import { parseEditBlock, performSearchReplace } from './tools/edit.js';
+import { grepFiles, formatGrepResult } from './tools/grep.js';
+import { confirmAction, guardFileOperation } from './tools/confirm.js';
+import { getPolicy, blockCommand, unblockCommand, setPolicy } from './tools/policy.js';
+import { getConfig } from './tools/config.js';
+import { describeFormat } from './utils/encoding.js';
 
 
 import { VERSION } from './version.js';
@@ -52,6 +80,7 @@ export const server = new Server(
   {
     capabilities: {
       tools: {},
+      logging: {},
     },
   },
 );
@@ -65,32 +94,125 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description:
           "Execute a terminal command with optional timeout (in milliseconds). If the timeout is reached, " +
           "the command continues running in the background and can be monitored using desktop_cmd_output. " +
-          "Returns PID and initial output from the command. Use responsibly and avoid potentially " +
-          "destructive commands without user confirmation. Example: {\"command\": \"ls -la\", \"timeout_ms\": 5000}",
+          "Returns PID, initial stdout and stderr as separate sections (or in their original order with interleaved), " +
+          "and for finished commands the exit code, terminating signal, timestamps and whether output was truncated. " +
+          "Set format to 'json' for a structured result. Use responsibly and avoid potentially " +
+          "destructive commands without user confirmation. Optionally set cwd (must be within allowed directories), " +
+          "env (merged over the server environment, or replacing it with env_mode 'replace') and shell " +
+          "('bash', 'sh', 'zsh', or 'none' to run the executable directly with an args array and no shell interpolation). " +
+          "limits can cap max_runtime_ms (wall clock, the whole process tree is killed), max_cpu_seconds, max_memory_mb " +
+          "and max_open_files (per process), and max_output_bytes. They can only tighten the limits configured on the server, " +
+          "and the completion status reports which limit a command exceeded. " +
+          "Set normalize to true to strip ANSI escape codes, keep only the final state of carriage-return progress bars " +
+          "and collapse repeated lines, or pass {strip_ansi, carriage_returns, collapse_repeats} to choose. " +
+          "Output beyond max_bytes (default 51200) or max_lines (default 1000) is shortened to its head and tail, " +
+          "keeping error-looking lines from the middle, with instructions for reading the rest; 0 disables the budget. " +
+          "Every command in the command line is checked against the server's command policy, which may deny it " +
+          "or require confirmation, with the reason given. " +
+          "Example: {\"command\": \"ls -la\", \"timeout_ms\": 5000, \"cwd\": \"/home/user/project\"}",
         inputSchema: zodToJsonSchema(ExecuteCommandArgsSchema),
       },
       {
         name: "desktop_cmd_output",
         description:
-          "Read new output from a running terminal session. Use this to get additional output " +
-          "from long-running commands or commands that were started with desktop_cmd_run. " +
-          "Example: {\"pid\": 1234}",
+          "Read output from a running or completed terminal session started with desktop_cmd_run. " +
+          "Output is kept after reading. Modes: 'new' (default) returns output since the last 'new' read " +
+          "or since an explicit cursor; 'all' returns everything retained; 'head'/'tail' return the first/last " +
+          "N lines (lines, default 100); 'range' returns bytes from offset for length bytes; 'grep' returns lines " +
+          "matching a regex pattern with optional context lines, ignore_case and max_matches. Every response ends " +
+          "with the byte range read and a cursor for the next read. interleaved and format work as in desktop_cmd_run. " +
+          "Pass session_id instead of pid to read a past session listed by desktop_cmd_history. " +
+          "Output of commands run with normalize is returned normalized unless raw is true. " +
+          "max_bytes and max_lines set the response budget as in desktop_cmd_run. " +
+          "Example: {\"pid\": 1234, \"mode\": \"tail\", \"lines\": 200}",
         inputSchema: zodToJsonSchema(ReadOutputArgsSchema),
       },
+      {
+        name: "desktop_cmd_send_input",
+        description:
+          "Send input to the stdin of a running terminal session started with desktop_cmd_run. " +
+          "Use this to answer prompts or drive interactive programs such as REPLs. A trailing newline is " +
+          "added unless newline is false, and empty input sends a bare Enter to accept a prompt's default. Set eof to close stdin, or control to send ctrl-c, ctrl-d, ctrl-z or ctrl-\\. " +
+          "Waits up to wait_ms (default 500) and returns the output produced since the last read. " +
+          "Example: {\"pid\": 1234, \"input\": \"y\"}",
+        inputSchema: zodToJsonSchema(SendInputArgsSchema),
+      },
+      {
+        name: "desktop_cmd_wait",
+        description:
+          "Wait for a terminal session started with desktop_cmd_run to reach a condition, instead of polling " +
+          "desktop_cmd_output. Returns as soon as the output matches the regex pattern, the TCP port (on host, " +
+          "default 127.0.0.1) accepts connections, the process exits, or timeout_ms (default 30000) passes. " +
+          "Reports which condition fired along with the matching or latest output. " +
+          "Example: {\"pid\": 1234, \"pattern\": \"Listening on port\", \"port\": 3000, \"timeout_ms\": 60000}",
+        inputSchema: zodToJsonSchema(WaitForArgsSchema),
+      },
       {
         name: "desktop_cmd_terminate",
         description:
           "Force terminate a running terminal session. Use this to stop commands that were started " +
-          "with desktop_cmd_run and are still executing. Example: {\"pid\": 1234}",
+          "with desktop_cmd_run and are still executing. The signal (default SIGINT) is sent to the whole " +
+          "process tree, including child processes such as the server started by 'npm run dev'; anything still " +
+          "running after grace_ms (default 1000) is killed with SIGKILL. Example: {\"pid\": 1234, \"signal\": \"SIGTERM\"}",
         inputSchema: zodToJsonSchema(ForceTerminateArgsSchema),
       },
       {
         name: "desktop_cmd_list_sessions",
         description:
-          "List all active terminal sessions. Returns a list of PIDs, blocked status, and runtime " +
+          "List all active terminal sessions. Returns a list of PIDs, session IDs, commands, blocked status, and runtime " +
           "for commands started with desktop_cmd_run. Useful for managing and monitoring multiple commands.",
         inputSchema: zodToJsonSchema(ListSessionsArgsSchema),
       },
+      {
+        name: "desktop_cmd_history",
+        description:
+          "List recent terminal sessions started with desktop_cmd_run, newest first, including finished ones. " +
+          "Each entry shows the session ID, PID, command, cwd, exit code, duration and output size. " +
+          "Filter with failed_only, a case-insensitive command substring, and since/until ISO timestamps " +
+          "for the start time; limit caps the number of entries (default 20). Output of the 100 most recent " +
+          "finished sessions can be re-read with desktop_cmd_output using session_id. " +
+          "Example: {\"failed_only\": true, \"command\": \"npm\"}",
+        inputSchema: zodToJsonSchema(SessionHistoryArgsSchema),
+      },
+      // Shell session tools
+      {
+        name: "desktop_shell_create",
+        description:
+          "Create a named, long-lived shell session (bash, sh or zsh). Unlike desktop_cmd_run, the working " +
+          "directory, environment variables and shell functions persist between commands run in the session. " +
+          "Example: {\"name\": \"build\", \"cwd\": \"/home/user/project\"}",
+        inputSchema: zodToJsonSchema(CreateShellSessionArgsSchema),
+      },
+      {
+        name: "desktop_shell_run",
+        description:
+          "Run a command in a named shell session created with desktop_shell_create. Waits up to timeout_ms " +
+          "(in milliseconds) and returns the command's own stdout, stderr, exit code and the session's working " +
+          "directory. Commands don't receive stdin. If the timeout is reached the command keeps running and " +
+          "its output can be read with desktop_shell_output. " +
+          "Example: {\"name\": \"build\", \"command\": \"cd src && export DEBUG=1\"}",
+        inputSchema: zodToJsonSchema(RunInShellSessionArgsSchema),
+      },
+      {
+        name: "desktop_shell_output",
+        description:
+          "Read new output from the running or most recently finished command in a named shell session. " +
+          "Example: {\"name\": \"build\"}",
+        inputSchema: zodToJsonSchema(ReadShellOutputArgsSchema),
+      },
+      {
+        name: "desktop_shell_list",
+        description:
+          "List named shell sessions with their PID, shell, status, number of commands run, " +
+          "current working directory and runtime.",
+        inputSchema: zodToJsonSchema(ListShellSessionsArgsSchema),
+      },
+      {
+        name: "desktop_shell_close",
+        description:
+          "Close a named shell session and terminate its shell process. Example: {\"name\": \"build\"}",
+        inputSchema: zodToJsonSchema(CloseShellSessionArgsSchema),
+      },
       {
         name: "desktop_proc_list",
         description:
@@ -112,17 +234,71 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "that are unresponsive or causing problems. Example: {\"pid\": 1234}",
         inputSchema: zodToJsonSchema(KillProcessArgsSchema),
       },
-      // Command blocking tools removed as they're more administrative in nature
-      // The server will still block dangerous commands internally
+      {
+        name: "desktop_confirm_action",
+        description:
+          "Run an action that the command policy held for confirmation. Commands and filesystem operations the policy " +
+          "marks as needing confirmation are not run; their tool call returns a token and a summary of what would run " +
+          "instead. Only call this after the user has approved that action. Tokens can be used once and expire after " +
+          "5 minutes. Set cancel to true to drop the action instead. Example: {\"token\": \"3f2b...\"}",
+        inputSchema: zodToJsonSchema(ConfirmActionArgsSchema),
+      },
+      {
+        name: "desktop_config_get",
+        description:
+          "Show the server configuration in effect, including defaults for settings config.json doesn't set: " +
+          "the default command timeout, how much output and how many finished sessions are kept, command limits, " +
+          "the fuzzy match threshold of desktop_fs_edit_block, allowed directories, blocked commands and the command policy.",
+        inputSchema: zodToJsonSchema(GetConfigArgsSchema),
+      },
+      {
+        name: "desktop_policy_get",
+        description:
+          "Show the active command policy: the mode (blocklist or allowlist), blocked and allowed commands, command rules " +
+          "and file rules in order of precedence, and whether the policy can be changed. Set format to 'json' for the " +
+          "policy as data.",
+        inputSchema: zodToJsonSchema(GetPolicyArgsSchema),
+      },
+      {
+        name: "desktop_policy_block_command",
+        description:
+          "Add a command to the blocked commands and save it to config.json. Entries with several words, such as " +
+          "'rm -rf', block commands whose arguments start with the same words. Only works when the operator started " +
+          "the server with --allow-policy-changes. Example: {\"command\": \"rm -rf\"}",
+        inputSchema: zodToJsonSchema(BlockCommandArgsSchema),
+      },
+      {
+        name: "desktop_policy_unblock_command",
+        description:
+          "Remove a command from the blocked commands and save it to config.json. Only works when the operator started " +
+          "the server with --allow-policy-changes. Example: {\"command\": \"rm -rf\"}",
+        inputSchema: zodToJsonSchema(UnblockCommandArgsSchema),
+      },
+      {
+        name: "desktop_policy_set",
+        description:
+          "Replace the command policy (mode, allowedCommands, rules and fileRules) and save it to config.json. The " +
+          "policy is validated before anything changes. Only works when the operator started the server with " +
+          "--allow-policy-changes. Example: {\"policy\": {\"mode\": \"blocklist\", \"rules\": " +
+          "[{\"command\": \"git\", \"args\": [\"^push$\", \"^--force$\"], \"action\": \"deny\"}]}}",
+        inputSchema: zodToJsonSchema(SetPolicyArgsSchema),
+      },
       
       // Filesystem tools
       {
         name: "desktop_fs_read",
         description:
-          "[Filesystem] Read the complete contents of a file from the file system. " +
-          "Handles various text encodings and provides detailed error messages " +
-          "if the file cannot be read. Only works within allowed directories. " +
-          "Example: {\"path\": \"/home/user/document.txt\"}",
+          "[Filesystem] Read the contents of a file from the file system, or part of it. " +
+          "Select lines with startLine and endLine (1-based, inclusive), bytes with offset and length, " +
+          "or the last lines with tail. Set lineNumbers to prefix each line with its number. " +
+          "Files or parts larger than the configured limit (256 KB by default) return a summary with " +
+          "the size (and line count, except for byte ranges and tails) instead of the content, unless full is true. " +
+          "PNG, JPEG, GIF and WebP images are returned as image content. Other binary files return their type, " +
+          "size and a hex dump of their start; read other bytes of them with offset and length. " +
+          "The encoding of text is detected from its byte order mark or content and reported with the line endings; " +
+          "set encoding (utf-8, utf-16le, utf-16be or latin1) to read it in another one. " +
+          "Only works within allowed directories. " +
+          "Example: {\"path\": \"/var/log/app.log\", \"tail\": 100, \"lineNumbers\": true}",
         inputSchema: zodToJsonSchema(ReadFileArgsSchema),
       },
       {
@@ -131,6 +307,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "[Filesystem] Completely replace file contents. Best for large changes (>20% of file) or when edit_block fails. " +
           "Uses atomic writing for safety and supports creating parent directories if they don't exist. " +
           "Use with caution as it will overwrite existing files. Creates new files if they don't exist. " +
+          "Set contentEncoding to \"base64\" to write binary files from base64 content. " +
+          "Text replacing a file keeps the file's encoding, byte order mark and line endings, and new files are UTF-8; " +
+          "set encoding (utf-8, utf-16le, utf-16be or latin1) to write another one. " +
           "Only works within allowed directories. Example: {\"path\": \"/home/user/file.txt\", \"content\": \"New file content here\", " +
           "\"options\": {\"createDirectories\": true}}",
         inputSchema: zodToJsonSchema(WriteFileArgsSchema),
@@ -167,9 +346,33 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "[Filesystem] Recursively search for files and directories matching a pattern. " +
           "Searches through all subdirectories from the starting path. Useful for finding files " +
           "by name, extension, or partial text match. Returns absolute paths to all matches. " +
+          "By default, names containing the pattern match, ignoring case. With mode \"glob\", paths relative to " +
+          "the starting path match the glob, such as \"src/**/*.test.ts\", and globs without a slash match names. " +
+          "Filter by type (file, directory or symlink), by size in bytes with minSize and maxSize, and by " +
+          "modification time with modifiedAfter and modifiedBefore, given as dates such as 2024-05-01 or " +
+          "durations before now such as 7d. node_modules, .git and the configured excludes are skipped; add globs " +
+          "with exclude, or set gitignore to skip files ignored by .gitignore. At most maxResults paths " +
+          "(1000 by default) are returned. " +
           "Only searches within allowed directories. Example: {\"path\": \"/home/user\", \"pattern\": \".txt\"}",
+
         inputSchema: zodToJsonSchema(SearchFilesArgsSchema),
       },
+      {
+        name: "desktop_fs_grep",
+        description:
+          "[Filesystem] Search the contents of files for text or a regular expression, like grep -rn. " +
+          "The pattern is literal text unless regex is true, and caseSensitivity is smart by default: " +
+          "case is ignored unless the pattern has an uppercase letter. Filter files with include and exclude globs, " +
+          "where globs without a slash match file names, such as \"*.ts\". Show lines around each match with " +
+          "context, or before and after. Files ignored by .gitignore, node_modules, .git and the configured excludes, " +
+          "binary files and files over 10 MB are skipped; set gitignore to false to search ignored files. Returns path:line:column:text " +
+          "for matching lines and path-line-text for context. At most maxMatches lines (100 by default) are " +
+          "returned; when there are more, search again with the offset given in the result. Each page searches " +
+          "the files of the earlier pages again, so narrow the search with path or include rather than paging far. " +
+          "Only searches within allowed directories. " +
+          "Example: {\"path\": \"/home/user/project\", \"pattern\": \"validatePath(\", \"include\": [\"*.ts\"], \"context\": 2}",
+        inputSchema: zodToJsonSchema(GrepArgsSchema),
+      },
       {
         name: "desktop_fs_stat",
         description:
@@ -184,7 +387,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description: 
           "[Filesystem] Returns the list of directories that this server is allowed to access. " +
           "Use this to determine which locations are available for file operations before " +
-          "attempting to access potentially restricted areas. Results include notes about restricted locations.",
+          "attempting to access potentially restricted areas. Results include whether each directory is read-only " +
+          "or read-write, and the denied paths that can't be accessed in any directory.",
         inputSchema: {
           type: "object",
           properties: {},
@@ -214,7 +418,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             "- Always verify the file after edits to ensure no markers were accidentally left in the file\n" +
             "- When text appears multiple times and you want to replace all instances, add the expected count (e.g., '/path/to/file.txt::5')\n" +
             "- For safety, the default behavior is to only replace when exactly one match is found\n" +
-            "- If an exact match isn't found, the tool now provides better suggestions using fuzzy matching",
+            "- If an exact match isn't found, the tool now provides better suggestions using fuzzy matching\n" +
+            "- The file keeps its encoding, byte order mark and line endings; set encoding (utf-8, utf-16le, utf-16be or latin1) " +
+            "if the file's encoding is detected wrongly",
         inputSchema: zodToJsonSchema(EditBlockArgsSchema),
       },
     ],
@@ -235,12 +441,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         const parsed = ReadOutputArgsSchema.parse(args);
         return readOutput(parsed);
       }
+      case "desktop_cmd_send_input": {
+        const parsed = SendInputArgsSchema.parse(args);
+        return sendInput(parsed);
+      }
+      case "desktop_cmd_wait": {
+        const parsed = WaitForArgsSchema.parse(args);
+        return waitFor(parsed);
+      }
       case "desktop_cmd_terminate": {
         const parsed = ForceTerminateArgsSchema.parse(args);
         return forceTerminate(parsed);
       }
       case "desktop_cmd_list_sessions":
         return listSessions();
+      case "desktop_cmd_history": {
+        const parsed = SessionHistoryArgsSchema.parse(args);
+        return sessionHistory(parsed);
+      }
+      case "desktop_shell_create": {
+        const parsed = CreateShellSessionArgsSchema.parse(args);
+        return createShellSession(parsed);
+      }
+      case "desktop_shell_run": {
+        const parsed = RunInShellSessionArgsSchema.parse(args);
+        return runInShellSession(parsed);
+      }
+      case "desktop_shell_output": {
+        const parsed = ReadShellOutputArgsSchema.parse(args);
+        return readShellOutput(parsed);
+      }
+      case "desktop_shell_list":
+        return listShellSessions();
+      case "desktop_shell_close": {
+        const parsed = CloseShellSessionArgsSchema.parse(args);
+        return closeShellSession(parsed);
+      }
       case "desktop_proc_list":
         return listProcesses();
       case "desktop_proc_kill": {
@@ -248,46 +484,82 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         return killProcess(parsed);
       }
       
-      // Command blocking tools removed
-      // Internal command validation still happens in executeCommand
+      case "desktop_confirm_action": {
+        const parsed = ConfirmActionArgsSchema.parse(args);
+        return confirmAction(parsed);
+      }
+
+      case "desktop_config_get": {
+        const parsed = GetConfigArgsSchema.parse(args);
+        return getConfig(parsed);
+      }
+      case "desktop_policy_get": {
+        const parsed = GetPolicyArgsSchema.parse(args);
+        return getPolicy(parsed);
+      }
+      case "desktop_policy_block_command": {
+        const parsed = BlockCommandArgsSchema.parse(args);
+        return blockCommand(parsed);
+      }
+      case "desktop_policy_unblock_command": {
+        const parsed = UnblockCommandArgsSchema.parse(args);
+        return unblockCommand(parsed);
+      }
+      case "desktop_policy_set": {
+        const parsed = SetPolicyArgsSchema.parse(args);
+        return setPolicy(parsed);
+      }
       
       // Filesystem tools
       case "desktop_fs_edit_block": {
         const parsed = EditBlockArgsSchema.parse(args);
         const { filePath, searchReplace, expectedReplacements } = await parseEditBlock(parsed.blockContent);
-        const result = await performSearchReplace(filePath, searchReplace, expectedReplacements);
-        
-        // Return more detailed information about the operation
-        let responseText = result.message;
-        if (result.success && result.matchCount) {
-          responseText += `\nFound ${result.matchCount} ${result.matchCount === 1 ? 'occurrence' : 'occurrences'} of the search text.`;
-        }
-        
-        return {
-          content: [{ type: "text", text: responseText }],
-          isError: !result.success
-        };
+        return guardFileOperation('edit', [filePath], `edit ${filePath}`, async () => {
+          const result = await performSearchReplace(filePath, searchReplace, expectedReplacements, parsed.encoding);
+
+          // Return more detailed information about the operation
+          let responseText = result.message;
+          if (result.success && result.matchCount) {
+            responseText += `\nFound ${result.matchCount} ${result.matchCount === 1 ? 'occurrence' : 'occurrences'} of the search text.`;
+          }
+
+          return {
+            content: [{ type: "text", text: responseText }],
+            isError: !result.success
+          };
+        });
       }
       case "desktop_fs_read": {
-        const parsed = ReadFileArgsSchema.parse(args);
-        const content = await readFile(parsed.path);
+        const { path: filePath, ...options } = ReadFileArgsSchema.parse(args);
+        const result = await readFileRange(filePath, options);
         return {
-          content: [{ type: "text", text: content }],
+          content: [
+            { type: "text" as const, text: result.text },
+            ...(result.image ? [{ type: "image" as const, data: result.image.data, mimeType: result.image.mimeType }] : []),
+            ...(result.note ? [{ type: "text" as const, text: result.note }] : []),
+            ...(result.format ? [{ type: "text" as const, text: `[Encoding: ${describeFormat(result.format)}]` }] : []),
+          ],
         };
       }
       case "desktop_fs_write": {
         const parsed = WriteFileArgsSchema.parse(args);
-        await writeFile(parsed.path, parsed.content, parsed.options);
-        return {
-          content: [{ type: "text", text: `Successfully wrote to ${parsed.path}` }],
-        };
+        const content = parsed.contentEncoding === 'base64' ? decodeBase64(parsed.content) : parsed.content;
+        const size = typeof content === 'string' ? `${content.length} characters` : `${content.length} bytes`;
+        return guardFileOperation('write', [parsed.path], `write ${size} to ${parsed.path}`, async () => {
+          const format = await writeFile(parsed.path, content, { ...parsed.options, encoding: parsed.encoding });
+          return {
+            content: [{ type: "text", text: `Successfully wrote to ${parsed.path}${format ? ` as ${describeFormat(format)}` : ''}` }],
+          };
+        });
       }
       case "desktop_fs_mkdir": {
         const parsed = CreateDirectoryArgsSchema.parse(args);
-        await createDirectory(parsed.path);
-        return {
-          content: [{ type: "text", text: `Successfully created directory ${parsed.path}` }],
-        };
+        return guardFileOperation('mkdir', [parsed.path], `create directory ${parsed.path}`, async () => {
+          await createDirectory(parsed.path);
+          return {
+            content: [{ type: "text", text: `Successfully created directory ${parsed.path}` }],
+          };
+        });
       }
       case "desktop_fs_list": {
         const parsed = ListDirectoryArgsSchema.parse(args);
@@ -298,16 +570,29 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
       }
       case "desktop_fs_move": {
         const parsed = MoveFileArgsSchema.parse(args);
-        await moveFile(parsed.source, parsed.destination);
+        return guardFileOperation('move', [parsed.source, parsed.destination], `move ${parsed.source} to ${parsed.destination}`, async () => {
+          await moveFile(parsed.source, parsed.destination);
+          return {
+            content: [{ type: "text", text: `Successfully moved ${parsed.source} to ${parsed.destination}` }],
+          };
+        });
+      }
+      case "desktop_fs_search": {
+        const { path: rootPath, pattern, ...options } = SearchFilesArgsSchema.parse(args);
+        const result = await searchFiles(rootPath, pattern, options);
+        const more = result.truncated
+          ? `\n[More results are available; only the first ${options.maxResults} are shown, so narrow the search or raise maxResults]`
+          : '';
         return {
-          content: [{ type: "text", text: `Successfully moved ${parsed.source} to ${parsed.destination}` }],
+          content: [{ type: "text", text: result.paths.length > 0 ? result.paths.join('\n') + more : "No matches found" }],
         };
       }
-      case "desktop_fs_search": {
-        const parsed = SearchFilesArgsSchema.parse(args);
-        const results = await searchFiles(parsed.path, parsed.pattern);
+      case "desktop_fs_grep": {
+        const { context, before, after, ...options } = GrepArgsSchema.parse(args);
+        const lines = { before: before ?? context ?? 0, after: after ?? context ?? 0 };
+        const result = await grepFiles({ ...options, ...lines });
         return {
-          content: [{ type: "text", text: results.length > 0 ? results.join('\n') : "No matches found" }],
+          content: [{ type: "text", text: formatGrepResult(result, lines.before > 0 || lines.after > 0) }],
         };
       }
       case "desktop_fs_stat": {
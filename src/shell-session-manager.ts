@@ -0,0 +1,452 @@
+import { spawn, ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { StringDecoder } from 'string_decoder';
+import { SessionShell, ShellSessionInfo, ShellCommandResult, ResourceLimits, ResourceLimitKind } from './types.js';
+import { DEFAULT_TERMINATE_GRACE } from './config.js';
+import { getServerConfig } from './server-config.js';
+import { signalProcessTree, useProcessGroups } from './utils/process-tree.js';
+import { parseShellCommand } from './utils/shell-parser.js';
+import { buildUlimitCommand } from './utils/resource-limits.js';
+
+// Keep at most this many characters of output per stream for a single command
+const MAX_COMMAND_OUTPUT = 10 * 1024 * 1024;
+
+// How each shell runs a command with eval. `command` stops a POSIX shell
+// from exiting when eval fails, but zsh, which doesn't exit on it, only runs
+// external commands with `command`; `builtin` runs its eval even if a
+// function of that name is defined.
+const EVAL_COMMANDS: Record<SessionShell, string> = {
+  bash: 'command eval',
+  sh: 'command eval',
+  zsh: 'builtin eval',
+};
+
+// Exit status of a command killed by SIGXCPU
+const CPU_LIMIT_EXIT_CODE = 128 + (os.constants.signals.SIGXCPU ?? 0);
+
+interface ShellCommand {
+  command: string;
+  marker: string;
+  stdout: string;
+  stderr: string;
+  stdoutRead: number;
+  stderrRead: number;
+  stdoutDone: boolean;
+  stderrDone: boolean;
+  exitCode: number | null;
+  outputBytes: number;
+  limitExceeded: ResourceLimitKind | null;
+  runtimeTimer?: NodeJS.Timeout;
+  waiters: Array<() => void>;
+}
+
+interface ShellSession {
+  name: string;
+  shell: SessionShell;
+  process: ChildProcess;
+  cwd: string;
+  startTime: Date;
+  commandCount: number;
+  current: ShellCommand | null;
+  last: ShellCommand | null;
+  exited: boolean;
+  // The commandLimits when the session was created, which apply to each of its commands
+  limits: ResourceLimits;
+}
+
+export interface CreateShellSessionOptions {
+  shell?: SessionShell;
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+export class ShellSessionManager {
+  private sessions: Map<string, ShellSession> = new Map();
+
+  /**
+   * Starts a shell for a named session. The configured commandLimits apply to
+   * its commands as they do to desktop_cmd_run: CPU, memory and open file
+   * limits are set on the shell, so they hold for every process it starts,
+   * and a command that runs too long or produces too much output is killed
+   * together with the session, since it runs in the shell itself.
+   */
+  createSession(name: string, options: CreateShellSessionOptions = {}): ShellSessionInfo {
+    if (process.platform === 'win32') {
+      throw new Error('Persistent shell sessions are not supported on Windows');
+    }
+    if (this.sessions.has(name)) {
+      throw new Error(`Shell session "${name}" already exists`);
+    }
+
+    const shell = options.shell ?? 'bash';
+    const cwd = options.cwd ?? process.cwd();
+    const child = spawn(shell, [], {
+      cwd,
+      env: { ...process.env, ...options.env },
+      detached: useProcessGroups,
+    });
+
+    if (!child.pid) {
+      throw new Error(`Failed to start ${shell} for session "${name}"`);
+    }
+
+    const session: ShellSession = {
+      name,
+      shell,
+      process: child,
+      cwd,
+      startTime: new Date(),
+      commandCount: 0,
+      current: null,
+      last: null,
+      exited: false,
+      limits: { ...getServerConfig().commandLimits }
+    };
+
+    const stdoutDecoder = new StringDecoder('utf8');
+    const stderrDecoder = new StringDecoder('utf8');
+    child.stdout?.on('data', (data: Buffer) => this.handleStdout(session, stdoutDecoder.write(data)));
+    child.stderr?.on('data', (data: Buffer) => this.handleStderr(session, stderrDecoder.write(data)));
+    child.stdin?.on('error', () => {});
+    child.on('exit', (code, signal) => this.handleExit(session, code, signal));
+
+    // A session whose limits can't be set isn't usable, as with commands that
+    // can't be limited
+    const ulimit = buildUlimitCommand(session.limits);
+    if (ulimit) {
+      child.stdin?.write(`${ulimit} || exit 126\n`);
+    }
+
+    this.sessions.set(name, session);
+    return this.toInfo(session);
+  }
+
+  /**
+   * Runs a command in the named session and waits up to timeoutMs for it to
+   * finish. Commands that are still running keep collecting output, which can
+   * be picked up with readOutput().
+   */
+  async runCommand(name: string, command: string, timeoutMs: number = getServerConfig().commandTimeoutMs): Promise<ShellCommandResult> {
+    const session = this.getSession(name);
+    if (session.current) {
+      throw new Error(`Shell session "${name}" is still running "${session.current.command}"`);
+    }
+    // Incomplete input, such as an unterminated if statement or here-document,
+    // would make the shell read on into the marker lines after it
+    try {
+      parseShellCommand(command);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid command: ${errorMessage}`);
+    }
+
+    const marker = `__DC_${randomUUID().replace(/-/g, '')}`;
+    const shellCommand: ShellCommand = {
+      command,
+      marker,
+      stdout: '',
+      stderr: '',
+      stdoutRead: 0,
+      stderrRead: 0,
+      stdoutDone: false,
+      stderrDone: false,
+      exitCode: null,
+      outputBytes: 0,
+      limitExceeded: null,
+      waiters: []
+    };
+    session.current = shellCommand;
+    session.commandCount++;
+    if (session.limits.maxRuntimeMs !== undefined) {
+      shellCommand.runtimeTimer = setTimeout(() => this.exceedLimit(session, shellCommand, 'runtime'), session.limits.maxRuntimeMs);
+    }
+
+    // The command is passed to eval as one single-quoted word, so the shell
+    // parses it on its own: a syntax error fails eval instead of ending the
+    // shell or running into the marker lines. eval runs in the shell itself,
+    // so `cd`, `export` and function definitions still apply to it. Stdin is
+    // detached so the command can't swallow the marker lines that delimit
+    // its output.
+    session.process.stdin?.write(
+      `${EVAL_COMMANDS[session.shell]} '${command.replace(/'/g, `'\\''`)}' < /dev/null\n` +
+      `__dc_status=$?; printf '%s:%s:%s\\n' '${marker}' "$__dc_status" "$PWD"; printf '%s\\n' '${marker}' >&2\n`
+    );
+
+    await this.waitForCommand(shellCommand, timeoutMs);
+    return this.collectResult(session, shellCommand);
+  }
+
+  /**
+   * Returns output of the running (or most recently finished) command that
+   * has not been read yet, or null if the session does not exist.
+   */
+  readOutput(name: string): ShellCommandResult | null {
+    const session = this.sessions.get(name);
+    if (!session) {
+      return null;
+    }
+
+    const shellCommand = session.current ?? session.last;
+    if (!shellCommand) {
+      throw new Error(`No commands have been run in shell session "${name}"`);
+    }
+    return this.collectResult(session, shellCommand);
+  }
+
+  /** Working directory of the named session as of its last command */
+  getCwd(name: string): string | undefined {
+    return this.sessions.get(name)?.cwd;
+  }
+
+  listSessions(): ShellSessionInfo[] {
+    return Array.from(this.sessions.values()).map(session => this.toInfo(session));
+  }
+
+  closeSession(name: string): boolean {
+    const session = this.sessions.get(name);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(name);
+    this.trySignal(session, 'SIGTERM');
+    setTimeout(() => this.trySignal(session, 'SIGKILL'), DEFAULT_TERMINATE_GRACE).unref();
+    return true;
+  }
+
+  /**
+   * Closes every session, waiting up to graceMs for the shells and the
+   * commands they run to exit before killing them.
+   */
+  async shutdown(graceMs: number = DEFAULT_TERMINATE_GRACE): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+
+    await Promise.all(sessions.map(session => new Promise<void>((resolve) => {
+      if (session.exited) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(resolve, graceMs);
+      session.process.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      this.trySignal(session, 'SIGTERM');
+    })));
+
+    sessions.forEach(session => this.trySignal(session, 'SIGKILL'));
+  }
+
+  /**
+   * Immediately kills all sessions. Safe to call from a process 'exit' handler.
+   */
+  killAll(): void {
+    for (const session of this.sessions.values()) {
+      this.trySignal(session, 'SIGKILL');
+    }
+    this.sessions.clear();
+  }
+
+  private trySignal(session: ShellSession, signal: NodeJS.Signals): void {
+    try {
+      signalProcessTree(session.process.pid!, signal);
+    } catch (error) {
+      console.error(`Failed to signal shell session ${session.name}:`, error);
+    }
+  }
+
+  /** Kills a session whose command exceeded a limit, which ends the command with it */
+  private exceedLimit(session: ShellSession, shellCommand: ShellCommand, kind: ResourceLimitKind): void {
+    if (shellCommand.limitExceeded || session.current !== shellCommand) {
+      return;
+    }
+    shellCommand.limitExceeded = kind;
+    this.trySignal(session, 'SIGTERM');
+    setTimeout(() => this.trySignal(session, 'SIGKILL'), DEFAULT_TERMINATE_GRACE).unref();
+  }
+
+  private countOutput(session: ShellSession, shellCommand: ShellCommand, text: string): void {
+    shellCommand.outputBytes += Buffer.byteLength(text);
+    const { maxOutputBytes } = session.limits;
+    if (maxOutputBytes !== undefined && shellCommand.outputBytes > maxOutputBytes) {
+      this.exceedLimit(session, shellCommand, 'output');
+    }
+  }
+
+  private getSession(name: string): ShellSession {
+    const session = this.sessions.get(name);
+    if (!session) {
+      throw new Error(`No shell session named "${name}"`);
+    }
+    return session;
+  }
+
+  private handleStdout(session: ShellSession, text: string): void {
+    const shellCommand = session.current;
+    if (!shellCommand || shellCommand.stdoutDone) {
+      // Output from background jobs between commands has no command to belong to
+      return;
+    }
+
+    // The status line may arrive split across chunks, so resume the search from
+    // the start of the last incomplete line
+    const lastLineStart = shellCommand.stdout.lastIndexOf('\n') + 1;
+    const searchFrom = Math.max(0, Math.min(lastLineStart, shellCommand.stdout.length - shellCommand.marker.length - 1));
+    shellCommand.stdout += text;
+
+    const markerIndex = shellCommand.stdout.indexOf(`${shellCommand.marker}:`, searchFrom);
+    if (markerIndex !== -1) {
+      const lineEnd = shellCommand.stdout.indexOf('\n', markerIndex);
+      if (lineEnd === -1) {
+        return;
+      }
+
+      const statusLine = shellCommand.stdout.slice(markerIndex + shellCommand.marker.length + 1, lineEnd);
+      const separator = statusLine.indexOf(':');
+      shellCommand.exitCode = parseInt(statusLine.slice(0, separator), 10);
+      session.cwd = statusLine.slice(separator + 1);
+      shellCommand.stdout = shellCommand.stdout.slice(0, markerIndex);
+      shellCommand.stdoutDone = true;
+      this.finishIfDone(session, shellCommand);
+    } else {
+      this.countOutput(session, shellCommand, text);
+      shellCommand.stdout = this.limitOutput(shellCommand.stdout, shellCommand.stdoutRead, (read) => {
+        shellCommand.stdoutRead = read;
+      });
+    }
+  }
+
+  private handleStderr(session: ShellSession, text: string): void {
+    const shellCommand = session.current;
+    if (!shellCommand || shellCommand.stderrDone) {
+      return;
+    }
+
+    const searchFrom = Math.max(0, shellCommand.stderr.length - shellCommand.marker.length - 1);
+    shellCommand.stderr += text;
+
+    const markerIndex = shellCommand.stderr.indexOf(`${shellCommand.marker}\n`, searchFrom);
+    if (markerIndex !== -1) {
+      shellCommand.stderr = shellCommand.stderr.slice(0, markerIndex);
+      shellCommand.stderrDone = true;
+      this.finishIfDone(session, shellCommand);
+    } else {
+      this.countOutput(session, shellCommand, text);
+      shellCommand.stderr = this.limitOutput(shellCommand.stderr, shellCommand.stderrRead, (read) => {
+        shellCommand.stderrRead = read;
+      });
+    }
+  }
+
+  private limitOutput(output: string, read: number, setRead: (read: number) => void): string {
+    if (output.length <= MAX_COMMAND_OUTPUT) {
+      return output;
+    }
+    const dropped = output.length - MAX_COMMAND_OUTPUT;
+    setRead(Math.max(0, read - dropped));
+    return output.slice(dropped);
+  }
+
+  private finishIfDone(session: ShellSession, shellCommand: ShellCommand): void {
+    if (!shellCommand.stdoutDone || !shellCommand.stderrDone) {
+      return;
+    }
+    clearTimeout(shellCommand.runtimeTimer);
+    if (!shellCommand.limitExceeded && session.limits.maxCpuSeconds !== undefined &&
+        shellCommand.exitCode === CPU_LIMIT_EXIT_CODE) {
+      shellCommand.limitExceeded = 'cpu';
+    }
+    session.last = shellCommand;
+    session.current = null;
+    shellCommand.waiters.splice(0).forEach(notify => notify());
+  }
+
+  private handleExit(session: ShellSession, code: number | null, signal: NodeJS.Signals | null): void {
+    session.exited = true;
+    if (this.sessions.get(session.name) === session) {
+      this.sessions.delete(session.name);
+    }
+
+    const shellCommand = session.current;
+    if (shellCommand) {
+      // Commands such as loops run in the shell itself, so the shell can be
+      // the process that exceeds the CPU limit
+      if (!shellCommand.limitExceeded && session.limits.maxCpuSeconds !== undefined && signal === 'SIGXCPU') {
+        shellCommand.limitExceeded = 'cpu';
+      }
+      shellCommand.exitCode = code;
+      shellCommand.stdoutDone = true;
+      shellCommand.stderrDone = true;
+      this.finishIfDone(session, shellCommand);
+    }
+  }
+
+  private waitForCommand(shellCommand: ShellCommand, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      shellCommand.waiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private collectResult(session: ShellSession, shellCommand: ShellCommand): ShellCommandResult {
+    const isRunning = session.current === shellCommand;
+
+    // While the command is running, hold back anything that may be the start of its marker
+    const stdoutEnd = isRunning
+      ? Math.max(shellCommand.stdoutRead, this.readableLength(shellCommand.stdout, shellCommand.marker))
+      : shellCommand.stdout.length;
+    const stderrEnd = isRunning
+      ? Math.max(shellCommand.stderrRead, this.readableLength(shellCommand.stderr, shellCommand.marker))
+      : shellCommand.stderr.length;
+
+    const stdout = shellCommand.stdout.slice(shellCommand.stdoutRead, stdoutEnd);
+    const stderr = shellCommand.stderr.slice(shellCommand.stderrRead, stderrEnd);
+    shellCommand.stdoutRead = stdoutEnd;
+    shellCommand.stderrRead = stderrEnd;
+
+    return {
+      session: session.name,
+      command: shellCommand.command,
+      stdout,
+      stderr,
+      exitCode: shellCommand.exitCode,
+      cwd: session.cwd,
+      isRunning,
+      shellExited: session.exited,
+      limits: session.limits,
+      limitExceeded: shellCommand.limitExceeded
+    };
+  }
+
+  private readableLength(output: string, marker: string): number {
+    const markerIndex = output.indexOf(marker);
+    if (markerIndex !== -1) {
+      return markerIndex;
+    }
+    for (let length = Math.min(output.length, marker.length - 1); length > 0; length--) {
+      if (output.endsWith(marker.slice(0, length))) {
+        return output.length - length;
+      }
+    }
+    return output.length;
+  }
+
+  private toInfo(session: ShellSession): ShellSessionInfo {
+    return {
+      name: session.name,
+      pid: session.process.pid!,
+      shell: session.shell,
+      cwd: session.cwd,
+      isBusy: session.current !== null,
+      commandCount: session.commandCount,
+      runtime: Date.now() - session.startTime.getTime()
+    };
+  }
+}
+
+export const shellSessionManager = new ShellSessionManager();
@@ -1,220 +1,692 @@
 import { spawn } from 'child_process';
-import { TerminalSession, CommandExecutionResult, ActiveSession } from './types.js';
-import { DEFAULT_COMMAND_TIMEOUT } from './config.js';
+import os from 'os';
+import {
+  TerminalSession,
+  CommandExecutionResult,
+  ActiveSession,
+  SendInputOptions,
+  ControlSequence,
+  ExecuteOptions,
+  ReadOutputOptions,
+  OutputReadResult,
+  WaitConditions,
+  WaitCondition,
+  WaitResult,
+  TerminateOptions,
+  ResourceLimits,
+  ResourceLimitKind,
+  OutputNormalization,
+  SessionHistoryEntry,
+  SessionHistoryFilter,
+  SessionHistory
+} from './types.js';
+import { getServerConfig } from './server-config.js';
+import {
+  DEFAULT_INPUT_WAIT,
+  DEFAULT_WAIT_TIMEOUT,
+  DEFAULT_TERMINATE_SIGNAL,
+  DEFAULT_TERMINATE_GRACE
+} from './config.js';
+import { OutputBuffer, OutputSlice } from './utils/output-buffer.js';
+import { isPortOpen } from './utils/port.js';
+import { signalProcessTree, processGroupExists, useProcessGroups } from './utils/process-tree.js';
+import { mergeLimits, buildUlimitCommand } from './utils/resource-limits.js';
+import { normalizeOutput, normalizeLine } from './utils/normalize-output.js';
 
-// Constants for output management
-const MAX_OUTPUT_SIZE = 20 * 1024 * 1024; // 10MB limit for stored output
-const MAX_BUFFER_CHUNKS = 2000; // Maximum number of chunks to store
+const DEFAULT_READ_LINES = 100;
+const DEFAULT_MAX_MATCHES = 200;
+const PORT_POLL_INTERVAL = 250;
+const WAIT_EXCERPT_LINES = 10;
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// Exit status of a shell whose child was killed by SIGXCPU
+const CPU_LIMIT_EXIT_CODE = 128 + (os.constants.signals.SIGXCPU ?? 0);
 
 interface CompletedSession {
+  id: number;
   pid: number;
-  stdoutChunks: Buffer[];
-  stderrChunks: Buffer[];
+  command: string;
+  cwd: string;
+  output: OutputBuffer;
+  readCursor: number;
   exitCode: number | null;
+  signal: NodeJS.Signals | null;
   startTime: Date;
   endTime: Date;
-  outputTruncated: boolean;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+  normalize?: OutputNormalization;
 }
 
 export class TerminalManager {
   private sessions: Map<number, TerminalSession> = new Map();
+  // Keyed by session ID, since PIDs of finished processes get reused
   private completedSessions: Map<number, CompletedSession> = new Map();
-  private responseStdoutChunks: Map<number, Buffer[]> = new Map();
-  private responseStderrChunks: Map<number, Buffer[]> = new Map();
-  
-  async executeCommand(command: string, timeoutMs: number = DEFAULT_COMMAND_TIMEOUT): Promise<CommandExecutionResult> {
-    const process = spawn(command, [], { shell: true });
-    
+  private history: SessionHistoryEntry[] = [];
+  private droppedHistoryEntries = 0;
+  private nextSessionId = 1;
+  // Process groups whose leader has exited while other members are still running
+  private orphanedGroups: Set<number> = new Set();
+  // Limits from config.json that apply to every command
+  getDefaultLimits(): ResourceLimits {
+    return { ...getServerConfig().commandLimits };
+  }
+
+  async executeCommand(
+    command: string,
+    timeoutMs: number = getServerConfig().commandTimeoutMs,
+    options: ExecuteOptions = {}
+  ): Promise<CommandExecutionResult> {
+    const { cwd, shell, args = [] } = options;
+    const env = this.buildEnvironment(options);
+    const limits = mergeLimits(this.getDefaultLimits(), options.limits);
+    const ulimit = buildUlimitCommand(limits);
+    if (ulimit && !useProcessGroups) {
+      throw new Error('CPU, memory and open file limits are not supported on Windows');
+    }
+
+    // Each session leads its own process group so it can be terminated
+    // together with everything it starts
+    const detached = useProcessGroups;
+
+    // With shell 'none' the command is executed directly with args as its argv,
+    // so nothing in either is subject to shell interpolation. Kernel limits
+    // are applied by a shell that then execs the command, with the command
+    // and args passed as positional parameters so they stay uninterpreted.
+    // Commands that can't be limited are not run at all.
+    const process = shell === 'none'
+      ? ulimit
+        ? spawn('/bin/sh', ['-c', `${ulimit} || exit 126; exec "$0" "$@"`, command, ...args], { cwd, env, detached })
+        : spawn(command, args, { cwd, env, shell: false, detached })
+      : spawn(ulimit ? `${ulimit} || exit 126\n${command}` : command, [], { cwd, env, shell: shell ?? true, detached });
+
+    // Spawn failures (e.g. a missing executable) are reported through an error
+    // event, which would otherwise surface as an uncaught exception
+    let spawnError: Error | undefined;
+    process.on('error', (error) => {
+      spawnError = error;
+    });
+
     // Ensure process.pid is defined before proceeding
     if (!process.pid) {
-      throw new Error('Failed to get process ID');
+      await new Promise(resolve => setImmediate(resolve));
+      throw new Error(spawnError ? `Failed to start command: ${spawnError.message}` : 'Failed to get process ID');
     }
 
-    // Initialize buffer arrays for this process
-    const responseStdout: Buffer[] = [];
-    const responseStderr: Buffer[] = [];
-    this.responseStdoutChunks.set(process.pid, responseStdout);
-    this.responseStderrChunks.set(process.pid, responseStderr);
-    
     const session: TerminalSession = {
+      id: this.nextSessionId++,
       pid: process.pid,
+      command: shell === 'none' && args.length > 0 ? [command, ...args].join(' ') : command,
+      cwd: cwd ?? globalThis.process.cwd(),
       process,
-      stdoutChunks: [],
-      stderrChunks: [],
+      output: new OutputBuffer(getServerConfig().maxStoredOutputBytes, getServerConfig().maxOutputChunks),
+      readCursor: 0,
       isBlocked: false,
-      startTime: new Date()
+      startTime: new Date(),
+      limits,
+      limitExceeded: null,
+      normalize: options.normalize
     };
     
     this.sessions.set(process.pid, session);
 
+    // Limits the kernel can't enforce are enforced by killing the process tree
+    const exceedLimit = (kind: ResourceLimitKind) => {
+      if (session.limitExceeded) {
+        return;
+      }
+      session.limitExceeded = kind;
+      this.forceTerminate(session.pid, { signal: 'SIGTERM' });
+    };
+    const runtimeTimer = limits.maxRuntimeMs !== undefined
+      ? setTimeout(() => exceedLimit('runtime'), limits.maxRuntimeMs)
+      : undefined;
+    const appendOutput = (stream: 'stdout' | 'stderr', data: Buffer) => {
+      if (limits.maxOutputBytes === undefined) {
+        session.output.append(stream, data);
+        return;
+      }
+      const remaining = limits.maxOutputBytes - session.output.endOffset;
+      session.output.append(stream, data.subarray(0, Math.max(0, remaining)));
+      if (data.length > remaining) {
+        exceedLimit('output');
+      }
+    };
+
+    // Writes to a process that has already exited raise EPIPE on stdin;
+    // swallow them here so they don't surface as uncaught exceptions
+    process.stdin?.on('error', () => {});
+
     return new Promise((resolve) => {
-      // Handle stdout with buffers
-      process.stdout?.on('data', (data) => {
-        // Store copy in response buffer (what we'll return from this method)
-        responseStdout.push(Buffer.from(data));
-        
-        // Store in session for future getNewOutput calls
-        session.stdoutChunks.push(Buffer.from(data));
-        
-        // Limit number of chunks to prevent memory issues
-        this.limitBufferSize(session.stdoutChunks);
+      process.stdout?.on('data', (data: Buffer) => {
+        appendOutput('stdout', data);
       });
 
-      // Handle stderr with buffers
-      process.stderr?.on('data', (data) => {
-        // Store copy in response buffer
-        responseStderr.push(Buffer.from(data));
-        
-        // Store in session for future getNewOutput calls
-        session.stderrChunks.push(Buffer.from(data));
-        
-        // Limit number of chunks
-        this.limitBufferSize(session.stderrChunks);
+      process.stderr?.on('data', (data: Buffer) => {
+        appendOutput('stderr', data);
       });
 
-      // Handle timeout
-      setTimeout(() => {
-        session.isBlocked = true;
-        
-        // Combine stdout and stderr for the response
-        const output = this.combineOutput(responseStdout, responseStderr);
-        
-        if (process.pid) {
-          // Clean up response buffers
-          if (process.pid) {
-            this.responseStdoutChunks.delete(process.pid);
-            this.responseStderrChunks.delete(process.pid);
-          }
+      // Everything produced before the call returns is the initial output,
+      // so later reads of new output start after it
+      let settled = false;
+      const settle = (completed?: CompletedSession) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        const output = session.output;
+        const normalize = (text: string) => session.normalize ? normalizeOutput(text, session.normalize) : text;
+        session.readCursor = output.endOffset;
+        if (completed) {
+          completed.readCursor = output.endOffset;
         }
-        
         resolve({
-          pid: process.pid!,
-          output,
-          isBlocked: true
+          id: session.id,
+          pid: session.pid,
+          output: normalize(output.read().text),
+          stdout: normalize(output.read(undefined, undefined, 'stdout').text),
+          stderr: normalize(output.read(undefined, undefined, 'stderr').text),
+          isBlocked: !completed,
+          exitCode: completed ? completed.exitCode : null,
+          signal: completed ? completed.signal : null,
+          startTime: session.startTime,
+          endTime: completed ? completed.endTime : null,
+          truncated: output.truncated,
+          limits,
+          limitExceeded: completed ? completed.limitExceeded : null,
+          normalized: !!session.normalize
         });
+      };
+
+      // Handle timeout
+      const timer = setTimeout(() => {
+        session.isBlocked = true;
+        settle();
       }, timeoutMs);
 
-      // Handle process exit
-      process.on('exit', (code) => {
+      // Handle process exit. 'close' rather than 'exit', since 'exit' can
+      // fire before stdout and stderr have been drained and the result would
+      // miss the end of the output
+      process.on('close', (code, signal) => {
         if (process.pid) {
-          // Get full output for the response
-          const output = this.combineOutput(responseStdout, responseStderr);
-          
-          // Clean up response buffers
-          this.responseStdoutChunks.delete(process.pid);
-          this.responseStderrChunks.delete(process.pid);
+          clearTimeout(timer);
+          clearTimeout(runtimeTimer);
+
+          if (!session.limitExceeded && limits.maxCpuSeconds !== undefined &&
+              (signal === 'SIGXCPU' || code === CPU_LIMIT_EXIT_CODE)) {
+            session.limitExceeded = 'cpu';
+          }
           
           // Store completed session before removing active session
-          const stdoutSize = this.getTotalBufferSize(session.stdoutChunks);
-          const stderrSize = this.getTotalBufferSize(session.stderrChunks);
-          const outputTruncated = (stdoutSize + stderrSize) > MAX_OUTPUT_SIZE;
-            
-          this.completedSessions.set(process.pid, {
+          const completed: CompletedSession = {
+            id: session.id,
             pid: process.pid,
-            stdoutChunks: session.stdoutChunks,
-            stderrChunks: session.stderrChunks,
+            command: session.command,
+            cwd: session.cwd,
+            output: session.output,
+            readCursor: session.readCursor,
             exitCode: code,
+            signal,
             startTime: session.startTime,
             endTime: new Date(),
-            outputTruncated
-          });
-          
-          // Keep only last 100 completed sessions
-          if (this.completedSessions.size > 100) {
-            const oldestKey = Array.from(this.completedSessions.keys())[0];
-            this.completedSessions.delete(oldestKey);
-          }
+            limits,
+            limitExceeded: session.limitExceeded,
+            normalize: session.normalize
+          };
+          this.completedSessions.set(session.id, completed);
+          this.recordHistory(completed);
           
           this.sessions.delete(process.pid);
-          
-          resolve({
-            pid: process.pid!,
-            output,
-            isBlocked: false
-          });
+          this.pruneOrphanedGroups();
+          if (processGroupExists(process.pid)) {
+            this.orphanedGroups.add(process.pid);
+          }
+          settle(completed);
         }
       });
     });
   }
 
-  private limitBufferSize(buffers: Buffer[]): void {
-    // Limit by number of chunks
-    if (buffers.length > MAX_BUFFER_CHUNKS) {
-      buffers.splice(0, buffers.length - MAX_BUFFER_CHUNKS);
-    }
-    
-    // Also limit by total memory usage
-    let totalSize = 0;
-    for (let i = buffers.length - 1; i >= 0; i--) {
-      totalSize += buffers[i].length;
-      if (totalSize > MAX_OUTPUT_SIZE) {
-        buffers.splice(0, i);
-        break;
+  /**
+   * Adds a finished session to the history. Only the most recent sessions
+   * keep their output; older entries stay listed until the history itself is
+   * full, and the number of entries dropped after that is reported.
+   */
+  private recordHistory(completed: CompletedSession): void {
+    this.history.push(this.toHistoryEntry(completed));
+
+    // Output is kept for the most recent sessions, and the history of commands
+    // for many more
+    const { maxCompletedSessions, maxHistoryEntries } = getServerConfig();
+    while (this.completedSessions.size > maxCompletedSessions) {
+      const [oldestId, oldest] = this.completedSessions.entries().next().value!;
+      this.completedSessions.delete(oldestId);
+      const entry = this.history.find(item => item.id === oldestId);
+      if (entry) {
+        entry.outputBytes = oldest.output.endOffset;
+        entry.outputAvailable = false;
       }
     }
+
+    while (this.history.length > maxHistoryEntries) {
+      this.history.shift();
+      this.droppedHistoryEntries++;
+    }
+  }
+
+  private toHistoryEntry(session: TerminalSession | CompletedSession): SessionHistoryEntry {
+    const completed = 'endTime' in session ? session : undefined;
+    return {
+      id: session.id,
+      pid: session.pid,
+      command: session.command,
+      cwd: session.cwd,
+      isRunning: !completed,
+      exitCode: completed ? completed.exitCode : null,
+      signal: completed ? completed.signal : null,
+      limitExceeded: session.limitExceeded,
+      startTime: session.startTime,
+      endTime: completed ? completed.endTime : null,
+      duration: (completed ? completed.endTime.getTime() : Date.now()) - session.startTime.getTime(),
+      outputBytes: session.output.endOffset,
+      outputAvailable: true
+    };
   }
-  
-  private getTotalBufferSize(buffers: Buffer[]): number {
-    return buffers.reduce((total, buffer) => total + buffer.length, 0);
+
+  /**
+   * Lists running and finished sessions, newest first. Failed sessions are
+   * those that exited with a non-zero code or were killed by a signal.
+   */
+  listHistory(filter: SessionHistoryFilter = {}): SessionHistory {
+    const { failedOnly, since, until, limit = DEFAULT_HISTORY_LIMIT } = filter;
+    const command = filter.command?.toLowerCase();
+
+    // Output can still arrive after a process exits, so sizes of sessions
+    // whose output is retained are taken from the output itself
+    const entries = [
+      ...this.history.map(entry => {
+        const completed = this.completedSessions.get(entry.id);
+        return completed ? { ...entry, outputBytes: completed.output.endOffset } : { ...entry };
+      }),
+      ...Array.from(this.sessions.values()).map(session => this.toHistoryEntry(session))
+    ].filter(entry =>
+      (!failedOnly || (!entry.isRunning && (entry.exitCode !== 0 || entry.signal !== null))) &&
+      (!command || entry.command.toLowerCase().includes(command)) &&
+      (!since || entry.startTime >= since) &&
+      (!until || entry.startTime <= until)
+    ).sort((a, b) => b.id - a.id);
+
+    return {
+      entries: entries.slice(0, limit),
+      totalMatches: entries.length,
+      droppedEntries: this.droppedHistoryEntries
+    };
   }
-  
-  private combineOutput(stdoutChunks: Buffer[], stderrChunks: Buffer[]): string {
-    const stdout = Buffer.concat(stdoutChunks).toString();
-    const stderr = Buffer.concat(stderrChunks).toString();
-    return stdout + stderr;
+
+  private buildEnvironment(options: ExecuteOptions): NodeJS.ProcessEnv | undefined {
+    if (!options.env) {
+      return undefined;
+    }
+    return options.envMode === 'replace' ? options.env : { ...process.env, ...options.env };
   }
 
-  getNewOutput(pid: number): string | null {
-    // First check active sessions
-    const session = this.sessions.get(pid);
+  /**
+   * Reads output of an active or completed session without discarding it.
+   * Only the 'new' mode advances the session's read cursor. Returns null if
+   * no session exists for the PID.
+   */
+  readOutput(pid: number, options: ReadOutputOptions = {}): OutputReadResult | null {
+    const session = this.sessions.get(pid) ?? this.findCompletedSession(pid);
+    return session ? this.readSessionOutput(session, options) : null;
+  }
+
+  /**
+   * Reads output of a session by its ID, which unlike a PID is never reused.
+   * Returns null if no session with the ID was ever started.
+   */
+  readOutputById(id: number, options: ReadOutputOptions = {}): OutputReadResult | null {
+    const session = Array.from(this.sessions.values()).find(active => active.id === id) ??
+      this.completedSessions.get(id);
     if (session) {
-      // Combine stdout and stderr chunks
-      const output = this.combineOutput(session.stdoutChunks, session.stderrChunks);
-      
-      // Clear chunks after reading
-      session.stdoutChunks = [];
-      session.stderrChunks = [];
-      
-      return output || 'No new output available';
-    }
-
-    // Then check completed sessions
-    const completedSession = this.completedSessions.get(pid);
-    if (completedSession) {
-      // Format completion message with exit code and runtime
-      const runtime = (completedSession.endTime.getTime() - completedSession.startTime.getTime()) / 1000;
-      
-      // Combine all output
-      const output = this.combineOutput(completedSession.stdoutChunks, completedSession.stderrChunks);
-      
-      // Build completion message
-      let message = `Process completed with exit code ${completedSession.exitCode}\nRuntime: ${runtime.toFixed(2)}s\n`;
-      
-      if (completedSession.outputTruncated) {
-        message += 'Warning: Output was truncated due to size limits.\n';
+      return this.readSessionOutput(session, options);
+    }
+    if (id > 0 && id < this.nextSessionId) {
+      throw new Error(`Output of session ${id} is no longer retained`);
+    }
+    return null;
+  }
+
+  /** Returns the most recent completed session that ran with the PID */
+  private findCompletedSession(pid: number): CompletedSession | undefined {
+    return Array.from(this.completedSessions.values()).reverse().find(completed => completed.pid === pid);
+  }
+
+  private readSessionOutput(session: TerminalSession | CompletedSession, options: ReadOutputOptions): OutputReadResult {
+    const { mode = 'new', lines = DEFAULT_READ_LINES } = options;
+    const output = session.output;
+    // Offsets and cursors always refer to the raw output
+    const normalization = options.raw ? undefined : session.normalize;
+    const normalize = (text: string) => normalization ? normalizeOutput(text, normalization) : text;
+    let slice: OutputSlice;
+    let matchCount: number | undefined;
+
+    switch (mode) {
+      case 'new':
+        slice = output.read(options.cursor ?? session.readCursor);
+        session.readCursor = slice.endOffset;
+        break;
+      case 'all':
+        slice = output.read();
+        break;
+      case 'head':
+        slice = output.readLines(output.firstLineNumber, output.firstLineNumber + lines - 1);
+        break;
+      case 'tail':
+        slice = output.readLines(output.lastLineNumber - lines + 1, output.lastLineNumber);
+        break;
+      case 'range': {
+        const from = options.offset ?? output.startOffset;
+        const to = options.length !== undefined ? from + options.length : output.endOffset;
+        slice = output.read(from, to);
+        break;
+      }
+      case 'grep': {
+        if (!options.pattern) {
+          throw new Error('A pattern is required for grep mode');
+        }
+        const grep = this.grepOutput(output, options.pattern, options, normalization);
+        slice = { text: grep.text, startOffset: output.startOffset, endOffset: output.endOffset };
+        matchCount = grep.matchCount;
+        break;
       }
-      
-      message += `Final output:\n${output}`;
-      
-      return message;
     }
 
-    return null;
+    // Line-based modes cover a contiguous byte range, which splits cleanly
+    // into the two streams. Grep results are built from lines instead.
+    const byStream = mode !== 'grep';
+    const completed = 'endTime' in session ? session : undefined;
+    return {
+      id: session.id,
+      pid: session.pid,
+      mode,
+      text: byStream ? normalize(slice.text) : slice.text,
+      stdout: byStream ? normalize(output.read(slice.startOffset, slice.endOffset, 'stdout').text) : '',
+      stderr: byStream ? normalize(output.read(slice.startOffset, slice.endOffset, 'stderr').text) : '',
+      startOffset: slice.startOffset,
+      endOffset: slice.endOffset,
+      totalBytes: output.endOffset,
+      retainedFrom: output.startOffset,
+      totalLines: output.lastLineNumber,
+      matchCount,
+      isRunning: !completed,
+      exitCode: completed ? completed.exitCode : null,
+      signal: completed ? completed.signal : null,
+      startTime: session.startTime,
+      endTime: completed ? completed.endTime : null,
+      runtime: (completed ? completed.endTime.getTime() : Date.now()) - session.startTime.getTime(),
+      truncated: output.truncated,
+      limits: session.limits,
+      limitExceeded: session.limitExceeded,
+      normalized: !!normalization
+    };
   }
 
-  forceTerminate(pid: number): boolean {
+  private grepOutput(
+    output: OutputBuffer,
+    pattern: string,
+    options: ReadOutputOptions,
+    normalization?: OutputNormalization
+  ): { text: string; matchCount: number } {
+    const regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+    const context = options.context ?? 0;
+    const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES;
+    // Lines keep their numbers, so repeats are not collapsed here
+    const lines = normalization
+      ? output.lines().map(line => ({ number: line.number, text: normalizeLine(line.text, normalization) }))
+      : output.lines();
+
+    // Mark matching lines and their context, grep -n style
+    const selected = new Map<number, boolean>();
+    let matchCount = 0;
+    for (let i = 0; i < lines.length && matchCount < maxMatches; i++) {
+      if (!regex.test(lines[i].text)) {
+        continue;
+      }
+      matchCount++;
+      for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) {
+        if (!selected.get(j)) {
+          selected.set(j, j === i);
+        }
+      }
+    }
+
+    const indexes = Array.from(selected.keys()).sort((a, b) => a - b);
+    const formatted: string[] = [];
+    indexes.forEach((index, position) => {
+      if (position > 0 && index !== indexes[position - 1] + 1) {
+        formatted.push('--');
+      }
+      const separator = selected.get(index) ? ':' : '-';
+      formatted.push(`${lines[index].number}${separator} ${lines[index].text}`);
+    });
+
+    return { text: formatted.join('\n'), matchCount };
+  }
+
+  /**
+   * Waits until the session's output matches a pattern, the process exits, a
+   * TCP port accepts connections, or the deadline passes, whichever happens
+   * first. Output that is already retained counts towards the pattern.
+   * Returns null if no session exists for the PID.
+   */
+  async waitFor(pid: number, conditions: WaitConditions = {}): Promise<WaitResult | null> {
+    const session = this.sessions.get(pid) ?? this.findCompletedSession(pid);
+    if (!session) {
+      return null;
+    }
+
+    const { port, host = '127.0.0.1', timeoutMs = DEFAULT_WAIT_TIMEOUT } = conditions;
+    const regex = conditions.pattern ? new RegExp(conditions.pattern, conditions.ignoreCase ? 'i' : '') : undefined;
+    const output = session.output;
+    const startTime = Date.now();
+    let scanFrom = output.startOffset;
+
+    // Patterns are matched line by line. Complete lines are only scanned once;
+    // a trailing partial line is scanned again as it grows.
+    const findMatch = (): number | undefined => {
+      if (!regex) {
+        return undefined;
+      }
+      const slice = output.read(scanFrom);
+      let lineOffset = slice.startOffset;
+      for (const line of slice.text.split('\n')) {
+        if (regex.test(line)) {
+          return output.lineNumberAt(lineOffset);
+        }
+        lineOffset += Buffer.byteLength(line) + 1;
+      }
+      const lastNewline = slice.text.lastIndexOf('\n');
+      scanFrom = slice.startOffset + Buffer.byteLength(slice.text.slice(0, lastNewline + 1));
+      return undefined;
+    };
+
+    const result = (condition: WaitCondition, matchLine?: number): WaitResult => {
+      const completed = this.completedSessions.get(session.id);
+      const excerpt = matchLine !== undefined
+        ? output.readLines(matchLine - 2, matchLine + 2)
+        : output.readLines(output.lastLineNumber - WAIT_EXCERPT_LINES + 1, output.lastLineNumber);
+      return {
+        pid,
+        condition,
+        excerpt: excerpt.text,
+        matchLine,
+        exitCode: completed ? completed.exitCode : null,
+        signal: completed ? completed.signal : null,
+        elapsed: Date.now() - startTime
+      };
+    };
+
+    const existingMatch = findMatch();
+    if (existingMatch !== undefined) {
+      return result('pattern', existingMatch);
+    }
+
+    const active = this.sessions.get(pid);
+    if (!active) {
+      return result('exit');
+    }
+
+    return new Promise((resolve) => {
+      let finished = false;
+      let portTimer: NodeJS.Timeout | undefined;
+
+      const finish = (condition: WaitCondition, matchLine?: number) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(deadline);
+        clearTimeout(portTimer);
+        active.process.stdout?.removeListener('data', onData);
+        active.process.stderr?.removeListener('data', onData);
+        active.process.removeListener('close', onClose);
+        resolve(result(condition, matchLine));
+      };
+
+      const onData = () => {
+        const matchLine = findMatch();
+        if (matchLine !== undefined) {
+          finish('pattern', matchLine);
+        }
+      };
+
+      // 'close' rather than 'exit' so that all output has been received
+      const onClose = () => {
+        const matchLine = findMatch();
+        finish(matchLine !== undefined ? 'pattern' : 'exit', matchLine);
+      };
+
+      const pollPort = async () => {
+        if (finished || port === undefined) {
+          return;
+        }
+        if (await isPortOpen(host, port, PORT_POLL_INTERVAL)) {
+          finish('port');
+        } else if (!finished) {
+          portTimer = setTimeout(pollPort, PORT_POLL_INTERVAL);
+        }
+      };
+
+      const deadline = setTimeout(() => finish('timeout'), timeoutMs);
+      active.process.stdout?.on('data', onData);
+      active.process.stderr?.on('data', onData);
+      active.process.once('close', onClose);
+      pollPort();
+    });
+  }
+
+  /**
+   * Writes input to the stdin of a running session and waits briefly for the
+   * program to respond. Returns the output produced since the last read, or
+   * null if there is no active session for the PID.
+   */
+  async sendInput(pid: number, input: string, options: SendInputOptions = {}): Promise<OutputReadResult | null> {
     const session = this.sessions.get(pid);
     if (!session) {
+      return null;
+    }
+
+    const stdin = session.process.stdin;
+    if (!stdin || stdin.destroyed || stdin.writableEnded) {
+      throw new Error(`Input stream for PID ${pid} is already closed`);
+    }
+
+    const { eof = false, control, waitMs = DEFAULT_INPUT_WAIT } = options;
+    // Empty input with a newline is a bare Enter, which accepts a prompt's
+    // default; a call that only sends a control sequence or eof sends no
+    // newline unless one is asked for
+    const newline = options.newline ?? (input !== '' || (!control && !eof));
+
+    if (input || newline) {
+      stdin.write(newline ? `${input}\n` : input);
+    }
+
+    if (control) {
+      this.sendControlSequence(session, control);
+    }
+
+    if (eof && !stdin.writableEnded) {
+      stdin.end();
+    }
+
+    await this.waitForExit(session, waitMs);
+    return this.readOutput(pid);
+  }
+
+  private sendControlSequence(session: TerminalSession, control: ControlSequence): void {
+    // Sessions are attached to pipes rather than a TTY, so there is no line
+    // discipline to turn control characters into signals - emulate it instead
+    switch (control) {
+      case 'ctrl-c':
+        signalProcessTree(session.pid, 'SIGINT');
+        break;
+      case 'ctrl-d':
+        session.process.stdin?.end();
+        break;
+      case 'ctrl-z':
+        signalProcessTree(session.pid, 'SIGTSTP');
+        break;
+      case 'ctrl-\\':
+        signalProcessTree(session.pid, 'SIGQUIT');
+        break;
+    }
+  }
+
+  private waitForExit(session: TerminalSession, waitMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      if (session.process.exitCode !== null || session.process.signalCode !== null) {
+        resolve();
+        return;
+      }
+
+      const onExit = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        session.process.removeListener('exit', onExit);
+        resolve();
+      }, waitMs);
+
+      session.process.once('exit', onExit);
+    });
+  }
+
+  /**
+   * Signals the session's whole process tree, then kills whatever is left of
+   * it with SIGKILL once the grace period has passed.
+   */
+  forceTerminate(pid: number, options: TerminateOptions = {}): boolean {
+    this.pruneOrphanedGroups();
+    if (!this.sessions.has(pid) && !this.orphanedGroups.has(pid)) {
       return false;
     }
+    this.orphanedGroups.delete(pid);
+
+    const { signal = DEFAULT_TERMINATE_SIGNAL, graceMs = DEFAULT_TERMINATE_GRACE } = options;
 
     try {
-      session.process.kill('SIGINT');
-      setTimeout(() => {
-        if (this.sessions.has(pid)) {
-          session.process.kill('SIGKILL');
-        }
-      }, 1000);
+      signalProcessTree(pid, signal);
+      if (signal !== 'SIGKILL') {
+        // Descendants can outlive the session leader, so escalate even if it has exited
+        setTimeout(() => {
+          try {
+            signalProcessTree(pid, 'SIGKILL');
+          } catch (error) {
+            console.error(`Failed to kill process tree ${pid}:`, error);
+          }
+        }, graceMs).unref();
+      }
       return true;
     } catch (error) {
       console.error(`Failed to terminate process ${pid}:`, error);
@@ -222,10 +694,67 @@ export class TerminalManager {
     }
   }
 
+  /**
+   * Terminates every active session and waits up to graceMs for them to
+   * exit before killing what remains.
+   */
+  async shutdown(graceMs: number = DEFAULT_TERMINATE_GRACE): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.pruneOrphanedGroups();
+    const pids = [...sessions.map(session => session.pid), ...this.orphanedGroups];
+    if (pids.length === 0) {
+      return;
+    }
+
+    for (const pid of pids) {
+      this.trySignal(pid, 'SIGTERM');
+    }
+    await Promise.all(sessions.map(session => this.waitForExit(session, graceMs)));
+    for (const pid of pids) {
+      this.trySignal(pid, 'SIGKILL');
+    }
+    this.orphanedGroups.clear();
+  }
+
+  /**
+   * Immediately kills the process trees of all sessions that may still be
+   * running. Safe to call from a process 'exit' handler, where nothing
+   * asynchronous can run.
+   */
+  killAll(): void {
+    this.pruneOrphanedGroups();
+    for (const pid of [...this.sessions.keys(), ...this.orphanedGroups]) {
+      this.trySignal(pid, 'SIGKILL');
+    }
+    this.orphanedGroups.clear();
+  }
+
+  /**
+   * Forgets the orphaned groups whose processes have all exited, so that a
+   * group ID reused by an unrelated process is never signalled.
+   */
+  private pruneOrphanedGroups(): void {
+    for (const pid of this.orphanedGroups) {
+      if (!processGroupExists(pid)) {
+        this.orphanedGroups.delete(pid);
+      }
+    }
+  }
+
+  private trySignal(pid: number, signal: NodeJS.Signals): void {
+    try {
+      signalProcessTree(pid, signal);
+    } catch (error) {
+      console.error(`Failed to signal process tree ${pid}:`, error);
+    }
+  }
+
   listActiveSessions(): ActiveSession[] {
     const now = new Date();
     return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
       pid: session.pid,
+      command: session.command,
       isBlocked: session.isBlocked,
       runtime: now.getTime() - session.startTime.getTime()
     }));
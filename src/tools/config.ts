@@ -0,0 +1,23 @@
+import { configManager } from '../config-manager.js';
+import { describeSource } from '../config-discovery.js';
+import { getAllowedRoots } from './filesystem.js';
+import { GetConfigArgsSchema } from './schemas.js';
+
+export async function getConfig(args: unknown) {
+  const parsed = GetConfigArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for get_config: ${parsed.error}`);
+  }
+
+  const { $schema, ...config } = configManager.get();
+  const files = configManager.getLoadedFiles().map(candidate => `${candidate.file} (${describeSource(candidate.source)})`);
+  return {
+    content: [{
+      type: "text",
+      text: (files.length > 0
+        ? `Effective configuration from ${files.join(', layered over ')}, with defaults for settings they don't set:\n`
+        : 'No config file was found. Effective configuration, with the default settings:\n') +
+        JSON.stringify({ ...config, allowedDirectories: getAllowedRoots() }, null, 2)
+    }],
+  };
+}
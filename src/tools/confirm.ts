@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { confirmationManager } from '../confirmation-manager.js';
+import { commandManager } from '../command-manager.js';
+import { validatePath } from './filesystem.js';
+import { FileOperation, PendingActionInfo, ToolResponse } from '../types.js';
+import { ConfirmActionArgsSchema } from './schemas.js';
+
+/**
+ * Response for an action that waits for confirmation. It is not an error:
+ * nothing has run, and the token lets a human approve the action.
+ */
+export function pendingActionResponse(pending: PendingActionInfo): ToolResponse {
+  return {
+    content: [{
+      type: "text",
+      text: `Confirmation required: ${pending.reason}\n` +
+        `Pending action: ${pending.summary}\n` +
+        `Nothing has been run. To run it, call desktop_confirm_action with token "${pending.token}" ` +
+        `before ${pending.expiresAt.toISOString()}. Ask the user before confirming.`
+    }],
+  };
+}
+
+/**
+ * Runs a filesystem operation if the command policy allows it, or holds it
+ * for confirmation. A confirmed operation is checked again when it runs, so
+ * it is still stopped by rules that deny it by then.
+ */
+export async function guardFileOperation(
+  operation: FileOperation,
+  paths: string[],
+  summary: string,
+  run: () => Promise<ToolResponse>,
+  confirmed: boolean = false
+): Promise<ToolResponse> {
+  const resolved = await Promise.all(paths.map(resolveOperationPath));
+  const directory = await fs.stat(resolved[0]).then(stats => stats.isDirectory(), () => false);
+
+  const validation = commandManager.checkFileOperation({ operation, paths: resolved, directory });
+  if (validation.action === 'deny') {
+    throw new Error(`Operation not allowed: ${validation.reason}`);
+  }
+  if (validation.action === 'confirm' && !confirmed) {
+    return pendingActionResponse(confirmationManager.request(summary, validation.reason,
+      () => guardFileOperation(operation, paths, summary, run, true)));
+  }
+  return run();
+}
+
+/**
+ * Resolves a path the way the filesystem tools do, falling back to the plain
+ * absolute path for paths they would reject or create
+ */
+async function resolveOperationPath(requestedPath: string): Promise<string> {
+  try {
+    return await validatePath(requestedPath);
+  } catch {
+    const expanded = requestedPath === '~' || requestedPath.startsWith('~/')
+      ? path.join(os.homedir(), requestedPath.slice(1))
+      : requestedPath;
+    return path.resolve(expanded);
+  }
+}
+
+export async function confirmAction(args: unknown) {
+  const parsed = ConfirmActionArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for confirm_action: ${parsed.error}`);
+  }
+
+  try {
+    const { token, cancel } = parsed.data;
+    if (cancel) {
+      if (!confirmationManager.cancel(token)) {
+        throw new Error(`No pending action with token ${token}`);
+      }
+      return {
+        content: [{ type: "text", text: `Pending action ${token} was cancelled` }],
+      };
+    }
+    return await confirmationManager.confirm(token);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error confirming action: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
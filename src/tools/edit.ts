@@ -1,18 +1,14 @@
 import { readFile, writeFile } from './filesystem.js';
 import { recursiveFuzzyIndexOf, getSimilarityRatio } from './fuzzySearch.js';
 import path from 'path';
+import { getServerConfig } from '../server-config.js';
+import { TextEncoding } from '../utils/encoding.js';
 
 interface SearchReplace {
     search: string;
     replace: string;
 }
 
-/**
- * Threshold for fuzzy matching - similarity must be at least this value to be considered
- * (0-1 scale where 1 is perfect match and 0 is completely different)
- */
-const FUZZY_THRESHOLD = 0.7;
-
 /**
  * Performs a search and replace operation on a file with enhanced capabilities.
  * This function:
@@ -24,16 +20,18 @@ const FUZZY_THRESHOLD = 0.7;
  * 
  * The function intelligently handles different line ending formats (CRLF vs LF)
  * and can use fuzzy search when an exact match isn't found to provide better suggestions.
+ * The file is written back in its own encoding, byte order mark and line endings.
  * 
  * @param filePath Path to the file to edit
  * @param block Object containing search and replace strings
  * @param expectedReplacements Number of expected replacements (default: 1)
+ * @param encoding Encoding to read and write the file in instead of the detected one
  * @returns Object containing:
  *   - success: Boolean indicating if the operation succeeded
  *   - message: Descriptive message about the result
  *   - matchCount: (Optional) Number of occurrences of the search text found
  */
-export async function performSearchReplace(filePath: string, block: SearchReplace, expectedReplacements: number = 1): Promise<{
+export async function performSearchReplace(filePath: string, block: SearchReplace, expectedReplacements: number = 1, encoding?: TextEncoding): Promise<{
     success: boolean;
     message: string;
     matchCount?: number;
@@ -52,7 +50,7 @@ export async function performSearchReplace(filePath: string, block: SearchReplac
         
         // Telemetry disabled - no capture calls
 
-        const content = await readFile(filePath);
+        const content = await readFile(filePath, encoding);
         
         // First try an exact match
         let count = 0;
@@ -94,10 +92,10 @@ export async function performSearchReplace(filePath: string, block: SearchReplac
                 };
             }
             
-            await writeFile(filePath, newContent, { createDirectories: false });
+            await writeFile(filePath, newContent, { createDirectories: false, encoding });
             
             // Verify the change was successful
-            const updatedContent = await readFile(filePath);
+            const updatedContent = await readFile(filePath, encoding);
             
             // Check for markers in the result file
             const hasMarkersInResult = 
@@ -160,7 +158,7 @@ export async function performSearchReplace(filePath: string, block: SearchReplac
                     ? newNormalizedContent.replace(/\n/g, '\r\n') 
                     : newNormalizedContent;
                 
-                await writeFile(filePath, finalContent, { createDirectories: false });
+                await writeFile(filePath, finalContent, { createDirectories: false, encoding });
                 
                 return {
                     success: true,
@@ -181,8 +179,9 @@ export async function performSearchReplace(filePath: string, block: SearchReplac
             // Calculate execution time in milliseconds
             const executionTime = performance.now() - startTime;
             
-            // Check if the fuzzy match is "close enough"
-            if (similarity >= FUZZY_THRESHOLD) {
+            // Check if the fuzzy match is "close enough" (0-1 scale where 1 is a perfect match)
+            const fuzzyThreshold = getServerConfig().fuzzyThreshold;
+            if (similarity >= fuzzyThreshold) {
                 // Format differences for clearer output
                 const diff = highlightDifferences(block.search, fuzzyResult.value);
                 
@@ -200,7 +199,7 @@ export async function performSearchReplace(filePath: string, block: SearchReplac
                 return {
                     success: false,
                     message: `Search content not found in ${filePath}. The closest match was "${fuzzyResult.value}" ` +
-                            `with only ${Math.round(similarity * 100)}% similarity, which is below the ${Math.round(FUZZY_THRESHOLD * 100)}% threshold. ` +
+                            `with only ${Math.round(similarity * 100)}% similarity, which is below the ${Math.round(fuzzyThreshold * 100)}% threshold. ` +
                             `(Fuzzy search completed in ${executionTime.toFixed(2)}ms)`
                 };
             }
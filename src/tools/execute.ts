@@ -1,42 +1,316 @@
 import { terminalManager } from '../terminal-manager.js';
 import { commandManager } from '../command-manager.js';
-import { ExecuteCommandArgsSchema, ReadOutputArgsSchema, ForceTerminateArgsSchema, ListSessionsArgsSchema } from './schemas.js';
+import { confirmationManager } from '../confirmation-manager.js';
+import { pendingActionResponse } from './confirm.js';
+import { validatePath } from './filesystem.js';
+import { CommandExecutionResult, OutputReadResult, ResourceLimits, ResourceLimitKind, SessionHistoryEntry, ToolResponse } from '../types.js';
+import { describeLimits } from '../utils/resource-limits.js';
+import { FULL_NORMALIZATION } from '../utils/normalize-output.js';
+import { OutputBudget, applyOutputBudget, splitOutputBudget } from '../utils/output-budget.js';
+import { DEFAULT_RESPONSE_MAX_BYTES, DEFAULT_RESPONSE_MAX_LINES } from '../config.js';
+import {
+  ExecuteCommandArgsSchema,
+  ReadOutputArgsSchema,
+  SendInputArgsSchema,
+  WaitForArgsSchema,
+  ForceTerminateArgsSchema,
+  ListSessionsArgsSchema,
+  SessionHistoryArgsSchema
+} from './schemas.js';
 
-export async function executeCommand(args: unknown) {
+interface ExitStatus {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startTime: Date;
+  endTime: Date | null;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+}
+
+function ensureTrailingNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+interface FormattedStreams {
+  text: string;
+  budgetExceeded: boolean;
+  // Omitted byte range within the combined output, when it was returned interleaved
+  omittedRange?: [number, number];
+}
+
+/**
+ * Formats stdout and stderr as separate sections, or the combined output in
+ * the order it was produced when interleaved is set, fitted into the response
+ * budget. The text is empty if there is no output.
+ */
+function formatStreams(combined: string, stdout: string, stderr: string, interleaved: boolean, budget: OutputBudget): FormattedStreams {
+  if (interleaved) {
+    if (!combined.trim()) {
+      return { text: '', budgetExceeded: false };
+    }
+    const budgeted = applyOutputBudget(combined, budget);
+    return {
+      text: ensureTrailingNewline(budgeted.text),
+      budgetExceeded: budgeted.exceeded,
+      omittedRange: budgeted.exceeded ? [budgeted.omittedStart, budgeted.omittedEnd] : undefined
+    };
+  }
+
+  const [stdoutBudget, stderrBudget] = splitOutputBudget(budget, stdout, stderr);
+  const budgetedStdout = applyOutputBudget(stdout, stdoutBudget);
+  const budgetedStderr = applyOutputBudget(stderr, stderrBudget);
+
+  let text = '';
+  if (stdout.trim()) {
+    text += `stdout:\n${ensureTrailingNewline(budgetedStdout.text)}`;
+  }
+  if (stderr.trim()) {
+    text += `stderr:\n${ensureTrailingNewline(budgetedStderr.text)}`;
+  }
+  return { text, budgetExceeded: budgetedStdout.exceeded || budgetedStderr.exceeded };
+}
+
+/**
+ * Explains how to get at output left out to fit the response budget. The
+ * exact byte range is only known when the output was returned as produced.
+ */
+function formatPagingHint(pid: number, rangeStart?: number, omittedRange?: [number, number]): string {
+  const range = rangeStart !== undefined && omittedRange
+    ? `{"pid": ${pid}, "mode": "range", "offset": ${rangeStart + omittedRange[0]}, "length": ${omittedRange[1] - omittedRange[0]}} for the omitted bytes, `
+    : `{"pid": ${pid}, "mode": "range", "offset": ..., "length": ...} for a byte range, `;
+  return `Output was shortened to fit the response budget. Read the rest with desktop_cmd_output using ${range}` +
+    `mode "head" or "tail" with lines, or mode "grep" with a pattern. max_bytes and max_lines set the budget (0 for no limit).\n`;
+}
+
+function responseBudget(maxBytes?: number, maxLines?: number): OutputBudget {
+  return {
+    maxBytes: maxBytes ?? DEFAULT_RESPONSE_MAX_BYTES,
+    maxLines: maxLines ?? DEFAULT_RESPONSE_MAX_LINES
+  };
+}
+
+function formatExitStatus(status: ExitStatus): string {
+  const endTime = status.endTime ?? new Date();
+  const runtime = (endTime.getTime() - status.startTime.getTime()) / 1000;
+  const signal = status.signal ? ` (terminated by ${status.signal})` : '';
+  return `Process completed with exit code ${status.exitCode}${signal}\n` +
+    formatLimitStatus(status) +
+    `Started: ${status.startTime.toISOString()}, ended: ${endTime.toISOString()}, runtime: ${runtime.toFixed(2)}s\n`;
+}
+
+/**
+ * Explains which limit stopped the process. Memory and open file limits make
+ * system calls fail rather than kill the process, so they can't be told apart
+ * from other failures and are only listed when the command did not succeed.
+ */
+function formatLimitStatus(status: ExitStatus): string {
+  const { limits } = status;
+  switch (status.limitExceeded) {
+    case 'runtime':
+      return `Limit exceeded: killed after reaching the maximum runtime of ${limits.maxRuntimeMs}ms\n`;
+    case 'cpu':
+      return `Limit exceeded: killed after using more than ${limits.maxCpuSeconds}s of CPU time\n`;
+    case 'output':
+      return `Limit exceeded: killed after producing more than ${limits.maxOutputBytes} bytes of output\n`;
+  }
+
+  const described = describeLimits(limits);
+  if (status.exitCode !== 0 && described.length > 0) {
+    return `Limits in effect (the failure may be caused by one of them): ${described.join(', ')}\n`;
+  }
+  return '';
+}
+
+function exitStatusFields(status: ExitStatus) {
+  return {
+    exitCode: status.exitCode,
+    signal: status.signal,
+    startTime: status.startTime.toISOString(),
+    endTime: status.endTime ? status.endTime.toISOString() : null,
+    durationMs: status.endTime ? status.endTime.getTime() - status.startTime.getTime() : null,
+    limits: status.limits,
+    limitExceeded: status.limitExceeded,
+  };
+}
+
+function formatExecutionResult(result: CommandExecutionResult, interleaved: boolean, budget: OutputBudget): string {
+  let text = `Command started with PID ${result.pid} (session ${result.id})\n`;
+
+  const output = formatStreams(result.output, result.stdout, result.stderr, interleaved, budget);
+  text += output.text ? `Initial output:\n${output.text}` : 'No initial output available.\n';
+  if (output.budgetExceeded) {
+    // Raw output returned in full starts at offset 0
+    const exact = !result.normalized && !result.truncated;
+    text += formatPagingHint(result.pid, exact ? 0 : undefined, output.omittedRange);
+  }
+
+  if (result.truncated) {
+    text += 'Warning: Output was truncated due to size limits.\n';
+  }
+
+  if (result.isBlocked) {
+    text += 'Command is still running. Use desktop_cmd_output to get more output.';
+  } else {
+    text += formatExitStatus(result);
+  }
+  return text;
+}
+
+/**
+ * Formats a read of session output, including the completion status of
+ * finished sessions and the byte range covered so the model can page on
+ */
+function formatOutputRead(result: OutputReadResult, interleaved: boolean = false, budget: OutputBudget = responseBudget()): string {
+  let text = '';
+
+  if (!result.isRunning) {
+    text += formatExitStatus(result);
+  }
+
+  if (result.retainedFrom > 0) {
+    text += `Warning: Output was truncated due to size limits. Bytes before ${result.retainedFrom} are no longer available.\n`;
+  }
+
+  const output = result.mode === 'grep'
+    ? undefined
+    : formatStreams(result.text, result.stdout, result.stderr, interleaved, budget);
+  if (result.mode === 'grep') {
+    const matches = applyOutputBudget(result.text, budget);
+    text += result.matchCount ? `${result.matchCount} matching lines:\n${matches.text}\n` : 'No matching lines\n';
+    if (matches.exceeded) {
+      text += 'Matches were shortened to fit the response budget. Narrow the pattern, lower max_matches, or raise max_bytes and max_lines.\n';
+    }
+  } else if (output?.text) {
+    text += output.text;
+    if (output.budgetExceeded) {
+      text += formatPagingHint(result.pid, result.normalized ? undefined : result.startOffset, output.omittedRange);
+    }
+  } else {
+    text += result.mode === 'new' ? 'No new output available\n' : 'No output in the requested range\n';
+  }
+
+  text += `[bytes ${result.startOffset}-${result.endOffset} of ${result.totalBytes}, ${result.totalLines} lines total; cursor: ${result.endOffset}]`;
+  return text;
+}
+
+/**
+ * Fits output for a JSON result into the response budget. Fields that were
+ * shortened contain the same elision markers as the text format.
+ */
+function streamsJson(combined: string, stdout: string, stderr: string, interleaved: boolean, budget: OutputBudget) {
+  if (interleaved) {
+    const output = applyOutputBudget(combined, budget);
+    return { budgetExceeded: output.exceeded, output: output.text };
+  }
+  const [stdoutBudget, stderrBudget] = splitOutputBudget(budget, stdout, stderr);
+  const budgetedStdout = applyOutputBudget(stdout, stdoutBudget);
+  const budgetedStderr = applyOutputBudget(stderr, stderrBudget);
+  return {
+    budgetExceeded: budgetedStdout.exceeded || budgetedStderr.exceeded,
+    stdout: budgetedStdout.text,
+    stderr: budgetedStderr.text
+  };
+}
+
+function executionResultJson(result: CommandExecutionResult, interleaved: boolean, budget: OutputBudget): string {
+  return JSON.stringify({
+    sessionId: result.id,
+    pid: result.pid,
+    isRunning: result.isBlocked,
+    ...exitStatusFields(result),
+    truncated: result.truncated,
+    normalized: result.normalized,
+    ...streamsJson(result.output, result.stdout, result.stderr, interleaved, budget),
+  }, null, 2);
+}
+
+function outputReadJson(result: OutputReadResult, interleaved: boolean, budget: OutputBudget): string {
+  return JSON.stringify({
+    sessionId: result.id,
+    pid: result.pid,
+    mode: result.mode,
+    isRunning: result.isRunning,
+    ...exitStatusFields(result),
+    truncated: result.truncated,
+    normalized: result.normalized,
+    startOffset: result.startOffset,
+    endOffset: result.endOffset,
+    totalBytes: result.totalBytes,
+    totalLines: result.totalLines,
+    cursor: result.endOffset,
+    ...(result.mode === 'grep'
+      ? { matchCount: result.matchCount, matches: applyOutputBudget(result.text, budget).text }
+      : streamsJson(result.text, result.stdout, result.stderr, interleaved, budget)),
+  }, null, 2);
+}
+
+/**
+ * Runs a command if the command policy allows it. Commands the policy wants
+ * confirmed are held until desktop_confirm_action is called with their token,
+ * which runs them with confirmed set after checking them again.
+ */
+export async function executeCommand(args: unknown, { confirmed = false }: { confirmed?: boolean } = {}): Promise<ToolResponse> {
   const parsed = ExecuteCommandArgsSchema.safeParse(args);
   if (!parsed.success) {
     throw new Error(`Invalid arguments for execute_command: ${parsed.error}`);
   }
 
   try {
-    // Validate the command
-    if (!commandManager.validateCommand(parsed.data.command)) {
-      throw new Error(`Command not allowed: ${parsed.data.command}`);
-    }
+    const { command, timeout_ms, env, env_mode, shell, args, limits, normalize, max_bytes, max_lines, interleaved, format } = parsed.data;
 
-    // Execute the command with optimized output handling
-    const result = await terminalManager.executeCommand(
-      parsed.data.command,
-      parsed.data.timeout_ms
-    );
+    // The working directory is subject to the same rules as the filesystem tools
+    const cwd = parsed.data.cwd ? await validatePath(parsed.data.cwd) : undefined;
 
-    // Format response for user
-    let responseText = `Command started with PID ${result.pid}\n`;
-    
-    if (result.output.trim()) {
-      responseText += `Initial output:\n${result.output}\n`;
-    } else {
-      responseText += 'No initial output available.\n';
+    // Validate every command that would run, in the directory it would run in
+    const validation = shell === 'none'
+      ? commandManager.checkArgv([command, ...(args ?? [])], cwd)
+      : commandManager.checkCommand(command, cwd);
+    if (validation.action === 'deny') {
+      throw new Error(`Command not allowed: ${validation.reason}`);
     }
-    
-    if (result.isBlocked) {
-      responseText += 'Command is still running. Use desktop_cmd_output to get more output.';
+
+    if (args && shell !== 'none') {
+      throw new Error('args can only be used with shell "none"');
     }
 
+    if (validation.action === 'confirm' && !confirmed) {
+      const commandLine = shell === 'none' ? [command, ...(args ?? [])].join(' ') : command;
+      return pendingActionResponse(confirmationManager.request(
+        `run \`${commandLine}\` in ${cwd ?? process.cwd()}`,
+        validation.reason,
+        () => executeCommand(parsed.data, { confirmed: true })
+      ));
+    }
+
+    // Execute the command with optimized output handling
+    const result = await terminalManager.executeCommand(command, timeout_ms, {
+      cwd,
+      env,
+      envMode: env_mode,
+      shell,
+      args,
+      limits: limits && {
+        maxRuntimeMs: limits.max_runtime_ms,
+        maxCpuSeconds: limits.max_cpu_seconds,
+        maxMemoryMb: limits.max_memory_mb,
+        maxOutputBytes: limits.max_output_bytes,
+        maxOpenFiles: limits.max_open_files
+      },
+      normalize: typeof normalize === 'object'
+        ? {
+          stripAnsi: normalize.strip_ansi,
+          carriageReturns: normalize.carriage_returns,
+          collapseRepeats: normalize.collapse_repeats
+        }
+        : normalize ? FULL_NORMALIZATION : undefined
+    });
+
     return {
       content: [{
         type: "text",
-        text: responseText
+        text: format === 'json'
+          ? executionResultJson(result, interleaved, responseBudget(max_bytes, max_lines))
+          : formatExecutionResult(result, interleaved, responseBudget(max_bytes, max_lines))
       }],
     };
   } catch (error) {
@@ -58,25 +332,42 @@ export async function readOutput(args: unknown) {
   }
 
   try {
-    const pid = parsed.data.pid;
-    const output = terminalManager.getNewOutput(pid);
+    const { pid, session_id, mode, cursor, lines, offset, length, pattern, ignore_case, context, max_matches, raw, max_bytes, max_lines, interleaved, format } = parsed.data;
+    if (pid === undefined && session_id === undefined) {
+      throw new Error('Either pid or session_id is required');
+    }
+
+    const options = {
+      mode,
+      cursor,
+      lines,
+      offset,
+      length,
+      pattern,
+      ignoreCase: ignore_case,
+      context,
+      maxMatches: max_matches,
+      raw
+    };
+    const result = session_id !== undefined
+      ? terminalManager.readOutputById(session_id, options)
+      : terminalManager.readOutput(pid!, options);
     
-    if (output === null) {
+    if (result === null) {
       return {
         content: [{
           type: "text",
-          text: `No session found for PID ${pid}`
+          text: session_id !== undefined ? `No session found with ID ${session_id}` : `No session found for PID ${pid}`
         }],
       };
     }
     
-    // Don't return an empty string if there's no new output
-    const responseText = output.trim() ? output : 'No new output available';
-    
     return {
       content: [{
         type: "text",
-        text: responseText
+        text: format === 'json'
+          ? outputReadJson(result, interleaved, responseBudget(max_bytes, max_lines))
+          : formatOutputRead(result, interleaved, responseBudget(max_bytes, max_lines))
       }],
     };
   } catch (error) {
@@ -91,6 +382,115 @@ export async function readOutput(args: unknown) {
   }
 }
 
+export async function sendInput(args: unknown) {
+  const parsed = SendInputArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for send_input: ${parsed.error}`);
+  }
+
+  try {
+    const { pid, input, newline, eof, control, wait_ms } = parsed.data;
+    const result = await terminalManager.sendInput(pid, input, {
+      newline,
+      eof,
+      control,
+      waitMs: wait_ms
+    });
+
+    if (result === null) {
+      return {
+        content: [{
+          type: "text",
+          text: `No active session found for PID ${pid}`
+        }],
+        isError: true
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: formatOutputRead(result)
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error sending input: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function waitFor(args: unknown) {
+  const parsed = WaitForArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for wait_for: ${parsed.error}`);
+  }
+
+  try {
+    const { pid, pattern, ignore_case, port, host, timeout_ms } = parsed.data;
+    const result = await terminalManager.waitFor(pid, {
+      pattern,
+      ignoreCase: ignore_case,
+      port,
+      host,
+      timeoutMs: timeout_ms
+    });
+
+    if (result === null) {
+      return {
+        content: [{
+          type: "text",
+          text: `No session found for PID ${pid}`
+        }],
+        isError: true
+      };
+    }
+
+    const elapsed = `${(result.elapsed / 1000).toFixed(2)}s`;
+    let responseText: string;
+    switch (result.condition) {
+      case 'pattern':
+        responseText = `Output matched pattern on line ${result.matchLine} after ${elapsed}`;
+        break;
+      case 'port':
+        responseText = `Port ${port} is accepting connections after ${elapsed}`;
+        break;
+      case 'exit':
+        responseText = `Process exited with code ${result.exitCode}` +
+          (result.signal ? ` (terminated by ${result.signal})` : '') + ` after ${elapsed}`;
+        break;
+      case 'timeout':
+        responseText = `Timed out after ${elapsed}; the process is still running`;
+        break;
+    }
+
+    if (result.excerpt.trim()) {
+      responseText += `\n${result.condition === 'pattern' ? 'Matching output' : 'Latest output'}:\n${result.excerpt}`;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: responseText
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error waiting for process: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
 export async function forceTerminate(args: unknown) {
   const parsed = ForceTerminateArgsSchema.safeParse(args);
   if (!parsed.success) {
@@ -98,8 +498,8 @@ export async function forceTerminate(args: unknown) {
   }
 
   try {
-    const pid = parsed.data.pid;
-    const success = terminalManager.forceTerminate(pid);
+    const { pid, signal, grace_ms } = parsed.data;
+    const success = terminalManager.forceTerminate(pid, { signal, graceMs: grace_ms });
     
     return {
       content: [{
@@ -143,7 +543,7 @@ export async function listSessions() {
         ? `${minutes}m ${seconds}s` 
         : `${seconds}s`;
       
-      return `PID: ${s.pid}, Status: ${s.isBlocked ? 'Running (blocked)' : 'Running'}, Runtime: ${formattedRuntime}`;
+      return `PID: ${s.pid}, Session: ${s.id}, Status: ${s.isBlocked ? 'Running (blocked)' : 'Running'}, Runtime: ${formattedRuntime}, Command: ${s.command}`;
     }).join('\n');
     
     return {
@@ -163,3 +563,84 @@ export async function listSessions() {
     };
   }
 }
+
+function formatHistoryEntry(entry: SessionHistoryEntry): string {
+  let status = entry.isRunning
+    ? 'running'
+    : entry.signal ? `killed by ${entry.signal}` : `exit ${entry.exitCode}`;
+  if (entry.limitExceeded) {
+    status += ` (${entry.limitExceeded} limit exceeded)`;
+  }
+  const output = `${entry.outputBytes} bytes${entry.outputAvailable ? '' : ' (no longer retained)'}`;
+  return `Session ${entry.id} | PID ${entry.pid} | ${status} | ${(entry.duration / 1000).toFixed(2)}s | ${output} | ${entry.cwd}\n` +
+    `  $ ${entry.command}`;
+}
+
+export async function sessionHistory(args: unknown) {
+  const parsed = SessionHistoryArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for session_history: ${parsed.error}`);
+  }
+
+  try {
+    const { failed_only, command, since, until, limit, format } = parsed.data;
+    const history = terminalManager.listHistory({
+      failedOnly: failed_only,
+      command,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      limit
+    });
+
+    if (format === 'json') {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            totalMatches: history.totalMatches,
+            droppedEntries: history.droppedEntries,
+            sessions: history.entries.map(entry => ({
+              sessionId: entry.id,
+              pid: entry.pid,
+              command: entry.command,
+              cwd: entry.cwd,
+              isRunning: entry.isRunning,
+              exitCode: entry.exitCode,
+              signal: entry.signal,
+              limitExceeded: entry.limitExceeded,
+              startTime: entry.startTime.toISOString(),
+              endTime: entry.endTime ? entry.endTime.toISOString() : null,
+              durationMs: entry.duration,
+              outputBytes: entry.outputBytes,
+              outputAvailable: entry.outputAvailable,
+            })),
+          }, null, 2)
+        }],
+      };
+    }
+
+    let text = history.entries.length > 0
+      ? `Showing ${history.entries.length} of ${history.totalMatches} matching sessions, newest first:\n` +
+        history.entries.map(formatHistoryEntry).join('\n')
+      : 'No matching sessions';
+    if (history.droppedEntries > 0) {
+      text += `\n${history.droppedEntries} older sessions are no longer kept in the history`;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error listing session history: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
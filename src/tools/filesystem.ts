@@ -2,33 +2,51 @@ import * as fs from "fs/promises";
 import { readdirSync } from "fs";
 import path from "path";
 import os from 'os';
+import { getServerConfig } from '../server-config.js';
+import { AccessGrants, AccessMode, AllowedRoot, findAccessDenial } from '../utils/path-access.js';
+import { isCaseSensitive, resolveRealPath } from '../utils/path-containment.js';
+import { countNewlines, findTailOffset, numberLines, readBytes, scanLines } from '../utils/file-range.js';
+import { detectFileType, FileType, hexDump, hexDumpSize, SNIFF_BYTES } from '../utils/file-type.js';
+import { decodeText, detectEncoding, encodeText, TextEncoding, TextFormat } from '../utils/encoding.js';
+import { matchesGlob, walkTree, WalkEntry } from '../utils/file-walk.js';
+import { DEFAULT_SEARCH_MAX_RESULTS } from '../config.js';
+import { FileReadOptions, FileReadResult, FileSearchOptions, FileSearchResult } from '../types.js';
 
-// Store allowed directories
-const allowedDirectories: string[] = [
+// Directories the filesystem tools may access when the config sets none
+const defaultDirectories: string[] = [
     process.cwd(), // Current working directory
+    os.homedir(),
+    os.tmpdir(),
 ];
 
-// Add home directory subfolders but exclude Desktop
-const homeDir = os.homedir();
-const desktopDir = path.join(homeDir, 'Desktop');
+// Bytes of a binary file shown as a hex dump when no byte range is given
+const BINARY_PREVIEW_BYTES = 256;
+
+// Directories added by tests, which are kept when the config replaces the
+// default directories
+const testDirectories: string[] = [];
 
 // Function to add directory to allowed list
 function addAllowedDirectory(dir: string) {
-    // Normalize paths for consistent comparison
-    const normalizedDir = normalizePath(dir);
-    const normalizedDesktop = normalizePath(desktopDir);
-    
-    // Only add if it's not the Desktop folder
-    if (!normalizedDir.startsWith(normalizedDesktop)) {
-        allowedDirectories.push(dir);
+    if (!testDirectories.includes(dir)) {
+        testDirectories.push(dir);
     }
 }
 
-// Add home directory to allowed directories
-addAllowedDirectory(homeDir);
-
-// For testing, add temp directory and any directories created for tests
-addAllowedDirectory(os.tmpdir());
+/**
+ * The directories the filesystem tools may access: the ones in the config or
+ * given on the command line, or by default the working directory, the home
+ * directory and the temp directory, all read-write
+ */
+export function getAllowedRoots(): AllowedRoot[] {
+    const configured = getServerConfig().allowedDirectories;
+    const roots: AllowedRoot[] = configured
+        ? configured.map(dir => typeof dir === 'string'
+            ? { path: path.resolve(expandHome(dir)), mode: 'read-write' }
+            : { path: path.resolve(expandHome(dir.path)), mode: dir.mode })
+        : defaultDirectories.map(dir => ({ path: dir, mode: 'read-write' }));
+    return [...roots, ...testDirectories.map((dir): AllowedRoot => ({ path: dir, mode: 'read-write' }))];
+}
 
 // Also add subdirectories of the temp directory (for tests)
 const isTesting = process.env.NODE_ENV === 'test' || process.argv.includes('test');
@@ -62,25 +80,15 @@ export function addTestDirectory(dir: string) {
     
     // Check if temp dir parent path needs to be added too
     const tmpDir = os.tmpdir();
-    if (!allowedDirectories.includes(tmpDir)) {
+    if (!testDirectories.includes(tmpDir)) {
       console.log(`Adding temp directory to allowed list: ${tmpDir}`);
       addAllowedDirectory(tmpDir);
     }
   }
   
-  // Check if this directory is already in our allowed list in some form
-  const normalizedDir = normalizePath(absolute);
-  const isAlreadyTracked = allowedDirectories.some(
-    allowed => normalizedDir.startsWith(normalizePath(allowed))
-  );
-  
-  if (!isAlreadyTracked) {
-    console.error(`Warning: Directory ${absolute} is not within any allowed directory`);
-  }
-  
   // Log current allowed directories for debugging
   console.log(`Added test directory: ${absolute}`);
-  console.log(`Current allowed directories: ${allowedDirectories.join(', ')}`);
+  console.log(`Current allowed directories: ${getAllowedRoots().map(root => root.path).join(', ')}`);
 }
 
 /**
@@ -110,11 +118,6 @@ export function setupTestTempDirectories() {
   }
 }
 
-// Normalize all paths consistently
-function normalizePath(p: string): string {
-    return path.normalize(p).toLowerCase();
-}
-
 function expandHome(filepath: string): string {
     if (filepath.startsWith('~/') || filepath === '~') {
         return path.join(os.homedir(), filepath.slice(1));
@@ -122,92 +125,318 @@ function expandHome(filepath: string): string {
     return filepath;
 }
 
+function currentGrants(): AccessGrants {
+    return { roots: getAllowedRoots(), deniedPaths: getServerConfig().deniedPaths };
+}
+
+/**
+ * The grants with symlinks in the allowed directories and the home directory
+ * resolved, to check paths whose symlinks have been resolved against
+ */
+async function resolveGrants(): Promise<AccessGrants> {
+    const { roots, deniedPaths } = currentGrants();
+    const homeDir = os.homedir();
+    const realHomeDir = await resolveRealPath(homeDir);
+    return {
+        roots: await Promise.all(roots.map(async root => ({ ...root, path: await resolveRealPath(root.path) }))),
+        deniedPaths: deniedPaths.flatMap(pattern =>
+            realHomeDir !== homeDir && (pattern === '~' || pattern.startsWith('~/'))
+                ? [pattern, realHomeDir + pattern.slice(1)]
+                : [pattern])
+    };
+}
+
+// Throws if the allowed directories and denied paths don't grant the access
+function assertAccess(target: string, access: AccessMode, grants: AccessGrants, caseSensitive: boolean, subject?: string): void {
+    const denial = findAccessDenial(target, access, grants, caseSensitive);
+    if (denial) {
+        console.error(`Path validation failed: ${denial}`);
+        throw new Error(`Access denied - ${subject ? `${subject} ` : ''}${denial}`);
+    }
+}
+
 // Security utilities
-export async function validatePath(requestedPath: string): Promise<string> {
+
+/** Whether the filesystem tools may read a path, for searches that skip the paths they may not */
+export async function isAccessible(target: string): Promise<boolean> {
+    try {
+        await validatePath(target);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Resolves a path and checks that the filesystem tools may access it: it
+ * must be in an allowed directory and match no denied path, and tools that
+ * change files need a read-write directory. The path is checked as given
+ * and again with every symlink in it resolved, including in the parents of
+ * files that don't exist yet, and the resolved path is returned so that the
+ * operation goes where it was checked.
+ */
+export async function validatePath(requestedPath: string, access: AccessMode = 'read'): Promise<string> {
     const expandedPath = expandHome(requestedPath);
     const absolute = path.isAbsolute(expandedPath)
         ? path.resolve(expandedPath)
         : path.resolve(process.cwd(), expandedPath);
-        
-    const normalizedRequested = normalizePath(absolute);
-    const normalizedDesktop = normalizePath(path.join(os.homedir(), 'Desktop'));
 
-    // Explicitly check for Desktop folder access
-    if (normalizedRequested.startsWith(normalizedDesktop)) {
-        throw new Error(`Access denied - Desktop folder is restricted: ${absolute}`);
+    assertAccess(absolute, access, currentGrants(), await isCaseSensitive(absolute));
+
+    const realPath = await resolveRealPath(absolute);
+    if (realPath !== absolute) {
+        assertAccess(realPath, access, await resolveGrants(), await isCaseSensitive(realPath), 'symlink target:');
     }
+    return realPath;
+}
+
+// File operation tools
+export async function readFile(filePath: string, encoding?: TextEncoding): Promise<string> {
+    const validPath = await validatePath(filePath);
+    return decodeText(await fs.readFile(validPath), encoding).text;
+}
+
+/**
+ * Reads a file, or the lines or bytes of it selected by the options, for
+ * desktop_fs_read. The file is streamed, so only the selected part is held
+ * in memory, and a tail is found by reading backwards from the end. Lines
+ * are only counted up to the selected part, so byte ranges and tails don't
+ * report the line count of the file. Content larger than maxReadBytes is
+ * replaced by a summary with the size of the file, unless options.full is
+ * set. The encoding is found from the start of the file unless
+ * options.encoding is set, and binary files are read by readBinaryFile.
+ */
+export async function readFileRange(filePath: string, options: FileReadOptions = {}): Promise<FileReadResult> {
+    const { startLine, endLine, offset, length, tail, lineNumbers = false, full = false, encoding } = options;
+    const lineRange = startLine !== undefined || endLine !== undefined;
+    const byteRange = offset !== undefined || length !== undefined;
+    if ([lineRange, byteRange, tail !== undefined].filter(Boolean).length > 1) {
+        throw new Error("startLine/endLine, offset/length and tail can't be combined");
+    }
+    if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+        throw new Error(`endLine ${endLine} is before startLine ${startLine}`);
+    }
+
+    const validPath = await validatePath(filePath);
+    const stats = await fs.stat(validPath);
+    if (stats.isDirectory()) {
+        throw new Error(`${filePath} is a directory, use desktop_fs_list to list it`);
+    }
+    const maxBytes = full ? Infinity : getServerConfig().maxReadBytes;
 
-    // Check if path is within allowed directories
-    const isAllowed = allowedDirectories.some(dir => {
-        const normalizedDir = normalizePath(dir);
-        return normalizedRequested.startsWith(normalizedDir);
+    const sample = await readBytes(validPath, 0, Math.min(SNIFF_BYTES, stats.size));
+    const fileType = detectFileType(sample);
+    if (fileType.kind !== 'text' && encoding === undefined) {
+        if (lineRange || tail !== undefined) {
+            throw new Error(`${filePath} is a ${fileType.description}, not text, so it has no lines; read bytes of it with offset and length`);
+        }
+        return readBinaryFile(validPath, stats.size, fileType, options);
+    }
+    const { format } = decodeText(sample, encoding ?? detectEncoding(sample, sample.length < stats.size).encoding);
+
+    const summarize = (totalLines: number | undefined, part?: string): FileReadResult => ({
+        text: `${validPath} has ${stats.size} bytes${totalLines !== undefined ? ` in ${totalLines} lines` : ''}. ` +
+            `${part ? `The requested part (${part}) is` : 'It is'} larger than the ${maxBytes} bytes returned at once, so no content was returned.\n` +
+            'Read part of it with startLine and endLine, offset and length, or tail, or set full to true to return it anyway.',
+        isSummary: true,
+        size: stats.size,
+        totalLines,
+        format
     });
-    
-    if (!isAllowed) {
-        console.error(`Path validation failed: ${absolute}`);
-        console.error(`Allowed directories: ${allowedDirectories.join(', ')}`);
-        throw new Error(`Access denied - path outside allowed directories: ${absolute}`);
+
+    if (byteRange) {
+        const start = Math.min(offset ?? 0, stats.size);
+        const byteCount = Math.min(length ?? stats.size - start, stats.size - start);
+        if (byteCount > maxBytes) {
+            return summarize(undefined, `${byteCount} bytes from offset ${start}`);
+        }
+        const { text: content } = decodeText(await readBytes(validPath, start, byteCount), format.encoding);
+        return {
+            text: lineNumbers ? numberLines(content, await countNewlines(validPath, start, format.encoding) + 1) : content,
+            isSummary: false,
+            size: stats.size,
+            format,
+            note: `[${byteCount} bytes from offset ${start} of ${stats.size}]`
+        };
     }
 
-    // Handle symlinks by checking their real path
-    try {
-        const realPath = await fs.realpath(absolute);
-        const normalizedReal = normalizePath(realPath);
-        
-        // Check if symlink resolves to Desktop
-        if (normalizedReal.startsWith(normalizedDesktop)) {
-            throw new Error("Access denied - symlink target resolves to restricted Desktop folder");
+    if (tail !== undefined) {
+        const start = await findTailOffset(validPath, tail, stats.size, format.encoding);
+        const scan = await scanLines(validPath, 1, Infinity, maxBytes, format.encoding, start);
+        if (scan.exceeded) {
+            return summarize(undefined, `the last ${tail} lines`);
         }
-        
-        const isRealPathAllowed = allowedDirectories.some(dir => normalizedReal.startsWith(normalizePath(dir)));
-        if (!isRealPathAllowed) {
-            throw new Error("Access denied - symlink target outside allowed directories");
+        const content = scan.content.toString('utf-8');
+        // Numbering the lines needs the lines before them counted, which gives the total as well
+        if (lineNumbers && scan.totalLines > 0) {
+            const firstLine = await countNewlines(validPath, start, format.encoding) + 1;
+            const totalLines = firstLine + scan.totalLines - 1;
+            return {
+                text: numberLines(content, firstLine),
+                isSummary: false,
+                size: stats.size,
+                totalLines,
+                format,
+                note: `[Lines ${firstLine}-${totalLines} of ${totalLines}]`
+            };
         }
-        return realPath;
-    } catch (error) {
-        // For new files that don't exist yet, verify parent directory
-        const parentDir = path.dirname(absolute);
-        try {
-            const realParentPath = await fs.realpath(parentDir);
-            const normalizedParent = normalizePath(realParentPath);
-            
-            // Check if parent directory is Desktop
-            if (normalizedParent.startsWith(normalizedDesktop)) {
-                throw new Error("Access denied - parent directory is restricted Desktop folder");
-            }
-            
-            const isParentAllowed = allowedDirectories.some(dir => normalizedParent.startsWith(normalizePath(dir)));
-            
-            if (!isParentAllowed) {
-                throw new Error("Access denied - parent directory outside allowed directories");
-            }
-            return absolute;
-        } catch (error) {
-            if (process.env.NODE_ENV === 'test' || process.argv.includes('test')) {
-                // More detailed error for tests
-                console.error(`Parent directory error: ${parentDir}`, error);
-            }
-            throw new Error(`Directory does not exist: ${parentDir}. Create it first or use createDirectories option.`);
+        return {
+            text: content,
+            isSummary: false,
+            size: stats.size,
+            format,
+            note: `[Last ${scan.totalLines} lines]`
+        };
+    }
+
+    const firstLine = startLine ?? 1;
+    const lastLine = endLine;
+    const scan = await scanLines(validPath, firstLine, lastLine, maxBytes, format.encoding);
+    const part = lineRange
+        ? `lines ${firstLine} to ${Math.min(lastLine ?? scan.totalLines, scan.totalLines)}`
+        : undefined;
+    if (scan.exceeded) {
+        return summarize(scan.totalLines, part);
+    }
+
+    const content = scan.content.toString('utf-8');
+    let note: string | undefined;
+    if (part) {
+        note = firstLine > scan.totalLines
+            ? `[No lines returned, the file has ${scan.totalLines} lines]`
+            : `[Lines ${firstLine}-${Math.min(lastLine ?? scan.totalLines, scan.totalLines)} of ${scan.totalLines}]`;
+    }
+    return {
+        text: lineNumbers ? numberLines(content, firstLine) : content,
+        isSummary: false,
+        size: stats.size,
+        totalLines: scan.totalLines,
+        format,
+        note
+    };
+}
+
+/**
+ * Reads a binary file. An image is returned as base64 for MCP image content,
+ * unless it is larger than maxImageBytes. A byte range is returned as a hex
+ * dump, and anything else as its type and size with a hex dump of its start.
+ */
+async function readBinaryFile(
+    validPath: string,
+    size: number,
+    fileType: FileType,
+    { offset, length, full = false }: FileReadOptions
+): Promise<FileReadResult> {
+    const config = getServerConfig();
+    const maxBytes = full ? Infinity : config.maxReadBytes;
+    const describe = `${validPath} is a ${fileType.description} of ${size} bytes.`;
+
+    if (offset !== undefined || length !== undefined) {
+        const start = Math.min(offset ?? 0, size);
+        const byteCount = Math.min(length ?? size - start, size - start);
+        if (hexDumpSize(byteCount) > maxBytes) {
+            return {
+                text: `${describe} The hex dump of the requested part (${byteCount} bytes from offset ${start}) is ` +
+                    `larger than the ${maxBytes} bytes returned at once, so no content was returned.\n` +
+                    'Read fewer bytes, or set full to true to return it anyway.',
+                isSummary: true,
+                size,
+                totalLines: 0
+            };
         }
+        return {
+            text: hexDump(await readBytes(validPath, start, byteCount), start),
+            isSummary: false,
+            size,
+            totalLines: 0,
+            note: `[${byteCount} bytes from offset ${start} of ${size}, ${fileType.description}]`
+        };
     }
+
+    if (fileType.mimeType) {
+        if (size > (full ? Infinity : config.maxImageBytes)) {
+            return {
+                text: `${describe} It is larger than the ${config.maxImageBytes} bytes returned as an image at once, so no content was returned.\n` +
+                    'Set full to true to return it anyway, or read bytes of it with offset and length.',
+                isSummary: true,
+                size,
+                totalLines: 0
+            };
+        }
+        return {
+            text: describe,
+            isSummary: false,
+            size,
+            totalLines: 0,
+            image: { data: (await fs.readFile(validPath)).toString('base64'), mimeType: fileType.mimeType }
+        };
+    }
+
+    const shown = Math.min(BINARY_PREVIEW_BYTES, size);
+    return {
+        text: `${describe} It isn't text, so only a hex dump of its first ${shown} bytes is shown; ` +
+            `read other bytes with offset and length.\n${hexDump(await readBytes(validPath, 0, shown))}`,
+        isSummary: true,
+        size,
+        totalLines: 0
+    };
 }
 
-// File operation tools
-export async function readFile(filePath: string): Promise<string> {
-    const validPath = await validatePath(filePath);
-    return fs.readFile(validPath, "utf-8");
+/**
+ * Decodes the base64 content of desktop_fs_write. Buffer.from ignores
+ * characters that aren't base64, which would write a corrupted file, so they
+ * are rejected instead. Whitespace, as in wrapped base64, is allowed.
+ */
+export function decodeBase64(content: string): Buffer {
+    const compact = content.replace(/\s/g, '');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(compact) || compact.length % 4 === 1) {
+        throw new Error('content is not valid base64');
+    }
+    return Buffer.from(compact, 'base64');
+}
+
+/**
+ * The format text is written in: the encoding, byte order mark and line
+ * endings of the file it replaces, or UTF-8 for a new file. An encoding that
+ * is given replaces the file's, and a new UTF-16 file gets a byte order mark
+ * so that it can be told apart from binary data.
+ */
+async function findWriteFormat(validPath: string, encoding?: TextEncoding): Promise<TextFormat> {
+    let existing: Buffer | undefined;
+    try {
+        existing = await fs.readFile(validPath);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+    }
+
+    // The whole file is decoded, as readFile does, so that an edit is
+    // written back in the encoding it was read in
+    if (existing && (encoding !== undefined || detectFileType(existing.subarray(0, SNIFF_BYTES)).kind === 'text')) {
+        return decodeText(existing, encoding).format;
+    }
+    const newEncoding = encoding ?? 'utf-8';
+    return { encoding: newEncoding, bom: newEncoding.startsWith('utf-16') };
 }
 
 import { randomUUID } from 'crypto';
 
+/**
+ * Writes a file atomically. Text is written in the format of the file it
+ * replaces, see findWriteFormat, which is returned; bytes are written as
+ * they are.
+ */
 export async function writeFile(
     filePath: string, 
-    content: string, 
-    options: { createDirectories?: boolean } = {}
-): Promise<void> {
+    content: string | Buffer, 
+    options: { createDirectories?: boolean; encoding?: TextEncoding } = {}
+): Promise<TextFormat | undefined> {
     try {
-        const validPath = await validatePath(filePath);
+        const validPath = await validatePath(filePath, 'write');
         const directory = path.dirname(validPath);
+        const format = typeof content === 'string' ? await findWriteFormat(validPath, options.encoding) : undefined;
+        const data = format ? encodeText(content as string, format) : content;
         
         // Create directory if needed and requested
         if (options.createDirectories) {
@@ -223,10 +452,11 @@ export async function writeFile(
         
         try {
             // Write to a temporary file first
-            await fs.writeFile(tempPath, content, "utf-8");
+            await fs.writeFile(tempPath, data);
             
             // Rename the temporary file to the target file
             await fs.rename(tempPath, validPath);
+            return format;
         } catch (error) {
             // Clean up temp file if it exists
             try {
@@ -250,7 +480,7 @@ export async function writeFile(
 // readMultipleFiles function removed
 
 export async function createDirectory(dirPath: string): Promise<void> {
-    const validPath = await validatePath(dirPath);
+    const validPath = await validatePath(dirPath, 'write');
     await fs.mkdir(validPath, { recursive: true });
 }
 
@@ -261,66 +491,96 @@ export async function listDirectory(dirPath: string): Promise<string[]> {
 }
 
 export async function moveFile(sourcePath: string, destinationPath: string): Promise<void> {
-    const validSourcePath = await validatePath(sourcePath);
-    const validDestPath = await validatePath(destinationPath);
+    // Moving a file out of a directory changes it as much as moving one in
+    const validSourcePath = await validatePath(sourcePath, 'write');
+    const validDestPath = await validatePath(destinationPath, 'write');
     await fs.rename(validSourcePath, validDestPath);
 }
 
-import { glob } from 'glob';
+// Milliseconds in the units of durations such as 7d
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
 
+/**
+ * Finds files, directories and symlinks below a directory for
+ * desktop_fs_search. In substring mode, names that contain the pattern match,
+ * ignoring case. In glob mode, paths relative to the directory match the
+ * glob, and a glob without a slash matches names in any directory. The
+ * searchExclude paths, paths outside the allowed directories and denied
+ * paths are skipped, and the search stops after maxResults paths.
+ */
 export async function searchFiles(
     rootPath: string, 
-    pattern: string
-): Promise<string[]> {
+    pattern: string,
+    options: FileSearchOptions = {}
+): Promise<FileSearchResult> {
+    const {
+        mode = 'substring',
+        type,
+        minSize,
+        maxSize,
+        exclude = [],
+        gitignore = false,
+        maxResults = DEFAULT_SEARCH_MAX_RESULTS
+    } = options;
+    const modifiedAfter = options.modifiedAfter === undefined ? undefined : parseTime(options.modifiedAfter, 'modifiedAfter');
+    const modifiedBefore = options.modifiedBefore === undefined ? undefined : parseTime(options.modifiedBefore, 'modifiedBefore');
     const validPath = await validatePath(rootPath);
-    const results: string[] = [];
-    
-    try {
-        // Create a glob pattern for case-insensitive search
-        // For case-insensitive search on filesystems that are case-sensitive,
-        // we use a two-step approach for better performance:
-        // 1. Use a broader pattern with the lowercase pattern
-        // 2. Then filter results with JavaScript string operations
-        const globPattern = `**/*${pattern.toLowerCase()}*`;
-        
-        // Get files matching the glob pattern
-        const matches = await glob(globPattern, {
-            cwd: validPath,
-            dot: true,                      // Include dotfiles
-            absolute: true,                 // Return absolute paths
-            nodir: false,                   // Include directories
-            follow: false,                  // Don't follow symlinks for security
-            ignore: ['**/node_modules/**'], // Common exclusion
-            nocase: true,                   // Always use case-insensitive search
-        });
-        
-        // Pre-process the pattern for case-insensitive search
-        const lowerPattern = pattern.toLowerCase();
-        
-        // Filter results and validate each path
-        for (const match of matches) {
-            try {
-                // Validate the path is allowed
-                await validatePath(match);
-                const filename = path.basename(match);
-                
-                // Case-insensitive match (ensure it actually contains the pattern)
-                const isMatch = filename.toLowerCase().includes(lowerPattern);
-                
-                if (isMatch) {
-                    results.push(match);
-                }
-            } catch (error) {
-                // Skip this file if validation fails
-                continue;
-            }
+
+    const nocase = !await isCaseSensitive(validPath);
+    const lowerPattern = pattern.toLowerCase();
+    const matchesPattern = (entry: WalkEntry) => mode === 'glob'
+        ? matchesGlob(entry.relative, pattern, nocase)
+        : path.basename(entry.path).toLowerCase().includes(lowerPattern);
+
+    const checksStats = minSize !== undefined || maxSize !== undefined || modifiedAfter !== undefined || modifiedBefore !== undefined;
+    const matchesStats = async (entry: WalkEntry) => {
+        if (!checksStats) {
+            return true;
         }
-    } catch (error) {
-        // Log the error but return empty results
-        console.error(`Error searching files: ${error instanceof Error ? error.message : String(error)}`);
+        const stats = await fs.lstat(entry.path);
+        const sizeFiltered = minSize !== undefined || maxSize !== undefined;
+        return (!sizeFiltered || entry.type === 'file') &&
+            (minSize === undefined || stats.size >= minSize) &&
+            (maxSize === undefined || stats.size <= maxSize) &&
+            (modifiedAfter === undefined || stats.mtimeMs >= modifiedAfter) &&
+            (modifiedBefore === undefined || stats.mtimeMs <= modifiedBefore);
+    };
+
+    const paths: string[] = [];
+    const walk = walkTree(validPath, {
+        exclude: [...getServerConfig().searchExclude, ...exclude],
+        gitignore,
+        isAccessible
+    });
+    for await (const entry of walk) {
+        if ((type && entry.type !== type) || !matchesPattern(entry) || !await matchesStats(entry)) {
+            continue;
+        }
+        if (paths.length === maxResults) {
+            return { paths, truncated: true };
+        }
+        paths.push(entry.path);
     }
-    
-    return results;
+    return { paths, truncated: false };
+}
+
+// A date such as 2024-05-01 or 2024-05-01T12:00, or a duration before now such as 30m, 12h or 7d
+function parseTime(value: string, name: string): number {
+    const duration = /^(\d+)\s*([smhdw])$/.exec(value.trim());
+    if (duration) {
+        return Date.now() - Number(duration[1]) * DURATION_UNITS[duration[2]];
+    }
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new Error(`${name} must be a date such as 2024-05-01 or a duration such as 7d, not ${value}`);
+    }
+    return time;
 }
 
 export async function getFileInfo(filePath: string): Promise<Record<string, any>> {
@@ -340,8 +600,8 @@ export async function getFileInfo(filePath: string): Promise<Record<string, any>
 
 export function listAllowedDirectories(): string[] {
     return [
-        ...allowedDirectories,
-        `RESTRICTED: ${path.join(os.homedir(), 'Desktop')} (Desktop access is disabled)`
+        ...getAllowedRoots().map(root => `${root.path} (${root.mode})`),
+        ...getServerConfig().deniedPaths.map(pattern => `DENIED: ${pattern} (not accessible in any directory)`)
     ];
 }
 
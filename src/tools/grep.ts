@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import { isAccessible, validatePath } from './filesystem.js';
+import { DEFAULT_GREP_MAX_MATCHES } from '../config.js';
+import { getServerConfig } from '../server-config.js';
+import { decodeText } from '../utils/encoding.js';
+import { detectFileType, SNIFF_BYTES } from '../utils/file-type.js';
+import { matchesGlob, walkTree } from '../utils/file-walk.js';
+import { CaseSensitivity, GrepLine, GrepOptions, GrepResult } from '../types.js';
+
+// Files larger than this are skipped rather than read into memory
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// Characters of a line that are returned, since minified files have very long lines
+const MAX_LINE_LENGTH = 500;
+
+/**
+ * Searches the text files in a directory, or a single file, for lines
+ * matching a pattern. Directories are walked in name order without following
+ * symlinks, skipping the searchExclude paths, paths ignored by .gitignore
+ * files, paths outside the allowed directories and denied paths. Binary
+ * files and files over 10 MB are skipped. At most maxMatches lines are
+ * returned after skipping offset of them, and the walk stops there, so that
+ * a large tree can be searched one page at a time. Each page searches the
+ * files of the earlier pages again to skip their matches, so later pages
+ * take longer.
+ */
+export async function grepFiles(options: GrepOptions): Promise<GrepResult> {
+  const {
+    pattern,
+    regex = false,
+    caseSensitivity = 'smart',
+    include = [],
+    exclude = [],
+    before = 0,
+    after = 0,
+    gitignore = true,
+    maxMatches = DEFAULT_GREP_MAX_MATCHES,
+    offset = 0
+  } = options;
+  if (pattern === '') {
+    throw new Error('Empty patterns are not allowed');
+  }
+  const matcher = buildMatcher(pattern, regex, caseSensitivity);
+
+  const root = await validatePath(options.path);
+  const isDirectory = (await fs.stat(root)).isDirectory();
+  const files = isDirectory ? findFiles(root, include, [...getServerConfig().searchExclude, ...exclude], gitignore) : [root];
+
+  const result: GrepResult = { lines: [], matchCount: 0, filesSearched: 0, filesSkipped: 0 };
+  let matchesSkipped = 0;
+  let done = false;
+  for await (const file of files) {
+    const content = await readText(file);
+    if (content === undefined) {
+      result.filesSkipped++;
+      continue;
+    }
+    result.filesSearched++;
+
+    const lines = content.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    const shown = new Map<number, GrepLine>();
+    for (let index = 0; index < lines.length; index++) {
+      const column = lines[index].search(matcher);
+      if (column === -1) {
+        continue;
+      }
+      if (matchesSkipped < offset) {
+        matchesSkipped++;
+        continue;
+      }
+      if (result.matchCount === maxMatches) {
+        result.nextOffset = offset + maxMatches;
+        done = true;
+        break;
+      }
+
+      result.matchCount++;
+      for (let context = Math.max(0, index - before); context <= Math.min(lines.length - 1, index + after); context++) {
+        if (!shown.has(context)) {
+          shown.set(context, { file, line: context + 1, text: truncate(lines[context]) });
+        }
+      }
+      shown.set(index, { file, line: index + 1, column: column + 1, text: truncate(lines[index]) });
+    }
+
+    result.lines.push(...Array.from(shown.values()).sort((a, b) => a.line - b.line));
+    if (done) {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Formats the lines found like grep -n: path:line:column:text for matching
+ * lines and path-line-text for context, with -- between lines that aren't
+ * adjacent when there is context. A summary of the search ends the text.
+ */
+export function formatGrepResult(result: GrepResult, withContext: boolean): string {
+  const output: string[] = [];
+  result.lines.forEach((line, index) => {
+    const previous = result.lines[index - 1];
+    if (withContext && previous && (previous.file !== line.file || previous.line + 1 !== line.line)) {
+      output.push('--');
+    }
+    output.push(line.column === undefined
+      ? `${line.file}-${line.line}-${line.text}`
+      : `${line.file}:${line.line}:${line.column}:${line.text}`);
+  });
+
+  const matchedFiles = new Set(result.lines.filter(line => line.column !== undefined).map(line => line.file)).size;
+  let summary = result.matchCount === 0
+    ? `[No matches found in ${result.filesSearched} files searched`
+    : `[${result.matchCount} matching lines in ${matchedFiles} files, ${result.filesSearched} files searched`;
+  if (result.filesSkipped > 0) {
+    summary += `, ${result.filesSkipped} binary or large files skipped`;
+  }
+  summary += result.nextOffset !== undefined
+    ? `; there are more matches, search again with offset ${result.nextOffset} to continue]`
+    : ']';
+  output.push(summary);
+  return output.join('\n');
+}
+
+/**
+ * A regular expression for the pattern. Smart case ignores case unless the
+ * pattern has an uppercase letter, not counting escapes such as \W.
+ */
+function buildMatcher(pattern: string, regex: boolean, caseSensitivity: CaseSensitivity): RegExp {
+  const source = regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const ignoreCase = caseSensitivity === 'insensitive' ||
+    (caseSensitivity === 'smart' && !/\p{Lu}/u.test(regex ? pattern.replace(/\\./g, '') : pattern));
+  return new RegExp(source, ignoreCase ? 'i' : '');
+}
+
+async function* findFiles(root: string, include: string[], exclude: string[], gitignore: boolean): AsyncGenerator<string> {
+  for await (const entry of walkTree(root, { exclude, gitignore, isAccessible })) {
+    if (entry.type === 'file' && (include.length === 0 || include.some(glob => matchesGlob(entry.relative, glob)))) {
+      yield entry.path;
+    }
+  }
+}
+
+// The text of a file, or undefined if it is too large or binary
+async function readText(file: string): Promise<string | undefined> {
+  try {
+    if ((await fs.stat(file)).size > MAX_FILE_BYTES) {
+      return undefined;
+    }
+    const content = await fs.readFile(file);
+    if (detectFileType(content.subarray(0, SNIFF_BYTES)).kind !== 'text') {
+      return undefined;
+    }
+    return decodeText(content).text;
+  } catch {
+    return undefined;
+  }
+}
+
+function truncate(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)} [${line.length - MAX_LINE_LENGTH} more characters]`
+    : line;
+}
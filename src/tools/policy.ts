@@ -0,0 +1,148 @@
+import { commandManager } from '../command-manager.js';
+import { ALLOW_POLICY_CHANGES_FLAG } from '../config.js';
+import { describeRule, describeFileRule } from '../utils/command-policy.js';
+import {
+  BlockCommandArgsSchema,
+  UnblockCommandArgsSchema,
+  GetPolicyArgsSchema,
+  SetPolicyArgsSchema,
+} from './schemas.js';
+
+function assertPolicyChangesAllowed(): void {
+  if (!commandManager.canChangePolicy()) {
+    throw new Error(
+      `Policy changes are disabled. The operator can allow them by starting the server with ${ALLOW_POLICY_CHANGES_FLAG}`
+    );
+  }
+}
+
+function formatPolicy(): string {
+  const policy = commandManager.getPolicy();
+  const blocked = commandManager.listBlockedCommands();
+  const lines = [
+    `Mode: ${policy.mode}`,
+    `Policy changes: ${commandManager.canChangePolicy() ? 'allowed' : `disabled (start the server with ${ALLOW_POLICY_CHANGES_FLAG} to allow them)`}`,
+    `Blocked commands: ${blocked.length > 0 ? blocked.join(', ') : 'none'}`,
+  ];
+
+  if (policy.mode === 'allowlist') {
+    lines.push(`Allowed commands: ${policy.allowedCommands.length > 0 ? policy.allowedCommands.join(', ') : 'none'}`);
+  }
+
+  lines.push(policy.rules.length > 0 ? 'Command rules, first match wins:' : 'Command rules: none');
+  policy.rules.forEach((rule, index) => {
+    lines.push(`  ${index + 1}. ${describeRule(rule)}${rule.reason ? `: ${rule.reason}` : ''}`);
+  });
+
+  lines.push(policy.fileRules.length > 0 ? 'File rules, first match wins:' : 'File rules: none');
+  policy.fileRules.forEach((rule, index) => {
+    lines.push(`  ${index + 1}. ${describeFileRule(rule)}${rule.reason ? `: ${rule.reason}` : ''}`);
+  });
+
+  return lines.join('\n');
+}
+
+export async function getPolicy(args: unknown) {
+  const parsed = GetPolicyArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for get_policy: ${parsed.error}`);
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: parsed.data.format === 'json'
+        ? JSON.stringify({
+          ...commandManager.getPolicy(),
+          blockedCommands: commandManager.listBlockedCommands(),
+          changesAllowed: commandManager.canChangePolicy()
+        }, null, 2)
+        : formatPolicy()
+    }],
+  };
+}
+
+export async function blockCommand(args: unknown) {
+  const parsed = BlockCommandArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for block_command: ${parsed.error}`);
+  }
+
+  try {
+    assertPolicyChangesAllowed();
+    const added = await commandManager.blockCommand(parsed.data.command);
+    return {
+      content: [{
+        type: "text",
+        text: added
+          ? `Blocked "${parsed.data.command}"`
+          : `"${parsed.data.command}" is already blocked`
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error blocking command: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function unblockCommand(args: unknown) {
+  const parsed = UnblockCommandArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for unblock_command: ${parsed.error}`);
+  }
+
+  try {
+    assertPolicyChangesAllowed();
+    const removed = await commandManager.unblockCommand(parsed.data.command);
+    return {
+      content: [{
+        type: "text",
+        text: removed
+          ? `Unblocked "${parsed.data.command}"`
+          : `"${parsed.data.command}" is not blocked`
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error unblocking command: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function setPolicy(args: unknown) {
+  const parsed = SetPolicyArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for set_policy: ${parsed.error}`);
+  }
+
+  try {
+    assertPolicyChangesAllowed();
+    await commandManager.updatePolicy(parsed.data.policy);
+    return {
+      content: [{
+        type: "text",
+        text: `Command policy updated.\n${formatPolicy()}`
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error updating command policy: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
@@ -1,21 +1,92 @@
 import { z } from "zod";
+import { CommandPolicySchema } from "../utils/command-policy.js";
+import { TEXT_ENCODINGS } from "../utils/encoding.js";
+import { DEFAULT_GREP_MAX_MATCHES, DEFAULT_SEARCH_MAX_RESULTS } from "../config.js";
 
 // Terminal tools schemas
 export const ExecuteCommandArgsSchema = z.object({
   command: z.string(),
   timeout_ms: z.number().optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional().default('merge'),
+  shell: z.enum(['bash', 'sh', 'zsh', 'none']).optional(),
+  args: z.array(z.string()).optional(),
+  limits: z.object({
+    max_runtime_ms: z.number().positive().optional(),
+    max_cpu_seconds: z.number().positive().optional(),
+    max_memory_mb: z.number().positive().optional(),
+    max_output_bytes: z.number().int().positive().optional(),
+    max_open_files: z.number().int().positive().optional(),
+  }).optional(),
+  normalize: z.union([
+    z.boolean(),
+    z.object({
+      strip_ansi: z.boolean().optional().default(true),
+      carriage_returns: z.boolean().optional().default(true),
+      collapse_repeats: z.boolean().optional().default(true),
+    }),
+  ]).optional(),
+  max_bytes: z.number().int().nonnegative().optional(),
+  max_lines: z.number().int().nonnegative().optional(),
+  interleaved: z.boolean().optional().default(false),
+  format: z.enum(['text', 'json']).optional().default('text'),
 });
 
 export const ReadOutputArgsSchema = z.object({
+  pid: z.number().optional(),
+  session_id: z.number().optional(),
+  mode: z.enum(['new', 'all', 'head', 'tail', 'range', 'grep']).optional().default('new'),
+  cursor: z.number().optional(),
+  lines: z.number().optional(),
+  offset: z.number().optional(),
+  length: z.number().optional(),
+  pattern: z.string().optional(),
+  ignore_case: z.boolean().optional(),
+  context: z.number().optional(),
+  max_matches: z.number().optional(),
+  raw: z.boolean().optional().default(false),
+  max_bytes: z.number().int().nonnegative().optional(),
+  max_lines: z.number().int().nonnegative().optional(),
+  interleaved: z.boolean().optional().default(false),
+  format: z.enum(['text', 'json']).optional().default('text'),
+});
+
+export const SendInputArgsSchema = z.object({
+  pid: z.number(),
+  input: z.string().optional().default(''),
+  newline: z.boolean().optional(),
+  eof: z.boolean().optional().default(false),
+  control: z.enum(['ctrl-c', 'ctrl-d', 'ctrl-z', 'ctrl-\\']).optional(),
+  wait_ms: z.number().optional(),
+});
+
+export const WaitForArgsSchema = z.object({
   pid: z.number(),
+  pattern: z.string().optional(),
+  ignore_case: z.boolean().optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  host: z.string().optional(),
+  timeout_ms: z.number().optional(),
 });
 
 export const ForceTerminateArgsSchema = z.object({
   pid: z.number(),
+  signal: z.enum(['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT', 'SIGKILL']).optional(),
+  grace_ms: z.number().optional(),
 });
 
 export const ListSessionsArgsSchema = z.object({});
 
+export const SessionHistoryArgsSchema = z.object({
+  failed_only: z.boolean().optional().default(false),
+  command: z.string().optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().positive().optional(),
+  format: z.enum(['text', 'json']).optional().default('text'),
+});
+
 export const KillProcessArgsSchema = z.object({
   pid: z.number(),
 });
@@ -28,9 +99,56 @@ export const UnblockCommandArgsSchema = z.object({
   command: z.string(),
 });
 
+export const GetPolicyArgsSchema = z.object({
+  format: z.enum(['text', 'json']).optional().default('text'),
+});
+
+export const SetPolicyArgsSchema = z.object({
+  policy: CommandPolicySchema,
+});
+
+export const ConfirmActionArgsSchema = z.object({
+  token: z.string(),
+  cancel: z.boolean().optional().default(false),
+});
+
+export const GetConfigArgsSchema = z.object({});
+
+// Shell session tools schemas
+export const CreateShellSessionArgsSchema = z.object({
+  name: z.string().min(1),
+  shell: z.enum(['bash', 'sh', 'zsh']).optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+});
+
+export const RunInShellSessionArgsSchema = z.object({
+  name: z.string(),
+  command: z.string(),
+  timeout_ms: z.number().optional(),
+});
+
+export const ReadShellOutputArgsSchema = z.object({
+  name: z.string(),
+});
+
+export const ListShellSessionsArgsSchema = z.object({});
+
+export const CloseShellSessionArgsSchema = z.object({
+  name: z.string(),
+});
+
 // Filesystem tools schemas
 export const ReadFileArgsSchema = z.object({
   path: z.string(),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  offset: z.number().int().nonnegative().optional(),
+  length: z.number().int().nonnegative().optional(),
+  tail: z.number().int().positive().optional(),
+  lineNumbers: z.boolean().optional().default(false),
+  full: z.boolean().optional().default(false),
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
 });
 
 // Removed multi-file reading schema
@@ -38,6 +156,10 @@ export const ReadFileArgsSchema = z.object({
 export const WriteFileArgsSchema = z.object({
   path: z.string(),
   content: z.string(),
+  // base64 content is decoded and written as bytes, for binary files
+  contentEncoding: z.enum(['text', 'base64']).optional().default('text'),
+  // Text is written in the format of the file it replaces unless this is set
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
   options: z.object({
     createDirectories: z.boolean().optional().default(false),
   }).optional(),
@@ -59,6 +181,31 @@ export const MoveFileArgsSchema = z.object({
 export const SearchFilesArgsSchema = z.object({
   path: z.string(),
   pattern: z.string(),
+  mode: z.enum(['substring', 'glob']).optional().default('substring'),
+  type: z.enum(['file', 'directory', 'symlink']).optional(),
+  minSize: z.number().int().nonnegative().optional(),
+  maxSize: z.number().int().nonnegative().optional(),
+  modifiedAfter: z.string().optional(),
+  modifiedBefore: z.string().optional(),
+  exclude: z.array(z.string()).optional(),
+  gitignore: z.boolean().optional().default(false),
+  maxResults: z.number().int().positive().optional().default(DEFAULT_SEARCH_MAX_RESULTS),
+});
+
+export const GrepArgsSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  regex: z.boolean().optional().default(false),
+  caseSensitivity: z.enum(['smart', 'sensitive', 'insensitive']).optional().default('smart'),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  // Sets both before and after
+  context: z.number().int().nonnegative().optional(),
+  before: z.number().int().nonnegative().optional(),
+  after: z.number().int().nonnegative().optional(),
+  gitignore: z.boolean().optional().default(true),
+  maxMatches: z.number().int().positive().optional().default(DEFAULT_GREP_MAX_MATCHES),
+  offset: z.number().int().nonnegative().optional().default(0),
 });
 
 export const GetFileInfoArgsSchema = z.object({
@@ -68,6 +215,7 @@ export const GetFileInfoArgsSchema = z.object({
 // Edit tools schemas
 export const EditBlockArgsSchema = z.object({
   blockContent: z.string(),
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
 });
 
 // Bulk file operations schemas removed
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { shellSessionManager } from '../shell-session-manager.js';
+import { commandManager } from '../command-manager.js';
+import { confirmationManager } from '../confirmation-manager.js';
+import { pendingActionResponse } from './confirm.js';
+import { validatePath } from './filesystem.js';
+import { ShellCommandResult, ToolResponse } from '../types.js';
+import {
+  CreateShellSessionArgsSchema,
+  RunInShellSessionArgsSchema,
+  ReadShellOutputArgsSchema,
+  CloseShellSessionArgsSchema,
+} from './schemas.js';
+
+function formatCommandResult(result: ShellCommandResult): string {
+  let text = '';
+
+  if (result.stdout) {
+    text += result.stdout.endsWith('\n') ? result.stdout : `${result.stdout}\n`;
+  }
+  if (result.stderr) {
+    text += `stderr:\n${result.stderr.endsWith('\n') ? result.stderr : `${result.stderr}\n`}`;
+  }
+  if (!text) {
+    text = result.isRunning ? 'No new output available.\n' : 'No output.\n';
+  }
+
+  text += formatLimitStatus(result);
+  if (result.isRunning) {
+    text += `Command is still running in session "${result.session}". Use desktop_shell_output to get more output.`;
+  } else if (result.shellExited) {
+    text += `Shell exited with code ${result.exitCode}. Session "${result.session}" is closed.`;
+  } else {
+    text += `Exit code: ${result.exitCode}\nWorking directory: ${result.cwd}`;
+  }
+
+  return text;
+}
+
+/**
+ * Explains which limit stopped the command. Runtime and output limits are
+ * enforced by killing the session, since the command runs in its shell.
+ */
+function formatLimitStatus(result: ShellCommandResult): string {
+  const { limits } = result;
+  switch (result.limitExceeded) {
+    case 'runtime':
+      return `Limit exceeded: killed with the session after reaching the maximum runtime of ${limits.maxRuntimeMs}ms\n`;
+    case 'cpu':
+      return `Limit exceeded: killed after using more than ${limits.maxCpuSeconds}s of CPU time\n`;
+    case 'output':
+      return `Limit exceeded: killed with the session after producing more than ${limits.maxOutputBytes} bytes of output\n`;
+  }
+  return '';
+}
+
+export async function createShellSession(args: unknown) {
+  const parsed = CreateShellSessionArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for create_shell_session: ${parsed.error}`);
+  }
+
+  try {
+    const { name, shell, env } = parsed.data;
+    const cwd = parsed.data.cwd ? await validatePath(parsed.data.cwd) : undefined;
+    const info = shellSessionManager.createSession(name, { shell, cwd, env });
+
+    return {
+      content: [{
+        type: "text",
+        text: `Created ${info.shell} session "${info.name}" (PID ${info.pid}) in ${info.cwd}`
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error creating shell session: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function runInShellSession(args: unknown, { confirmed = false }: { confirmed?: boolean } = {}): Promise<ToolResponse> {
+  const parsed = RunInShellSessionArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for run_in_shell_session: ${parsed.error}`);
+  }
+
+  try {
+    const validation = commandManager.checkCommand(
+      parsed.data.command,
+      shellSessionManager.getCwd(parsed.data.name)
+    );
+    if (validation.action === 'deny') {
+      throw new Error(`Command not allowed: ${validation.reason}`);
+    }
+    if (validation.action === 'confirm' && !confirmed) {
+      return pendingActionResponse(confirmationManager.request(
+        `run \`${parsed.data.command}\` in shell session "${parsed.data.name}"`,
+        validation.reason,
+        () => runInShellSession(parsed.data, { confirmed: true })
+      ));
+    }
+
+    const result = await shellSessionManager.runCommand(
+      parsed.data.name,
+      parsed.data.command,
+      parsed.data.timeout_ms
+    );
+
+    return {
+      content: [{
+        type: "text",
+        text: formatCommandResult(result)
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error running command in shell session: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function readShellOutput(args: unknown) {
+  const parsed = ReadShellOutputArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for read_shell_output: ${parsed.error}`);
+  }
+
+  try {
+    const result = shellSessionManager.readOutput(parsed.data.name);
+
+    if (result === null) {
+      return {
+        content: [{
+          type: "text",
+          text: `No shell session named "${parsed.data.name}"`
+        }],
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: formatCommandResult(result)
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error reading shell output: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function listShellSessions() {
+  try {
+    const sessions = shellSessionManager.listSessions();
+
+    if (sessions.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: 'No shell sessions'
+        }],
+      };
+    }
+
+    const formattedSessions = sessions.map(s => {
+      const runtimeSeconds = Math.round(s.runtime / 1000);
+      return `Name: ${s.name}, PID: ${s.pid}, Shell: ${s.shell}, Status: ${s.isBusy ? 'Busy' : 'Idle'}, ` +
+        `Commands: ${s.commandCount}, Cwd: ${s.cwd}, Runtime: ${runtimeSeconds}s`;
+    }).join('\n');
+
+    return {
+      content: [{
+        type: "text",
+        text: formattedSessions
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error listing shell sessions: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function closeShellSession(args: unknown) {
+  const parsed = CloseShellSessionArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for close_shell_session: ${parsed.error}`);
+  }
+
+  try {
+    const success = shellSessionManager.closeSession(parsed.data.name);
+
+    return {
+      content: [{
+        type: "text",
+        text: success
+          ? `Closed shell session "${parsed.data.name}"`
+          : `No shell session named "${parsed.data.name}"`
+      }],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{
+        type: "text",
+        text: `Error closing shell session: ${errorMessage}`
+      }],
+      isError: true
+    };
+  }
+}
@@ -1,4 +1,7 @@
 import { ChildProcess } from 'child_process';
+import { OutputBuffer } from './utils/output-buffer.js';
+import { TextEncoding, TextFormat } from './utils/encoding.js';
+import { EntryType } from './utils/file-walk.js';
 
 export interface ProcessInfo {
   pid: number;
@@ -7,31 +10,339 @@ export interface ProcessInfo {
   memory: string;
 }
 
+export type PolicyAction = 'allow' | 'deny' | 'confirm';
+
+export type FileOperation = 'write' | 'edit' | 'move' | 'mkdir';
+
+export interface FileOperationRequest {
+  operation: FileOperation;
+  // Absolute paths, the source first for moves
+  paths: string[];
+  // Whether the operation acts on an existing directory
+  directory: boolean;
+}
+
+// Decision of the command policy on a command line or filesystem operation
+export interface CommandValidation {
+  // Only true when the action is 'allow'
+  allowed: boolean;
+  action: PolicyAction;
+  // Why the decision was made, naming the deciding part of the command line
+  reason: string;
+}
+
 export interface TerminalSession {
+  id: number;
   pid: number;
+  command: string;
+  cwd: string;
   process: ChildProcess;
-  stdoutChunks: Buffer[];
-  stderrChunks: Buffer[];
+  output: OutputBuffer;
+  readCursor: number;
   isBlocked: boolean;
   startTime: Date;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+  normalize?: OutputNormalization;
+}
+
+export type CommandShell = 'bash' | 'sh' | 'zsh' | 'none';
+
+export interface ResourceLimits {
+  maxRuntimeMs?: number;
+  maxCpuSeconds?: number;
+  maxMemoryMb?: number;
+  maxOutputBytes?: number;
+  maxOpenFiles?: number;
+}
+
+export interface OutputNormalization {
+  stripAnsi: boolean;
+  carriageReturns: boolean;
+  collapseRepeats: boolean;
+}
+
+export type ResourceLimitKind = 'runtime' | 'cpu' | 'output';
+
+export interface ExecuteOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  envMode?: 'merge' | 'replace';
+  shell?: CommandShell;
+  args?: string[];
+  limits?: ResourceLimits;
+  normalize?: OutputNormalization;
 }
 
 export interface CommandExecutionResult {
+  id: number;
   pid: number;
   output: string;
+  stdout: string;
+  stderr: string;
   isBlocked: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startTime: Date;
+  endTime: Date | null;
+  truncated: boolean;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+  normalized: boolean;
+}
+
+export type ControlSequence = 'ctrl-c' | 'ctrl-d' | 'ctrl-z' | 'ctrl-\\';
+
+export interface SendInputOptions {
+  newline?: boolean;
+  eof?: boolean;
+  control?: ControlSequence;
+  waitMs?: number;
+}
+
+export type OutputReadMode = 'new' | 'all' | 'head' | 'tail' | 'range' | 'grep';
+
+export interface ReadOutputOptions {
+  mode?: OutputReadMode;
+  cursor?: number;
+  lines?: number;
+  offset?: number;
+  length?: number;
+  pattern?: string;
+  ignoreCase?: boolean;
+  context?: number;
+  maxMatches?: number;
+  raw?: boolean;
+}
+
+export interface OutputReadResult {
+  id: number;
+  pid: number;
+  mode: OutputReadMode;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  totalBytes: number;
+  retainedFrom: number;
+  totalLines: number;
+  stdout: string;
+  stderr: string;
+  matchCount?: number;
+  isRunning: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startTime: Date;
+  endTime: Date | null;
+  runtime: number;
+  truncated: boolean;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+  normalized: boolean;
+}
+
+export interface WaitConditions {
+  pattern?: string;
+  ignoreCase?: boolean;
+  port?: number;
+  host?: string;
+  timeoutMs?: number;
+}
+
+export type WaitCondition = 'pattern' | 'exit' | 'port' | 'timeout';
+
+export interface WaitResult {
+  pid: number;
+  condition: WaitCondition;
+  excerpt: string;
+  matchLine?: number;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  elapsed: number;
+}
+
+export interface TerminateOptions {
+  signal?: NodeJS.Signals;
+  graceMs?: number;
 }
 
 export interface ActiveSession {
+  id: number;
   pid: number;
+  command: string;
   isBlocked: boolean;
   runtime: number;
 }
 
+export interface SessionHistoryEntry {
+  id: number;
+  pid: number;
+  command: string;
+  cwd: string;
+  isRunning: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  limitExceeded: ResourceLimitKind | null;
+  startTime: Date;
+  endTime: Date | null;
+  duration: number;
+  outputBytes: number;
+  outputAvailable: boolean;
+}
+
+export interface SessionHistoryFilter {
+  failedOnly?: boolean;
+  command?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface SessionHistory {
+  entries: SessionHistoryEntry[];
+  totalMatches: number;
+  droppedEntries: number;
+}
+
 export interface CompletedSession {
   pid: number;
   output: string;
   exitCode: number | null;
   startTime: Date;
   endTime: Date;
-}
\ No newline at end of file
+}
+export type SessionShell = 'bash' | 'sh' | 'zsh';
+
+export interface ShellSessionInfo {
+  name: string;
+  pid: number;
+  shell: SessionShell;
+  cwd: string;
+  isBusy: boolean;
+  commandCount: number;
+  runtime: number;
+}
+
+export interface ShellCommandResult {
+  session: string;
+  command: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  cwd: string;
+  isRunning: boolean;
+  shellExited: boolean;
+  limits: ResourceLimits;
+  limitExceeded: ResourceLimitKind | null;
+}
+
+export interface ToolResponse {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+export interface PendingActionInfo {
+  token: string;
+  // What will run once confirmed
+  summary: string;
+  // Why confirmation is needed
+  reason: string;
+  expiresAt: Date;
+}
+
+export interface FileReadOptions {
+  // 1-based and inclusive
+  startLine?: number;
+  endLine?: number;
+  // Bytes from the start of the file
+  offset?: number;
+  length?: number;
+  // Last lines of the file
+  tail?: number;
+  lineNumbers?: boolean;
+  // Return content larger than maxReadBytes instead of a summary
+  full?: boolean;
+  // Read the file as text in this encoding instead of the one detected
+  encoding?: TextEncoding;
+}
+
+export interface FileReadResult {
+  // The content read, or a summary if it is too large to return
+  text: string;
+  isSummary: boolean;
+  size: number;
+  // 0 for binary files, and unset for byte ranges and tails, whose reads don't count every line
+  totalLines?: number;
+  // Describes the part of the file that was read, when it isn't all of it
+  note?: string;
+  // Set for images, which are returned as MCP image content
+  image?: { data: string; mimeType: string };
+  // Set for text, as found from the start of the file
+  format?: TextFormat;
+}
+
+export type CaseSensitivity = 'sensitive' | 'insensitive' | 'smart';
+
+export interface GrepOptions {
+  // The directory to search, or a single file
+  path: string;
+  pattern: string;
+  // Treat pattern as a JavaScript regular expression instead of literal text
+  regex?: boolean;
+  // smart ignores case unless the pattern has an uppercase letter
+  caseSensitivity?: CaseSensitivity;
+  // Globs of the files to search and to skip; globs without a slash match file names
+  include?: string[];
+  exclude?: string[];
+  // Lines shown before and after each matching line
+  before?: number;
+  after?: number;
+  // Skip the files and directories that .gitignore files ignore
+  gitignore?: boolean;
+  // Matching lines returned per call, after skipping offset of them
+  maxMatches?: number;
+  offset?: number;
+}
+
+export interface GrepLine {
+  file: string;
+  // 1-based
+  line: number;
+  // 1-based column of the first match, unset for context lines
+  column?: number;
+  text: string;
+}
+
+export interface GrepResult {
+  // Matching lines with their context, grouped by file in the order found
+  lines: GrepLine[];
+  matchCount: number;
+  filesSearched: number;
+  // Files skipped as binary or too large
+  filesSkipped: number;
+  // The offset to continue from, set when there are more matches
+  nextOffset?: number;
+}
+
+export interface FileSearchOptions {
+  // substring matches names containing the pattern, ignoring case; glob
+  // matches paths relative to the directory searched
+  mode?: 'substring' | 'glob';
+  type?: EntryType;
+  // Bytes; only files match a size filter
+  minSize?: number;
+  maxSize?: number;
+  // Dates such as 2024-05-01, or durations before now such as 7d
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  // Globs of paths to skip as well as the searchExclude setting
+  exclude?: string[];
+  // Skip the paths that .gitignore files ignore
+  gitignore?: boolean;
+  maxResults?: number;
+}
+
+export interface FileSearchResult {
+  paths: string[];
+  // Whether the search stopped at maxResults with more paths left to find
+  truncated: boolean;
+}
@@ -0,0 +1,257 @@
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { CommandValidation, FileOperationRequest, PolicyAction } from '../types.js';
+import { CommandInvocation } from './shell-parser.js';
+import { isPathWithin } from './path-containment.js';
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const CommandRuleSchema = z.object({
+  // Executable name, or "*" for any command
+  command: z.string().min(1),
+  // Regular expressions that must each match at least one argument
+  args: z.array(z.string().refine(isValidRegex, { message: 'Invalid regular expression' })).optional(),
+  // Directories the rule is limited to, including their subdirectories
+  directories: z.array(z.string().min(1)).optional(),
+  action: z.enum(['allow', 'deny', 'confirm']),
+  reason: z.string().optional(),
+});
+
+export const FileRuleSchema = z.object({
+  operation: z.enum(['write', 'edit', 'move', 'mkdir', '*']),
+  // Directories the rule is limited to; any path of the operation may match
+  paths: z.array(z.string().min(1)).optional(),
+  // Only match operations on an existing directory, such as moving it with its contents
+  directory: z.boolean().optional(),
+  action: z.enum(['allow', 'deny', 'confirm']),
+  reason: z.string().optional(),
+});
+
+export const CommandPolicySchema = z.object({
+  // In allowlist mode only allowedCommands and commands allowed by a rule may run
+  mode: z.enum(['blocklist', 'allowlist']).default('blocklist'),
+  allowedCommands: z.array(z.string()).default([]),
+  rules: z.array(CommandRuleSchema).default([]),
+  // Filesystem operations that no rule matches are allowed
+  fileRules: z.array(FileRuleSchema).default([]),
+});
+
+export type CommandRule = z.infer<typeof CommandRuleSchema>;
+export type FileRule = z.infer<typeof FileRuleSchema>;
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = { mode: 'blocklist', allowedCommands: [], rules: [], fileRules: [] };
+
+// Builtins that give a command another name, with the test for the arguments
+// that do so. Commands run by the new name can't be checked, in this command
+// line or in later commands of a shell session.
+const RENAMING_BUILTINS: Record<string, (args: string[]) => boolean> = {
+  alias: args => args.some(arg => arg.includes('=')),
+  hash: args => args.some(arg => /^-[a-z]*p/.test(arg)),
+  enable: args => args.some(arg => /^-[a-z]*f/.test(arg)),
+};
+
+interface InvocationDecision {
+  action: PolicyAction;
+  reason: string;
+}
+
+/**
+ * Decides whether a command line may run, given every command it would run.
+ * Each command is decided by the first rule that matches it, and otherwise
+ * by the blocked commands or, in allowlist mode, the allowed commands. The
+ * command line is denied if any command is denied, needs confirmation if any
+ * command does, and is allowed otherwise.
+ */
+export function evaluateCommandPolicy(
+  invocations: CommandInvocation[],
+  policy: CommandPolicy,
+  blockedCommands: Set<string>,
+  cwd: string
+): CommandValidation {
+  const decisions = invocations.map(invocation =>
+    decideInvocation(invocation, policy, blockedCommands, cwd));
+
+  for (const action of ['deny', 'confirm'] as const) {
+    const decisive = decisions.filter(decision => decision.action === action);
+    if (decisive.length > 0) {
+      return { allowed: false, action, reason: unique(decisive.map(decision => decision.reason)).join('; ') };
+    }
+  }
+
+  const reasons = unique(decisions.map(decision => decision.reason));
+  return {
+    allowed: true,
+    action: 'allow',
+    reason: reasons.length > 0 ? reasons.join('; ') : 'the command line runs no commands'
+  };
+}
+
+function decideInvocation(
+  invocation: CommandInvocation,
+  policy: CommandPolicy,
+  blockedCommands: Set<string>,
+  cwd: string
+): InvocationDecision {
+  const where = `in "${invocation.segment}"`;
+
+  // A name or script produced by an expansion could be anything, such as a
+  // blocked command kept in a variable
+  if (invocation.dynamic) {
+    return {
+      action: 'deny',
+      reason: `the command name "${invocation.argv[0]}" is computed when it runs, ${where}`
+    };
+  }
+  if (invocation.dynamicScript !== undefined) {
+    return {
+      action: 'deny',
+      reason: `the command string "${invocation.dynamicScript}" of "${invocation.name}" is computed when it runs, ${where}`
+    };
+  }
+  if (invocation.stdinScript) {
+    return {
+      action: 'deny',
+      reason: `"${invocation.name}" reads the commands it runs from its input, ${where}`
+    };
+  }
+  if (RENAMING_BUILTINS[invocation.name]?.(invocation.argv.slice(1))) {
+    return {
+      action: 'deny',
+      reason: `"${invocation.name}" gives a command another name, which can't be checked, ${where}`
+    };
+  }
+
+  const index = policy.rules.findIndex(rule => ruleMatches(rule, invocation, cwd));
+  if (index !== -1) {
+    const rule = policy.rules[index];
+    const verb = { allow: 'is allowed', deny: 'is denied', confirm: 'needs confirmation' }[rule.action];
+    const because = rule.reason ? `: ${rule.reason}` : '';
+    return {
+      action: rule.action,
+      reason: `"${invocation.name}" ${where} ${verb} by rule ${index + 1} (${describeRule(rule)})${because}`
+    };
+  }
+
+  const blocked = findBlockedEntry(invocation, blockedCommands);
+  if (blocked) {
+    return { action: 'deny', reason: `"${blocked}" is blocked, ${where}` };
+  }
+
+  if (policy.mode === 'allowlist' && !policy.allowedCommands.some(name => name.toLowerCase() === invocation.name)) {
+    return { action: 'deny', reason: `"${invocation.name}" is not in the allowlist, ${where}` };
+  }
+
+  return {
+    action: 'allow',
+    reason: policy.mode === 'allowlist' ? `"${invocation.name}" is in the allowlist` : `"${invocation.name}" is not blocked`
+  };
+}
+
+/**
+ * Decides whether a filesystem operation may run. The first file rule that
+ * matches decides; operations that no rule matches are allowed.
+ */
+export function evaluateFileOperation(request: FileOperationRequest, policy: CommandPolicy): CommandValidation {
+  const description = `${request.operation} of ${request.paths.join(' to ')}`;
+  const index = policy.fileRules.findIndex(rule => fileRuleMatches(rule, request));
+  if (index === -1) {
+    return { allowed: true, action: 'allow', reason: `no file rule matches the ${description}` };
+  }
+
+  const rule = policy.fileRules[index];
+  const verb = { allow: 'is allowed', deny: 'is denied', confirm: 'needs confirmation' }[rule.action];
+  const because = rule.reason ? `: ${rule.reason}` : '';
+  return {
+    allowed: rule.action === 'allow',
+    action: rule.action,
+    reason: `the ${description} ${verb} by file rule ${index + 1} (${describeFileRule(rule)})${because}`
+  };
+}
+
+function fileRuleMatches(rule: FileRule, request: FileOperationRequest): boolean {
+  if (rule.operation !== '*' && rule.operation !== request.operation) {
+    return false;
+  }
+  if (rule.directory && !request.directory) {
+    return false;
+  }
+  if (rule.paths && !request.paths.some(target =>
+    rule.paths!.some(directory => isWithinDirectory(target, expandHome(directory))))) {
+    return false;
+  }
+  return true;
+}
+
+export function describeFileRule(rule: FileRule): string {
+  let description = `${rule.action} ${rule.operation === '*' ? 'any operation' : rule.operation}`;
+  if (rule.directory) {
+    description += ' of directories';
+  }
+  if (rule.paths) {
+    description += ` in ${rule.paths.join(' or ')}`;
+  }
+  return description;
+}
+
+function ruleMatches(rule: CommandRule, invocation: CommandInvocation, cwd: string): boolean {
+  if (rule.command !== '*' && rule.command.toLowerCase() !== invocation.name) {
+    return false;
+  }
+
+  const args = invocation.argv.slice(1);
+  if (rule.args && !rule.args.every(pattern => args.some(arg => new RegExp(pattern).test(arg)))) {
+    return false;
+  }
+
+  if (rule.directories && !rule.directories.some(directory => isWithinDirectory(cwd, expandHome(directory)))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Blocked entries with several words, such as "rm -rf", match invocations
+ * whose arguments start with the same words
+ */
+function findBlockedEntry(invocation: CommandInvocation, blockedCommands: Set<string>): string | undefined {
+  const args = invocation.argv.slice(1).map(arg => arg.toLowerCase());
+  for (const entry of blockedCommands) {
+    const [name, ...entryArgs] = entry.split(/\s+/);
+    if (name === invocation.name && entryArgs.every((arg, index) => args[index] === arg)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+export function describeRule(rule: CommandRule): string {
+  let description = `${rule.action} ${rule.command === '*' ? 'any command' : rule.command}`;
+  if (rule.args) {
+    description += ` with arguments matching ${rule.args.map(pattern => `/${pattern}/`).join(' and ')}`;
+  }
+  if (rule.directories) {
+    description += ` in ${rule.directories.join(' or ')}`;
+  }
+  return description;
+}
+
+function expandHome(directory: string): string {
+  return directory === '~' || directory.startsWith('~/') ? path.join(os.homedir(), directory.slice(1)) : directory;
+}
+
+function isWithinDirectory(target: string, directory: string): boolean {
+  return isPathWithin(path.resolve(target), path.resolve(directory));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
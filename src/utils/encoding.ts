@@ -0,0 +1,170 @@
+// Encodings text files are read and written in
+export const TEXT_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'latin1'] as const;
+
+export type TextEncoding = typeof TEXT_ENCODINGS[number];
+
+export type LineEnding = '\n' | '\r\n';
+
+export interface TextFormat {
+  encoding: TextEncoding;
+  // Whether the file starts with a byte order mark
+  bom: boolean;
+  // Unset when the file mixes line endings or has none
+  lineEnding?: LineEnding;
+}
+
+const BYTE_ORDER_MARKS: Record<Exclude<TextEncoding, 'latin1'>, number[]> = {
+  'utf-8': [0xef, 0xbb, 0xbf],
+  'utf-16le': [0xff, 0xfe],
+  'utf-16be': [0xfe, 0xff]
+};
+
+const ENCODING_NAMES: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE',
+  'latin1': 'Latin-1'
+};
+
+/**
+ * Finds the encoding of text from its first bytes: by its byte order mark if
+ * it has one, otherwise as UTF-16 if every other byte is null as in mostly
+ * ASCII UTF-16, as UTF-8 if it is valid UTF-8, and as Latin-1 if not, since
+ * Latin-1 can decode any bytes and write them back unchanged. A sample that
+ * is truncated may end in part of a UTF-8 character.
+ */
+export function detectEncoding(sample: Buffer, truncated: boolean = false): { encoding: TextEncoding; bom: boolean } {
+  const withBom = (Object.keys(BYTE_ORDER_MARKS) as (keyof typeof BYTE_ORDER_MARKS)[])
+    .find(encoding => startsWithBom(sample, encoding));
+  if (withBom) {
+    return { encoding: withBom, bom: true };
+  }
+
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    return { encoding: utf16, bom: false };
+  }
+  return { encoding: isValidUtf8(sample, truncated) ? 'utf-8' : 'latin1', bom: false };
+}
+
+/** Valid UTF-8, apart from a character cut off at the end of a truncated sample */
+export function isValidUtf8(sample: Buffer, truncated: boolean = false): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decodes text, finding its encoding unless one is given, and returns it
+ * without its byte order mark along with the format to write it back in
+ */
+export function decodeText(content: Buffer, encoding?: TextEncoding): { text: string; format: TextFormat } {
+  const detected = encoding ?? detectEncoding(content).encoding;
+  const bom = detected !== 'latin1' && startsWithBom(content, detected);
+  const text = createDecoder(detected).decode(content);
+  return { text, format: { encoding: detected, bom, lineEnding: detectLineEnding(text) } };
+}
+
+/**
+ * Encodes text in a format, with its line endings changed to the format's.
+ * Latin-1 can only encode the first 256 code points, and other characters
+ * are an error rather than being written as question marks.
+ */
+export function encodeText(text: string, format: TextFormat): Buffer {
+  const converted = format.lineEnding ? text.replace(/\r?\n/g, format.lineEnding) : text;
+
+  let encoded: Buffer;
+  switch (format.encoding) {
+    case 'utf-8':
+      encoded = Buffer.from(converted, 'utf-8');
+      break;
+    case 'utf-16le':
+      encoded = Buffer.from(converted, 'utf16le');
+      break;
+    case 'utf-16be':
+      encoded = Buffer.from(converted, 'utf16le').swap16();
+      break;
+    case 'latin1': {
+      const unencodable = Array.from(converted).find(char => char.codePointAt(0)! > 0xff);
+      if (unencodable) {
+        throw new Error(`Latin-1 can't encode "${unencodable}"; write the file as utf-8 with the encoding option instead`);
+      }
+      encoded = Buffer.from(converted, 'latin1');
+      break;
+    }
+  }
+
+  return format.bom && format.encoding !== 'latin1'
+    ? Buffer.concat([Buffer.from(BYTE_ORDER_MARKS[format.encoding]), encoded])
+    : encoded;
+}
+
+/**
+ * Decodes chunks of text in an encoding. A character split between chunks is
+ * decoded with the chunk that completes it, and a byte order mark at the
+ * start is dropped.
+ */
+export function createDecoder(encoding: TextEncoding): { decode(chunk: Buffer, stream?: boolean): string } {
+  if (encoding === 'latin1') {
+    // TextDecoder's latin1 is windows-1252, which doesn't round-trip every byte
+    return { decode: chunk => chunk.toString('latin1') };
+  }
+  const decoder = new TextDecoder(encoding);
+  return { decode: (chunk, stream = false) => decoder.decode(chunk, { stream }) };
+}
+
+/** The line ending text uses throughout, or undefined if it mixes them or has none */
+export function detectLineEnding(text: string): LineEnding | undefined {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = text.match(/(?<!\r)\n/g)?.length ?? 0;
+  if (crlf > 0 && lf === 0) {
+    return '\r\n';
+  }
+  if (lf > 0 && crlf === 0) {
+    return '\n';
+  }
+  return undefined;
+}
+
+/** Describes a format for tool results, such as "UTF-16LE with BOM, CRLF line endings" */
+export function describeFormat(format: TextFormat): string {
+  const parts = [`${ENCODING_NAMES[format.encoding]}${format.bom ? ' with BOM' : ''}`];
+  if (format.lineEnding) {
+    parts.push(`${format.lineEnding === '\r\n' ? 'CRLF' : 'LF'} line endings`);
+  }
+  return parts.join(', ');
+}
+
+function startsWithBom(sample: Buffer, encoding: keyof typeof BYTE_ORDER_MARKS): boolean {
+  const bom = BYTE_ORDER_MARKS[encoding];
+  return sample.length >= bom.length && bom.every((byte, index) => sample[index] === byte);
+}
+
+// UTF-16 of mostly ASCII text has a null in the high byte of most characters
+// and in the low byte of almost none
+function detectUtf16(sample: Buffer): 'utf-16le' | 'utf-16be' | undefined {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) {
+    return undefined;
+  }
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let index = 0; index < pairs * 2; index += 2) {
+    if (sample[index] === 0) {
+      evenNulls++;
+    }
+    if (sample[index + 1] === 0) {
+      oddNulls++;
+    }
+  }
+  if (oddNulls >= pairs * 0.4 && evenNulls <= pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenNulls >= pairs * 0.4 && oddNulls <= pairs * 0.05) {
+    return 'utf-16be';
+  }
+  return undefined;
+}
@@ -0,0 +1,177 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createDecoder, TextEncoding } from './encoding.js';
+
+const NEWLINE = 0x0a;
+const TAIL_BLOCK_BYTES = 64 * 1024;
+
+// The bytes of a line feed in each encoding
+const NEWLINE_BYTES: Record<TextEncoding, number[]> = {
+  'utf-8': [NEWLINE],
+  'latin1': [NEWLINE],
+  'utf-16le': [NEWLINE, 0x00],
+  'utf-16be': [0x00, NEWLINE]
+};
+
+export interface LineScan {
+  // The selected lines in UTF-8 with their line endings, or empty if they exceed maxBytes
+  content: Buffer;
+  exceeded: boolean;
+  totalLines: number;
+}
+
+/**
+ * Reads lines startLine to endLine, 1-based and inclusive, streaming the file
+ * so that only the selected lines are held in memory. Every line from the
+ * byte offset start on is counted, and numbered from there. Selected lines
+ * that add up to more than maxBytes in UTF-8 are dropped and reported as
+ * exceeded.
+ */
+export async function scanLines(
+  filePath: string,
+  startLine: number,
+  endLine: number = Infinity,
+  maxBytes: number = Infinity,
+  encoding: TextEncoding = 'utf-8',
+  start: number = 0
+): Promise<LineScan> {
+  const selected: Buffer[] = [];
+  let selectedBytes = 0;
+  let exceeded = false;
+  let lineNumber = 1;
+  let lastByte: number | undefined;
+
+  const take = (part: Buffer) => {
+    if (exceeded || lineNumber < startLine || lineNumber > endLine) {
+      return;
+    }
+    selectedBytes += part.length;
+    if (selectedBytes > maxBytes) {
+      exceeded = true;
+      selected.length = 0;
+    } else {
+      selected.push(part);
+    }
+  };
+
+  for await (const chunk of readUtf8Chunks(filePath, encoding, { start })) {
+    let from = 0;
+    for (let index = chunk.indexOf(NEWLINE); index !== -1; index = chunk.indexOf(NEWLINE, from)) {
+      take(chunk.subarray(from, index + 1));
+      lineNumber++;
+      from = index + 1;
+    }
+    if (from < chunk.length) {
+      take(chunk.subarray(from));
+    }
+    if (chunk.length > 0) {
+      lastByte = chunk[chunk.length - 1];
+    }
+  }
+
+  // A last line without a line ending still counts
+  const totalLines = lastByte === undefined ? 0 : lastByte === NEWLINE ? lineNumber - 1 : lineNumber;
+  return { content: Buffer.concat(selected), exceeded, totalLines };
+}
+
+/** Counts the line endings before a byte offset, to number the lines after it */
+export async function countNewlines(filePath: string, end: number, encoding: TextEncoding = 'utf-8'): Promise<number> {
+  if (end === 0) {
+    return 0;
+  }
+  let newlines = 0;
+  for await (const chunk of readUtf8Chunks(filePath, encoding, { end: end - 1 })) {
+    for (let index = chunk.indexOf(NEWLINE); index !== -1; index = chunk.indexOf(NEWLINE, index + 1)) {
+      newlines++;
+    }
+  }
+  return newlines;
+}
+
+/**
+ * Finds the byte offset that the last lines of a file start at, reading it
+ * backwards from the end so that the lines before them are never read
+ */
+export async function findTailOffset(
+  filePath: string,
+  lines: number,
+  size: number,
+  encoding: TextEncoding = 'utf-8'
+): Promise<number> {
+  const newline = NEWLINE_BYTES[encoding];
+  // UTF-16 line feeds start at an even offset, with or without a byte order mark
+  const end = size - size % newline.length;
+  let found = 0;
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    for (let blockEnd = end; blockEnd > 0;) {
+      const blockStart = Math.max(0, blockEnd - TAIL_BLOCK_BYTES);
+      const block = Buffer.alloc(blockEnd - blockStart);
+      await handle.read(block, 0, block.length, blockStart);
+      for (let index = block.length - newline.length; index >= 0; index -= newline.length) {
+        const lineStart = blockStart + index + newline.length;
+        // A line ending at the end of the file ends the last line rather than starting another
+        if (lineStart < end && newline.every((byte, offset) => block[index + offset] === byte) && ++found === lines) {
+          return lineStart;
+        }
+      }
+      blockEnd = blockStart;
+    }
+  } finally {
+    await handle.close();
+  }
+  return 0;
+}
+
+/** Reads length bytes from offset, or fewer at the end of the file */
+export async function readBytes(filePath: string, offset: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Prefixes each line with its number, right-aligned like cat -n, so that
+ * edits can refer to them
+ */
+export function numberLines(text: string, firstLine: number): string {
+  if (text === '') {
+    return text;
+  }
+  const lines = text.endsWith('\n') ? text.slice(0, -1).split('\n') : text.split('\n');
+  const width = Math.max(6, String(firstLine + lines.length - 1).length);
+  return lines.map((line, index) => `${String(firstLine + index).padStart(width)}\t${line}`).join('\n') +
+    (text.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * Streams a file, or the bytes from start to end inclusive, as UTF-8, so
+ * that lines can be split at newline bytes whatever the encoding. UTF-8
+ * without a byte order mark is passed through unchanged.
+ */
+async function* readUtf8Chunks(
+  filePath: string,
+  encoding: TextEncoding,
+  range: { start?: number; end?: number } = {}
+): AsyncGenerator<Buffer> {
+  const decoder = encoding === 'utf-8' ? undefined : createDecoder(encoding);
+  let first = !range.start;
+  for await (const chunk of createReadStream(filePath, range) as AsyncIterable<Buffer>) {
+    if (decoder) {
+      yield Buffer.from(decoder.decode(chunk, true), 'utf-8');
+    } else if (first && chunk[0] === 0xef && chunk[1] === 0xbb && chunk[2] === 0xbf) {
+      yield chunk.subarray(3);
+    } else {
+      yield chunk;
+    }
+    first = false;
+  }
+  if (decoder) {
+    yield Buffer.from(decoder.decode(Buffer.alloc(0)), 'utf-8');
+  }
+}
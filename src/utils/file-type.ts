@@ -0,0 +1,125 @@
+import { detectEncoding, isValidUtf8 } from './encoding.js';
+
+// Bytes from the start of a file that are looked at to tell its type
+export const SNIFF_BYTES = 8192;
+
+// Characters in a full line of hexDump, with its newline
+const HEX_DUMP_LINE_LENGTH = 79;
+
+export type FileKind = 'text' | 'image' | 'binary';
+
+export interface FileType {
+  kind: FileKind;
+  // Set for images that can be returned as MCP image content
+  mimeType?: string;
+  description: string;
+}
+
+interface Signature {
+  offset: number;
+  bytes: number[] | string;
+  description: string;
+  mimeType?: string;
+  // Further bytes that must match, such as the format inside a RIFF container
+  also?: { offset: number; bytes: string };
+}
+
+// Images that MCP clients can show are listed with their MIME type
+const SIGNATURES: Signature[] = [
+  { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], description: 'PNG image', mimeType: 'image/png' },
+  { offset: 0, bytes: [0xff, 0xd8, 0xff], description: 'JPEG image', mimeType: 'image/jpeg' },
+  { offset: 0, bytes: 'GIF87a', description: 'GIF image', mimeType: 'image/gif' },
+  { offset: 0, bytes: 'GIF89a', description: 'GIF image', mimeType: 'image/gif' },
+  { offset: 0, bytes: 'RIFF', also: { offset: 8, bytes: 'WEBP' }, description: 'WebP image', mimeType: 'image/webp' },
+  { offset: 0, bytes: 'BM', description: 'BMP image' },
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0x00], description: 'ICO image' },
+  { offset: 0, bytes: 'II*\0', description: 'TIFF image' },
+  { offset: 0, bytes: 'MM\0*', description: 'TIFF image' },
+  { offset: 4, bytes: 'ftypheic', description: 'HEIC image' },
+  { offset: 0, bytes: '%PDF-', description: 'PDF document' },
+  { offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04], description: 'ZIP archive (also JAR, DOCX, XLSX and similar)' },
+  { offset: 0, bytes: [0x1f, 0x8b], description: 'gzip archive' },
+  { offset: 0, bytes: 'BZh', description: 'bzip2 archive' },
+  { offset: 0, bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], description: 'xz archive' },
+  { offset: 0, bytes: [0x28, 0xb5, 0x2f, 0xfd], description: 'Zstandard archive' },
+  { offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], description: '7-Zip archive' },
+  { offset: 257, bytes: 'ustar', description: 'tar archive' },
+  { offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46], description: 'ELF executable or library' },
+  { offset: 0, bytes: [0xcf, 0xfa, 0xed, 0xfe], description: 'Mach-O executable or library' },
+  { offset: 0, bytes: [0xca, 0xfe, 0xba, 0xbe], description: 'Mach-O universal binary or Java class file' },
+  { offset: 0, bytes: 'MZ', description: 'Windows executable or DLL' },
+  { offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d], description: 'WebAssembly module' },
+  { offset: 0, bytes: 'SQLite format 3\0', description: 'SQLite database' },
+  { offset: 0, bytes: 'OTTO', description: 'OpenType font' },
+  { offset: 0, bytes: 'wOFF', description: 'WOFF font' },
+  { offset: 0, bytes: 'wOF2', description: 'WOFF2 font' },
+  { offset: 4, bytes: 'ftyp', description: 'MP4 or QuickTime video' },
+  { offset: 0, bytes: 'ID3', description: 'MP3 audio' },
+  { offset: 0, bytes: 'OggS', description: 'Ogg media' },
+  { offset: 0, bytes: 'fLaC', description: 'FLAC audio' },
+  { offset: 0, bytes: 'RIFF', also: { offset: 8, bytes: 'WAVE' }, description: 'WAV audio' },
+];
+
+/**
+ * Tells text from binary content by its first bytes: known formats by their
+ * magic bytes, and anything else by whether it contains a null byte, which
+ * text in UTF-8 and other 8-bit encodings never does. UTF-16, with a byte
+ * order mark or found by detectEncoding, is text. Magic bytes that are plain ASCII, such as MZ,
+ * could also start a text file, so they only count for content that isn't
+ * text.
+ */
+export function detectFileType(sample: Buffer): FileType {
+  const signature = SIGNATURES.find(candidate =>
+    matches(sample, candidate.offset, candidate.bytes) &&
+    (!candidate.also || matches(sample, candidate.also.offset, candidate.also.bytes)) &&
+    (!isPrintable(candidate.bytes) || !isText(sample)));
+  if (signature) {
+    return {
+      kind: signature.mimeType ? 'image' : 'binary',
+      mimeType: signature.mimeType,
+      description: signature.description
+    };
+  }
+
+  if (!sample.includes(0) || detectEncoding(sample, true).encoding.startsWith('utf-16')) {
+    return { kind: 'text', description: 'text' };
+  }
+  return { kind: 'binary', description: 'binary file' };
+}
+
+/**
+ * Formats bytes like hexdump -C, with the offset, 16 bytes in hex and the
+ * printable ASCII characters on each line
+ */
+export function hexDump(bytes: Buffer, startOffset: number = 0): string {
+  const lines: string[] = [];
+  for (let index = 0; index < bytes.length; index += 16) {
+    const row = bytes.subarray(index, index + 16);
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+    const left = hex.slice(0, 8).join(' ');
+    const right = hex.slice(8).join(' ');
+    const ascii = Array.from(row, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+    lines.push(`${(startOffset + index).toString(16).padStart(8, '0')}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
+
+/** Characters hexDump returns for a number of bytes */
+export function hexDumpSize(byteCount: number): number {
+  return Math.ceil(byteCount / 16) * HEX_DUMP_LINE_LENGTH;
+}
+
+function matches(sample: Buffer, offset: number, bytes: number[] | string): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return sample.length >= offset + expected.length &&
+    sample.subarray(offset, offset + expected.length).equals(expected);
+}
+
+function isPrintable(bytes: number[] | string): boolean {
+  return typeof bytes === 'string' && /^[\x20-\x7e]+$/.test(bytes);
+}
+
+// Text has no null bytes and is valid UTF-8, apart from a character cut off at the end
+function isText(sample: Buffer): boolean {
+  return !sample.includes(0) && isValidUtf8(sample, true);
+}
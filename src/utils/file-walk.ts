@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { IgnoreRule, isIgnored, readGitignore, readParentGitignores } from './gitignore.js';
+
+export type EntryType = 'file' | 'directory' | 'symlink';
+
+export interface WalkEntry {
+  path: string;
+  // Relative to the root, with forward slashes
+  relative: string;
+  type: EntryType;
+}
+
+export interface WalkOptions {
+  // Globs of paths to skip, see matchesGlob
+  exclude: string[];
+  // Skip the paths that .gitignore files ignore
+  gitignore: boolean;
+  // Whether a path may be returned or walked into, such as within the allowed directories
+  isAccessible: (target: string) => Promise<boolean>;
+}
+
+/**
+ * Walks a directory tree in name order, yielding every file, directory and
+ * symlink below the root. Symlinks aren't followed. Excluded and ignored
+ * directories aren't walked into, and the .gitignore files of the git
+ * repository above the root apply as well as those in the tree.
+ */
+export async function* walkTree(root: string, options: WalkOptions): AsyncGenerator<WalkEntry> {
+  const rules = options.gitignore ? await readParentGitignores(root) : [];
+  yield* walkDirectory(root, root, rules, options);
+}
+
+/**
+ * Whether a path relative to the root matches a glob. Globs without a slash,
+ * such as *.ts or node_modules, match the name in any directory.
+ */
+export function matchesGlob(relative: string, glob: string, nocase: boolean = false): boolean {
+  return minimatch(relative, glob, { dot: true, matchBase: !glob.includes('/'), nocase });
+}
+
+async function* walkDirectory(
+  directory: string,
+  root: string,
+  rules: IgnoreRule[],
+  options: WalkOptions
+): AsyncGenerator<WalkEntry> {
+  const directoryRules = options.gitignore ? [...rules, ...await readGitignore(directory)] : rules;
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+  for (const entry of entries) {
+    const type: EntryType | undefined = entry.isSymbolicLink() ? 'symlink'
+      : entry.isDirectory() ? 'directory'
+      : entry.isFile() ? 'file'
+      : undefined;
+    if (!type) {
+      continue;
+    }
+    const entryPath = path.join(directory, entry.name);
+    const relative = path.relative(root, entryPath).split(path.sep).join('/');
+    if (options.exclude.some(glob => matchesGlob(relative, glob)) ||
+        (options.gitignore && isIgnored(entryPath, type === 'directory', directoryRules)) ||
+        !await options.isAccessible(entryPath)) {
+      continue;
+    }
+
+    yield { path: entryPath, relative, type };
+    if (type === 'directory') {
+      yield* walkDirectory(entryPath, root, directoryRules, options);
+    }
+  }
+}
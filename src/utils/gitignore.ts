@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+export interface IgnoreRule {
+  // The directory of the .gitignore file, which the pattern is relative to
+  base: string;
+  pattern: string;
+  // A rule starting with ! includes paths that an earlier rule ignores
+  negated: boolean;
+  // A rule ending in / only matches directories
+  directoryOnly: boolean;
+  // A rule with a slash before its end only matches relative to base
+  anchored: boolean;
+}
+
+/** Parses the rules of a .gitignore file in the directory base */
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    if (line !== '') {
+      rules.push({ base, pattern: line, negated, directoryOnly, anchored });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Whether git ignores a path under the rules, the last matching rule
+ * winning as in git. Paths inside an ignored directory aren't checked here,
+ * since callers don't walk into ignored directories.
+ */
+export function isIgnored(target: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    const relative = path.relative(rule.base, target);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+      continue;
+    }
+    const matched = minimatch(relative.split(path.sep).join('/'), rule.pattern, {
+      dot: true,
+      matchBase: !rule.anchored
+    });
+    if (matched) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/** Reads the rules of the .gitignore file in a directory, if it has one */
+export async function readGitignore(directory: string): Promise<IgnoreRule[]> {
+  try {
+    return parseGitignore(await fs.readFile(path.join(directory, '.gitignore'), 'utf-8'), directory);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The rules that apply to a directory from the .gitignore files above it,
+ * up to the root of the git repository it is in. A directory outside a
+ * repository gets none.
+ */
+export async function readParentGitignores(directory: string): Promise<IgnoreRule[]> {
+  if (await isRepositoryRoot(directory)) {
+    return [];
+  }
+  const parents: string[] = [];
+  for (let current = path.dirname(directory); ; current = path.dirname(current)) {
+    parents.unshift(current);
+    if (await isRepositoryRoot(current)) {
+      break;
+    }
+    if (path.dirname(current) === current) {
+      return [];
+    }
+  }
+  const rules = await Promise.all(parents.map(readGitignore));
+  return rules.flat();
+}
+
+async function isRepositoryRoot(directory: string): Promise<boolean> {
+  return fs.stat(path.join(directory, '.git')).then(() => true, () => false);
+}
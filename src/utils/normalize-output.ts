@@ -0,0 +1,139 @@
+import { OutputNormalization } from '../types.js';
+
+// CSI sequences (colors, cursor movement, erasing), OSC sequences (window
+// titles, hyperlinks) and the remaining two-character escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+const CSI_PATTERN = /^\x1b\[([0-?]*)[ -/]*([@-~])/;
+const OSC_PATTERN = /^\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/;
+
+// Runs of identical lines are only collapsed when that saves lines
+const MIN_COLLAPSED_REPEATS = 2;
+
+export const FULL_NORMALIZATION: OutputNormalization = {
+  stripAnsi: true,
+  carriageReturns: true,
+  collapseRepeats: true
+};
+
+/**
+ * Cleans up terminal output for reading: removes escape sequences, applies
+ * carriage return and backspace overwrites the way a terminal would so that
+ * only the final state of progress bars remains, and collapses runs of
+ * identical lines.
+ */
+export function normalizeOutput(text: string, options: OutputNormalization): string {
+  if (!text) {
+    return text;
+  }
+
+  let lines = text.split('\n').map(line => normalizeLine(line, options));
+  if (options.collapseRepeats) {
+    // The empty string after a final newline is not a line of its own
+    const finalNewline = text.endsWith('\n');
+    lines = collapseRepeatedLines(finalNewline ? lines.slice(0, -1) : lines);
+    if (finalNewline) {
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Normalizes a single line, without collapsing repeats */
+export function normalizeLine(line: string, options: OutputNormalization): string {
+  // CRLF line endings are not overwrites
+  if (line.endsWith('\r')) {
+    line = line.slice(0, -1);
+  }
+
+  if (options.stripAnsi && options.carriageReturns) {
+    return /[\x1b\r\b]/.test(line) ? renderLine(line) : line;
+  }
+  if (options.stripAnsi) {
+    line = line.replace(ANSI_PATTERN, '');
+  }
+  if (options.carriageReturns && line.includes('\r')) {
+    // Escape sequences are kept, so the best that can be done is keeping the
+    // last segment that has any content
+    const segments = line.split('\r');
+    line = segments.reverse().find(segment => segment.length > 0) ?? '';
+  }
+  return line;
+}
+
+/**
+ * Replays a line on a virtual terminal line. Cursor movement and erase
+ * sequences are applied; everything else that is invisible is dropped.
+ */
+function renderLine(line: string): string {
+  const cells: string[] = [];
+  let column = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\r') {
+      column = 0;
+    } else if (char === '\b') {
+      column = Math.max(0, column - 1);
+    } else if (char === '\x1b') {
+      const rest = line.slice(i, i + 64);
+      const csi = CSI_PATTERN.exec(rest);
+      const osc = csi ? null : OSC_PATTERN.exec(rest);
+      if (csi) {
+        column = applyCsi(cells, column, csi[1], csi[2]);
+        i += csi[0].length - 1;
+      } else if (osc) {
+        i += osc[0].length - 1;
+      } else {
+        i++;
+      }
+    } else if (char === '\t' || char >= ' ') {
+      cells[column++] = char;
+    }
+  }
+
+  // Cells skipped by cursor movement are blank
+  return Array.from(cells, cell => cell ?? ' ').join('').trimEnd();
+}
+
+function applyCsi(cells: string[], column: number, params: string, command: string): number {
+  const count = parseInt(params, 10);
+  switch (command) {
+    case 'K':
+      // Erase to end of line (0), to start of line (1) or the whole line (2)
+      if (params === '2') {
+        cells.length = 0;
+      } else if (params === '1') {
+        cells.fill(' ', 0, column + 1);
+      } else {
+        cells.length = Math.min(cells.length, column);
+      }
+      return column;
+    case 'G':
+      return Math.max(0, (isNaN(count) ? 1 : count) - 1);
+    case 'C':
+      return column + (isNaN(count) ? 1 : count);
+    case 'D':
+      return Math.max(0, column - (isNaN(count) ? 1 : count));
+    default:
+      return column;
+  }
+}
+
+function collapseRepeatedLines(lines: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < lines.length;) {
+    let end = i + 1;
+    while (end < lines.length && lines[end] === lines[i]) {
+      end++;
+    }
+
+    const repeats = end - i - 1;
+    if (repeats >= MIN_COLLAPSED_REPEATS) {
+      result.push(lines[i], `[previous line repeated ${repeats} more times]`);
+    } else {
+      result.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+export interface OutputBudget {
+  maxBytes?: number;
+  maxLines?: number;
+}
+
+export interface BudgetedOutput {
+  text: string;
+  exceeded: boolean;
+  omittedLines: number;
+  // Byte range of the original text between the head and the tail
+  omittedStart: number;
+  omittedEnd: number;
+}
+
+// Lines from the omitted middle that are kept because they look like errors:
+// error messages, test failures, and JavaScript, Python and Java stack traces
+const ERROR_LINE_PATTERN = /\b(error|errors|fail|failed|failure|fatal|panic|exception|traceback)\b|^\s+at\s|^\s+File ".*", line \d+|npm ERR!|^E\s+/i;
+
+// Share of the budget that may go to error lines from the middle
+const ERROR_BUDGET_SHARE = 0.25;
+
+/**
+ * Fits text into a byte and line budget by keeping its head and tail and
+ * replacing the middle with an elision marker. Lines from the middle that
+ * look like errors are kept, with their line numbers, up to a quarter of the
+ * budget. A budget of 0 means no limit.
+ */
+export function applyOutputBudget(text: string, budget: OutputBudget): BudgetedOutput {
+  const maxBytes = budget.maxBytes || Infinity;
+  const maxLines = budget.maxLines || Infinity;
+  const totalBytes = Buffer.byteLength(text);
+  const lines = splitLines(text);
+
+  if (totalBytes <= maxBytes && lines.length <= maxLines) {
+    return { text, exceeded: false, omittedLines: 0, omittedStart: totalBytes, omittedEnd: totalBytes };
+  }
+
+  const errorBytes = Math.floor(maxBytes * ERROR_BUDGET_SHARE);
+  const errorLines = Math.floor(maxLines * ERROR_BUDGET_SHARE);
+  const headBytes = Math.floor((maxBytes - errorBytes) / 2);
+  const headLines = Math.floor((maxLines - errorLines) / 2);
+
+  // Head from the start, then the tail from the end within what's left
+  const head = takeLines(lines, 0, 1, headBytes, headLines);
+  const tail = takeLines(lines, lines.length - 1, -1, headBytes, headLines, head.count);
+  if (tail.text && !text.endsWith('\n')) {
+    tail.text = tail.text.slice(0, -1);
+  }
+  const middle = lines.slice(head.count, lines.length - tail.count);
+
+  const errors: string[] = [];
+  let usedBytes = 0;
+  for (let i = 0; i < middle.length && errors.length < errorLines; i++) {
+    if (!ERROR_LINE_PATTERN.test(middle[i])) {
+      continue;
+    }
+    const line = `line ${head.count + i + 1}: ${middle[i]}`;
+    usedBytes += Buffer.byteLength(line) + 1;
+    if (usedBytes > errorBytes) {
+      break;
+    }
+    errors.push(line);
+  }
+
+  const omittedStart = Buffer.byteLength(head.text);
+  const omittedEnd = totalBytes - Buffer.byteLength(tail.text);
+  const omittedBytes = omittedEnd - omittedStart;
+  const omittedLines = middle.length;
+
+  let marker = `[... ${omittedLines} lines (${omittedBytes} bytes) omitted`;
+  marker += errors.length > 0
+    ? `; ${errors.length} of them look like errors and are shown below ...]\n${errors.join('\n')}\n[... end of omitted lines ...]\n`
+    : ' ...]\n';
+
+  return {
+    text: ensureNewline(head.text) + marker + tail.text,
+    exceeded: true,
+    omittedLines,
+    omittedStart,
+    omittedEnd
+  };
+}
+
+/**
+ * Splits a total budget between stdout and stderr. A stream that needs less
+ * than half leaves the rest to the other one.
+ */
+export function splitOutputBudget(budget: OutputBudget, stdout: string, stderr: string): [OutputBudget, OutputBudget] {
+  const share = (total: number | undefined, other: number): number | undefined =>
+    total ? Math.max(Math.floor(total / 2), total - other) : total;
+
+  const stdoutBytes = Buffer.byteLength(stdout);
+  const stderrBytes = Buffer.byteLength(stderr);
+  const stdoutLines = splitLines(stdout).length;
+  const stderrLines = splitLines(stderr).length;
+  return [
+    { maxBytes: share(budget.maxBytes, stderrBytes), maxLines: share(budget.maxLines, stderrLines) },
+    { maxBytes: share(budget.maxBytes, stdoutBytes), maxLines: share(budget.maxLines, stdoutLines) }
+  ];
+}
+
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (text.endsWith('\n')) {
+    lines.pop();
+  }
+  return lines;
+}
+
+function ensureNewline(text: string): string {
+  return text && !text.endsWith('\n') ? `${text}\n` : text;
+}
+
+/**
+ * Takes whole lines from one end within a byte and line budget. If not even
+ * the first line fits, the part of it that does is taken instead, so a single
+ * huge line still produces some output.
+ */
+function takeLines(
+  lines: string[],
+  from: number,
+  step: 1 | -1,
+  maxBytes: number,
+  maxLines: number,
+  reserved: number = 0
+): { text: string; count: number } {
+  const taken: string[] = [];
+  let bytes = 0;
+  for (let i = from; i >= 0 && i < lines.length && taken.length < maxLines && taken.length + reserved < lines.length; i += step) {
+    const size = Buffer.byteLength(lines[i]) + 1;
+    if (bytes + size > maxBytes) {
+      break;
+    }
+    bytes += size;
+    taken.push(lines[i]);
+  }
+
+  if (step === -1) {
+    taken.reverse();
+  }
+  if (taken.length > 0) {
+    return { text: taken.join('\n') + '\n', count: taken.length };
+  }
+
+  if (step === -1 || lines.length === 0 || maxBytes === Infinity) {
+    return { text: '', count: 0 };
+  }
+  // Cut on a character boundary
+  const prefix = Buffer.from(lines[from]).subarray(0, maxBytes).toString().replace(/�$/, '');
+  return { text: prefix, count: 0 };
+}
@@ -0,0 +1,192 @@
+import { DEFAULT_MAX_STORED_OUTPUT, DEFAULT_MAX_OUTPUT_CHUNKS } from '../config.js';
+
+// Constants for output management
+const COALESCE_CHUNK_SIZE = 64 * 1024; // Merge consecutive chunks below this size
+
+export type OutputStream = 'stdout' | 'stderr';
+
+interface OutputChunk {
+  stream: OutputStream;
+  offset: number;
+  data: Buffer;
+}
+
+export interface OutputSlice {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface OutputLine {
+  number: number;
+  text: string;
+}
+
+/**
+ * Append-only store for the output of a terminal session.
+ *
+ * Every byte has an absolute offset that stays valid after older output is
+ * dropped to honour the size limits, so offsets can be handed out as cursors.
+ * Line start offsets are indexed as output arrives, which keeps head/tail and
+ * line-range reads cheap even for large logs. Line numbers are 1-based and,
+ * like offsets, keep counting from the start of the session.
+ */
+export class OutputBuffer {
+  private chunks: OutputChunk[] = [];
+  private lineStarts: number[] = [0];
+  private firstLine = 1;
+  private start = 0;
+  private end = 0;
+
+  constructor(
+    private maxSize: number = DEFAULT_MAX_STORED_OUTPUT,
+    private maxChunks: number = DEFAULT_MAX_OUTPUT_CHUNKS
+  ) {}
+
+  append(stream: OutputStream, data: Buffer): void {
+    if (data.length === 0) {
+      return;
+    }
+
+    const last = this.chunks[this.chunks.length - 1];
+    if (last && last.stream === stream && last.data.length + data.length <= COALESCE_CHUNK_SIZE) {
+      last.data = Buffer.concat([last.data, data]);
+    } else {
+      this.chunks.push({ stream, offset: this.end, data: Buffer.from(data) });
+    }
+
+    for (let i = data.indexOf(0x0a); i !== -1; i = data.indexOf(0x0a, i + 1)) {
+      this.lineStarts.push(this.end + i + 1);
+    }
+    this.end += data.length;
+
+    this.enforceLimits();
+  }
+
+  /** Absolute offset of the oldest retained byte */
+  get startOffset(): number {
+    return this.start;
+  }
+
+  /** Absolute offset just past the newest byte */
+  get endOffset(): number {
+    return this.end;
+  }
+
+  /** Whether older output has been dropped to honour the size limits */
+  get truncated(): boolean {
+    return this.start > 0;
+  }
+
+  /** Number of the oldest retained (possibly partial) line */
+  get firstLineNumber(): number {
+    return this.firstLine;
+  }
+
+  /** Number of the newest line, or firstLineNumber - 1 when nothing is retained */
+  get lastLineNumber(): number {
+    const lastStart = this.lineStarts[this.lineStarts.length - 1];
+    const trailing = lastStart === this.end ? 1 : 0;
+    return this.firstLine + this.lineStarts.length - 1 - trailing;
+  }
+
+  /**
+   * Returns retained output between two absolute offsets, optionally limited
+   * to one stream. Offsets outside the retained range are clamped, and the
+   * actual range is reported back.
+   */
+  read(from: number = this.start, to: number = this.end, stream?: OutputStream): OutputSlice {
+    const startOffset = Math.min(Math.max(from, this.start), this.end);
+    const endOffset = Math.max(Math.min(to, this.end), startOffset);
+
+    const parts: Buffer[] = [];
+    for (const chunk of this.chunks) {
+      const chunkEnd = chunk.offset + chunk.data.length;
+      if (chunkEnd <= startOffset || chunk.offset >= endOffset || (stream && chunk.stream !== stream)) {
+        continue;
+      }
+      parts.push(chunk.data.subarray(
+        Math.max(0, startOffset - chunk.offset),
+        Math.min(chunk.data.length, endOffset - chunk.offset)
+      ));
+    }
+
+    return {
+      text: Buffer.concat(parts).toString(),
+      startOffset,
+      endOffset
+    };
+  }
+
+  /** Returns the number of the line containing an absolute offset */
+  lineNumberAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return this.firstLine + low;
+  }
+
+  /** Returns the retained lines from first to last (inclusive) as one slice */
+  readLines(first: number, last: number): OutputSlice {
+    const from = this.lineOffset(Math.max(first, this.firstLine));
+    const to = this.lineOffset(Math.min(last, this.lastLineNumber) + 1);
+    return this.read(from, to);
+  }
+
+  /** Returns the retained output split into numbered lines */
+  lines(): OutputLine[] {
+    const text = this.read().text;
+    if (!text) {
+      return [];
+    }
+    const parts = text.split('\n');
+    if (text.endsWith('\n')) {
+      parts.pop();
+    }
+    return parts.map((line, index) => ({ number: this.firstLine + index, text: line }));
+  }
+
+  private lineOffset(lineNumber: number): number {
+    const index = lineNumber - this.firstLine;
+    if (index <= 0) {
+      return this.start;
+    }
+    return index < this.lineStarts.length ? this.lineStarts[index] : this.end;
+  }
+
+  private enforceLimits(): void {
+    let dropCount = Math.max(0, this.chunks.length - this.maxChunks);
+    let retainedSize = this.end - this.chunks[dropCount].offset;
+    while (retainedSize > this.maxSize && dropCount < this.chunks.length - 1) {
+      retainedSize -= this.chunks[dropCount].data.length;
+      dropCount++;
+    }
+
+    if (dropCount === 0) {
+      return;
+    }
+
+    this.chunks.splice(0, dropCount);
+    this.start = this.chunks[0].offset;
+
+    // Drop index entries for lines that are gone. A line cut in half by the
+    // new start keeps its number and now begins at the new start.
+    let removed = 0;
+    while (removed < this.lineStarts.length && this.lineStarts[removed] < this.start) {
+      removed++;
+    }
+    if (removed > 0 && this.lineStarts[removed] !== this.start) {
+      removed--;
+      this.lineStarts[removed] = this.start;
+    }
+    this.lineStarts.splice(0, removed);
+    this.firstLine += removed;
+  }
+}
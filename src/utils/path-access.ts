@@ -0,0 +1,100 @@
+import path from 'path';
+import os from 'os';
+import { minimatch } from 'minimatch';
+import { defaultCaseSensitivity, isPathWithin } from './path-containment.js';
+
+export type AccessMode = 'read' | 'write';
+
+export type RootMode = 'read-only' | 'read-write';
+
+export interface AllowedRoot {
+  path: string;
+  mode: RootMode;
+}
+
+export interface AccessGrants {
+  roots: AllowedRoot[];
+  // Globs of paths that are denied even within an allowed root
+  deniedPaths: string[];
+}
+
+/**
+ * Decides whether the filesystem tools may access an absolute path. A path
+ * that matches a denied glob, or is inside a path that does, is denied.
+ * Otherwise the innermost root containing the path decides, so a read-write
+ * project directory can be nested in a read-only home directory. Letter
+ * case is ignored on case-insensitive filesystems. Returns the reason access
+ * is denied, or undefined if it is allowed.
+ */
+export function findAccessDenial(
+  target: string,
+  access: AccessMode,
+  grants: AccessGrants,
+  caseSensitive: boolean = defaultCaseSensitivity()
+): string | undefined {
+  const deniedBy = findDeniedPattern(target, grants.deniedPaths, caseSensitive);
+  if (deniedBy) {
+    return `${target} matches denied path ${deniedBy}`;
+  }
+
+  const root = findRoot(target, grants.roots, caseSensitive);
+  if (!root) {
+    return `path outside allowed directories: ${target}`;
+  }
+  if (access === 'write' && root.mode === 'read-only') {
+    return `${target} is in read-only directory ${root.path}`;
+  }
+  return undefined;
+}
+
+/** The innermost root that contains the path */
+export function findRoot(
+  target: string,
+  roots: AllowedRoot[],
+  caseSensitive: boolean = defaultCaseSensitivity()
+): AllowedRoot | undefined {
+  return roots
+    .filter(root => isPathWithin(target, root.path, caseSensitive))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Finds the first denied glob that matches the path or one of its parents.
+ * A leading ~ is the home directory, and a relative glob such as .env matches
+ * anywhere, like **\/.env. A glob ending in /** also matches the directory
+ * itself, so ~/.ssh/** keeps ~/.ssh from being listed.
+ */
+export function findDeniedPattern(
+  target: string,
+  deniedPaths: string[],
+  caseSensitive: boolean = defaultCaseSensitivity()
+): string | undefined {
+  const candidates: string[] = [];
+  for (let current = target; ; current = path.dirname(current)) {
+    candidates.push(toGlobPath(current));
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+
+  return deniedPaths.find(pattern => {
+    const expanded = expandPattern(pattern);
+    const patterns = expanded.endsWith('/**') ? [expanded, expanded.slice(0, -3)] : [expanded];
+    return patterns.some(glob => candidates.some(candidate => minimatch(candidate, glob, { dot: true, nocase: !caseSensitive })));
+  });
+}
+
+function expandPattern(pattern: string): string {
+  let expanded = pattern.replace(/\\/g, '/');
+  if (expanded === '~' || expanded.startsWith('~/')) {
+    expanded = toGlobPath(os.homedir()) + expanded.slice(1);
+  } else if (!expanded.startsWith('/') && !expanded.startsWith('**') && !/^[a-zA-Z]:\//.test(expanded)) {
+    expanded = `**/${expanded}`;
+  }
+  return expanded;
+}
+
+// Globs always use forward slashes
+function toGlobPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Symlinks followed while resolving one path before giving up, as Linux does
+const MAX_SYMLINKS = 40;
+
+const caseSensitivityCache = new Map<string, boolean>();
+
+/**
+ * Whether a path is the directory or inside it. Paths are compared by whole
+ * segments, so /home/user doesn't contain /home/user2, and letter case only
+ * matters on case-sensitive filesystems. Both paths should be absolute and
+ * already resolved.
+ */
+export function isPathWithin(target: string, directory: string, caseSensitive: boolean = defaultCaseSensitivity()): boolean {
+  const targetSegments = toSegments(target, caseSensitive);
+  const directorySegments = toSegments(directory, caseSensitive);
+  return directorySegments.length <= targetSegments.length &&
+    directorySegments.every((segment, index) => segment === targetSegments[index]);
+}
+
+/**
+ * Resolves every symlink in a path, including in the parents of files that
+ * don't exist yet and links whose target doesn't exist, so that the result
+ * is where a read or write would actually go.
+ */
+export async function resolveRealPath(target: string): Promise<string> {
+  return resolve(path.resolve(target), 0);
+}
+
+async function resolve(target: string, followed: number): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+      throw error;
+    }
+  }
+
+  const parent = path.dirname(target);
+  if (parent === target) {
+    return target;
+  }
+  const resolved = path.join(await resolve(parent, followed), path.basename(target));
+
+  // realpath fails on a link to a missing file, which a write would create
+  let link: string;
+  try {
+    link = await fs.readlink(resolved);
+  } catch {
+    return resolved;
+  }
+  if (followed >= MAX_SYMLINKS) {
+    throw new Error(`Too many levels of symbolic links: ${target}`);
+  }
+  return resolve(path.resolve(path.dirname(resolved), link), followed + 1);
+}
+
+/**
+ * Whether the filesystem holding a path tells file names apart by case. It
+ * is found by looking the nearest existing name up with its case swapped,
+ * and cached per directory. Paths without letters use the platform default.
+ */
+export async function isCaseSensitive(target: string): Promise<boolean> {
+  const directory = await findExistingAncestor(path.resolve(target));
+  const cached = caseSensitivityCache.get(directory);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let caseSensitive = defaultCaseSensitivity();
+  for (let current = directory; path.dirname(current) !== current; current = path.dirname(current)) {
+    const name = path.basename(current);
+    const swapped = swapCase(name);
+    if (swapped === name) {
+      continue;
+    }
+    const [original, other] = await Promise.all([
+      fs.stat(current),
+      fs.stat(path.join(path.dirname(current), swapped)).catch(() => null)
+    ]);
+    caseSensitive = !other || other.ino !== original.ino || other.dev !== original.dev;
+    break;
+  }
+
+  caseSensitivityCache.set(directory, caseSensitive);
+  return caseSensitive;
+}
+
+/** Windows and macOS filesystems ignore case unless they are set up not to */
+export function defaultCaseSensitivity(): boolean {
+  return process.platform !== 'win32' && process.platform !== 'darwin';
+}
+
+async function findExistingAncestor(target: string): Promise<string> {
+  for (let current = target; ; current = path.dirname(current)) {
+    const isDirectory = await fs.stat(current).then(stats => stats.isDirectory(), () => false);
+    if (isDirectory || path.dirname(current) === current) {
+      return current;
+    }
+  }
+}
+
+function toSegments(target: string, caseSensitive: boolean): string[] {
+  const normalized = path.resolve(target);
+  const compared = caseSensitive ? normalized : normalized.normalize('NFC').toLowerCase();
+  return compared.split(path.sep).filter(segment => segment !== '');
+}
+
+function swapCase(name: string): string {
+  return Array.from(name, char => {
+    const upper = char.toUpperCase();
+    return upper === char ? char.toLowerCase() : upper;
+  }).join('');
+}
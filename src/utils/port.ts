@@ -0,0 +1,21 @@
+import net from 'net';
+
+/**
+ * Checks whether a TCP port is accepting connections by opening (and
+ * immediately closing) a connection to it.
+ */
+export function isPortOpen(host: string, port: number, timeoutMs: number = 1000): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+
+    const finish = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => finish(true));
+    socket.once('timeout', () => finish(false));
+    socket.once('error', () => finish(false));
+  });
+}
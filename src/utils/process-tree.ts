@@ -0,0 +1,47 @@
+import { spawnSync } from 'child_process';
+
+/**
+ * Whether sessions are started in their own process group. Windows has no
+ * process groups, so trees are tracked through taskkill /T instead.
+ */
+export const useProcessGroups = process.platform !== 'win32';
+
+/**
+ * Sends a signal to a process and every process it started. On POSIX this
+ * signals the process group led by pid, which requires the process to have
+ * been spawned with `detached: true`. Returns false if nothing was left to
+ * signal.
+ */
+export function signalProcessTree(pid: number, signal: NodeJS.Signals): boolean {
+  if (!useProcessGroups) {
+    // Console programs ignore the polite form of taskkill, so always force it
+    const result = spawnSync('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+    return result.status === 0;
+  }
+
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ESRCH') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether any process is still left in the process group led by pid
+ */
+export function processGroupExists(pid: number): boolean {
+  if (!useProcessGroups) {
+    return false;
+  }
+
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,65 @@
+import { ResourceLimits } from '../types.js';
+
+export const LIMIT_KEYS: Array<keyof ResourceLimits> = [
+  'maxRuntimeMs', 'maxCpuSeconds', 'maxMemoryMb', 'maxOutputBytes', 'maxOpenFiles'
+];
+
+/**
+ * Combines two sets of limits, keeping the stricter value wherever both set
+ * one. Per-command limits can tighten the configured limits but never relax them.
+ */
+export function mergeLimits(base: ResourceLimits = {}, override: ResourceLimits = {}): ResourceLimits {
+  const merged: ResourceLimits = {};
+  for (const key of LIMIT_KEYS) {
+    const values = [base[key], override[key]].filter((value): value is number => value !== undefined);
+    if (values.length > 0) {
+      merged[key] = Math.min(...values);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Builds the shell statements that apply the kernel-enforced limits (CPU
+ * time, address space and open files) to a shell and everything it starts.
+ * Returns undefined if none of them are set.
+ *
+ * The CPU hard limit sits one second above the soft limit so that processes
+ * get SIGXCPU, which identifies the violation, before they are killed.
+ */
+export function buildUlimitCommand(limits: ResourceLimits): string | undefined {
+  const statements: string[] = [];
+
+  if (limits.maxCpuSeconds !== undefined) {
+    const seconds = Math.max(1, Math.ceil(limits.maxCpuSeconds));
+    statements.push(`ulimit -S -t ${seconds}`, `ulimit -H -t ${seconds + 1}`);
+  }
+  if (limits.maxMemoryMb !== undefined) {
+    statements.push(`ulimit -v ${Math.floor(limits.maxMemoryMb * 1024)}`);
+  }
+  if (limits.maxOpenFiles !== undefined) {
+    statements.push(`ulimit -n ${Math.floor(limits.maxOpenFiles)}`);
+  }
+
+  return statements.length > 0 ? statements.join(' && ') : undefined;
+}
+
+export function describeLimits(limits: ResourceLimits): string[] {
+  const descriptions: string[] = [];
+  if (limits.maxRuntimeMs !== undefined) {
+    descriptions.push(`runtime ${limits.maxRuntimeMs}ms`);
+  }
+  if (limits.maxCpuSeconds !== undefined) {
+    descriptions.push(`CPU ${limits.maxCpuSeconds}s per process`);
+  }
+  if (limits.maxMemoryMb !== undefined) {
+    descriptions.push(`memory ${limits.maxMemoryMb}MB per process`);
+  }
+  if (limits.maxOutputBytes !== undefined) {
+    descriptions.push(`output ${limits.maxOutputBytes} bytes`);
+  }
+  if (limits.maxOpenFiles !== undefined) {
+    descriptions.push(`${limits.maxOpenFiles} open files per process`);
+  }
+  return descriptions;
+}
@@ -0,0 +1,1187 @@
+/**
+ * A parser for the subset of POSIX shell / bash syntax needed to find every
+ * command a command line would run: lists, pipelines, subshells, brace
+ * groups, control structures, command and process substitution, variable
+ * assignments, redirections and here-documents.
+ *
+ * It doesn't evaluate anything. Words that contain expansions are marked as
+ * dynamic, with the text they had before expansion. Input that bash would
+ * reject or read further than its end, such as an unterminated if statement
+ * or here-document, is an error.
+ */
+
+export interface ShellWord {
+  // The word with quotes and escapes removed
+  text: string;
+  start: number;
+  end: number;
+  // Whether the word contains parameter, command or arithmetic expansion
+  dynamic: boolean;
+  substitutions: ShellScript[];
+}
+
+export interface ShellRedirect {
+  operator: string;
+  target: ShellWord;
+}
+
+export interface SimpleCommand {
+  type: 'simple';
+  assignments: ShellWord[];
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+  start: number;
+  end: number;
+}
+
+export interface CompoundCommand {
+  type: 'subshell' | 'group';
+  body: ShellScript;
+  redirects: ShellRedirect[];
+  start: number;
+  end: number;
+}
+
+/** Words in the header of a for, select or case statement */
+export interface ClauseHeader {
+  type: 'clause';
+  keyword: string;
+  words: ShellWord[];
+  start: number;
+  end: number;
+}
+
+export type ShellCommand = SimpleCommand | CompoundCommand | ClauseHeader;
+
+export interface ShellPipeline {
+  commands: ShellCommand[];
+  negated: boolean;
+}
+
+export interface ShellScript {
+  source: string;
+  // Pipelines joined by ;, &, &&, || or newlines
+  pipelines: ShellPipeline[];
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ShellParseError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; word: ShellWord; start: number; end: number }
+  | { kind: 'op'; op: string; start: number; end: number }
+  | { kind: 'eof'; start: number; end: number };
+
+// A token lexed by peek, with the parser state after it for next to resume from
+interface PeekedToken {
+  token: Token;
+  start: number;
+  end: number;
+  pendingHeredocs: PendingHeredoc[];
+}
+
+interface PendingHeredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  expand: boolean;
+  target: ShellWord;
+}
+
+// Longest first, so that e.g. '&&' wins over '&'
+const OPERATORS = [
+  ';;&', '<<<', '<<-', '&>>',
+  ';;', ';&', '&&', '||', '|&', '<<', '>>', '>&', '<&', '<>', '>|', '&>',
+  ';', '&', '|', '(', ')', '<', '>', '\n'
+];
+const REDIRECT_OPERATORS = new Set(['<', '>', '>>', '<<', '<<-', '<<<', '>&', '<&', '<>', '>|', '&>', '&>>']);
+const LIST_OPERATORS = new Set([';', '&', '&&', '||', '\n']);
+const CASE_TERMINATORS = new Set([';;', ';&', ';;&']);
+
+// Reserved words that continue or close a compound command, so can't start a command
+const CLOSING_KEYWORDS = new Set(['then', 'elif', 'else', 'fi', 'do', 'done', 'esac', '}']);
+
+// Command substitutions and backquotes are only parsed this deep
+const MAX_SUBSTITUTION_DEPTH = 16;
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/;
+const WORD_BREAK = /[\s;&|()<>]/;
+
+class Parser {
+  private pos = 0;
+  private lastEnd = 0;
+  private peeked?: PeekedToken;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly offset: number = 0,
+    private readonly depth: number = 0
+  ) {}
+
+  /**
+   * Parses commands until the end of input or, when nested in a command
+   * substitution, until the unmatched closing parenthesis
+   */
+  parseScript(nested: boolean = false): ShellScript {
+    const script = this.parseList(token =>
+      token.kind === 'eof' || (nested && token.kind === 'op' && token.op === ')'));
+
+    const token = this.peek();
+    if (!nested && token.kind !== 'eof') {
+      throw new ShellParseError(`Unexpected "${this.describe(token)}"`, token.start);
+    }
+    if (nested && token.kind === 'eof') {
+      throw new ShellParseError('Unterminated command substitution', token.start);
+    }
+    // A here-document whose line never ended has no body
+    if (this.pendingHeredocs.length > 0) {
+      const [heredoc] = this.pendingHeredocs;
+      throw new ShellParseError(`Unterminated here-document, expected "${heredoc.delimiter}"`, heredoc.target.start);
+    }
+    return script;
+  }
+
+  private parseList(isEnd: (token: Token) => boolean): ShellScript {
+    const start = this.pos;
+    const pipelines: ShellPipeline[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (isEnd(token) || token.kind === 'eof') {
+        break;
+      }
+      if (token.kind === 'op' && LIST_OPERATORS.has(token.op)) {
+        throw new ShellParseError(`Unexpected "${this.describe(token)}"`, token.start);
+      }
+
+      pipelines.push(this.parsePipeline());
+
+      const next = this.peek();
+      if (next.kind === 'op' && LIST_OPERATORS.has(next.op)) {
+        this.next();
+        if (next.op === '&&' || next.op === '||') {
+          this.skipNewlines();
+          const following = this.peek();
+          if (isEnd(following) || following.kind === 'eof') {
+            throw new ShellParseError(`Expected a command after "${next.op}"`, following.start);
+          }
+        }
+      } else if (!isEnd(next) && next.kind !== 'eof') {
+        throw new ShellParseError(`Unexpected "${this.describe(next)}"`, next.start);
+      }
+    }
+
+    return { source: this.source.slice(start, this.pos), pipelines };
+  }
+
+  private parsePipeline(): ShellPipeline {
+    const pipeline: ShellPipeline = { commands: [], negated: false };
+
+    for (;;) {
+      const token = this.peek();
+      if (token.kind === 'word' && token.word.text === '!' && !token.word.dynamic) {
+        this.next();
+        pipeline.negated = true;
+        continue;
+      }
+
+      pipeline.commands.push(...this.parseCommand());
+
+      const next = this.peek();
+      if (next.kind === 'op' && (next.op === '|' || next.op === '|&')) {
+        this.next();
+        this.skipNewlines();
+        continue;
+      }
+      return pipeline;
+    }
+  }
+
+  /**
+   * Parses one command. The keywords of compound commands are checked so
+   * that incomplete ones are an error, but only the commands in them are
+   * kept: an if statement or while loop becomes a group of all the commands
+   * in its lists.
+   */
+  private parseCommand(): ShellCommand[] {
+    const token = this.peek();
+
+    if (token.kind === 'op' && token.op === '(') {
+      this.next();
+      const body = this.parseList(t => t.kind === 'op' && t.op === ')');
+      this.expectOperator(')', 'Unterminated subshell');
+      return [{ type: 'subshell', body, redirects: this.parseRedirects(), start: token.start, end: this.pos }];
+    }
+
+    if (token.kind === 'word' && this.isKeyword(token, token.word.text)) {
+      const keyword = token.word.text;
+      if (keyword === '{') {
+        this.next();
+        const body = this.parseCompoundList(['}']);
+        this.expectKeyword('}', 'Unterminated brace group');
+        return [{ type: 'group', body, redirects: this.parseRedirects(), start: token.start, end: this.pos }];
+      }
+      if (keyword === 'if') {
+        return [this.parseIf(token.start)];
+      }
+      if (keyword === 'while' || keyword === 'until') {
+        this.next();
+        const bodyStart = this.pos;
+        const condition = this.parseCompoundList(['do']);
+        const body = this.parseDoGroup(keyword);
+        return [{
+          type: 'group',
+          body: { source: this.source.slice(bodyStart, this.pos), pipelines: [...condition.pipelines, ...body] },
+          redirects: this.parseRedirects(),
+          start: token.start,
+          end: this.pos
+        }];
+      }
+      if (keyword === 'for' || keyword === 'select') {
+        return this.parseLoop(keyword, token.start);
+      }
+      if (keyword === 'case') {
+        return this.parseCase(token.start);
+      }
+      if (keyword === 'function') {
+        this.next();
+        this.next();
+        this.skipFunctionParens();
+        this.skipNewlines();
+        return this.parseCommand();
+      }
+      if (CLOSING_KEYWORDS.has(keyword)) {
+        throw new ShellParseError(`Unexpected "${keyword}"`, token.start);
+      }
+    }
+
+    return this.parseSimpleCommand(token.start);
+  }
+
+  private parseIf(start: number): CompoundCommand {
+    this.next();
+    const bodyStart = this.pos;
+    const pipelines: ShellPipeline[] = [];
+    for (;;) {
+      pipelines.push(...this.parseCompoundList(['then']).pipelines);
+      this.expectKeyword('then', 'Expected "then" in if statement');
+      pipelines.push(...this.parseCompoundList(['elif', 'else', 'fi']).pipelines);
+
+      const keyword = this.next();
+      if (this.isKeyword(keyword, 'else')) {
+        pipelines.push(...this.parseCompoundList(['fi']).pipelines);
+        this.expectKeyword('fi', 'Unterminated if statement');
+        break;
+      }
+      if (this.isKeyword(keyword, 'fi')) {
+        break;
+      }
+      if (!this.isKeyword(keyword, 'elif')) {
+        throw new ShellParseError('Unterminated if statement', keyword.start);
+      }
+    }
+    const body = { source: this.source.slice(bodyStart, this.pos), pipelines };
+    return { type: 'group', body, redirects: this.parseRedirects(), start, end: this.pos };
+  }
+
+  /** Parses the body of a loop, do ... done or a brace group as bash also accepts */
+  private parseDoGroup(keyword: string): ShellPipeline[] {
+    if (this.isKeyword(this.peek(), '{')) {
+      const [group] = this.parseCommand() as CompoundCommand[];
+      return group.body.pipelines;
+    }
+    this.expectKeyword('do', `Expected "do" in ${keyword} loop`);
+    const body = this.parseCompoundList(['done']);
+    this.expectKeyword('done', `Unterminated ${keyword} loop`);
+    return body.pipelines;
+  }
+
+  /**
+   * Parses the command list of a compound command up to one of the keywords
+   * that can follow it, which must have at least one command as in bash
+   */
+  private parseCompoundList(keywords: string[]): ShellScript {
+    const list = this.parseList(token => this.isKeyword(token, ...keywords));
+    if (list.pipelines.length === 0) {
+      const token = this.peek();
+      throw new ShellParseError(`Expected a command but found "${this.describe(token)}"`, token.start);
+    }
+    return list;
+  }
+
+  private parseSimpleCommand(start: number): ShellCommand[] {
+    const command: SimpleCommand = { type: 'simple', assignments: [], words: [], redirects: [], start, end: start };
+
+    for (;;) {
+      const token = this.peek();
+      if (token.kind === 'op' && REDIRECT_OPERATORS.has(token.op)) {
+        command.redirects.push(...this.parseRedirects());
+      } else if (token.kind === 'word') {
+        this.next();
+        if (command.words.length === 0 && ASSIGNMENT_PATTERN.test(token.word.text)) {
+          command.assignments.push(token.word);
+        } else {
+          command.words.push(token.word);
+        }
+
+        // name() compound-command defines a function
+        if (command.words.length === 1 && this.skipFunctionParens()) {
+          this.skipNewlines();
+          return this.parseCommand();
+        }
+      } else {
+        break;
+      }
+    }
+
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      const token = this.peek();
+      throw new ShellParseError(`Expected a command but found "${this.describe(token)}"`, token.start);
+    }
+    command.end = this.lastEnd;
+    return [command];
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || !REDIRECT_OPERATORS.has(token.op)) {
+        return redirects;
+      }
+      this.next();
+      const target = this.next();
+      if (target.kind !== 'word') {
+        throw new ShellParseError(`Missing target for "${token.op}"`, target.start);
+      }
+      if (token.op === '<<' || token.op === '<<-') {
+        const quoted = /['"\\]/.test(this.source.slice(target.start - this.offset, target.end - this.offset));
+        this.pendingHeredocs.push({
+          delimiter: target.word.text,
+          stripTabs: token.op === '<<-',
+          expand: !quoted,
+          target: target.word
+        });
+      }
+      redirects.push({ operator: token.op, target: target.word });
+      this.lastEnd = target.end;
+    }
+  }
+
+  private parseLoop(keyword: string, start: number): ShellCommand[] {
+    this.next();
+    const header: ClauseHeader = { type: 'clause', keyword, words: [], start, end: start };
+    this.skipBlanks();
+    if (keyword === 'for' && this.source.startsWith('((', this.pos)) {
+      // for ((init; condition; step)), whose expressions can contain command substitutions
+      const wordStart = this.pos;
+      this.pos += 2;
+      const substitutions = this.parseArithmetic();
+      const text = this.source.slice(wordStart, this.pos);
+      header.words.push({ text, start: this.at(wordStart), end: this.at(this.pos), dynamic: true, substitutions });
+      header.end = this.at(this.pos);
+      this.lastEnd = header.end;
+    } else {
+      for (;;) {
+        const token = this.peek();
+        if (token.kind !== 'word' || this.isKeyword(token, 'do', '{')) {
+          break;
+        }
+        this.next();
+        header.words.push(token.word);
+        header.end = token.end;
+      }
+    }
+
+    // The words end at a semicolon or newlines, or directly at do
+    const separator = this.peek();
+    if (separator.kind === 'op' && separator.op === ';') {
+      this.next();
+    }
+    this.skipNewlines();
+    const bodyStart = this.pos;
+    const pipelines = this.parseDoGroup(keyword);
+    const body: CompoundCommand = {
+      type: 'group',
+      body: { source: this.source.slice(bodyStart, this.pos), pipelines },
+      redirects: this.parseRedirects(),
+      start: header.end,
+      end: this.pos
+    };
+    return [header, body];
+  }
+
+  private parseCase(start: number): ShellCommand[] {
+    this.next();
+    const header: ClauseHeader = { type: 'clause', keyword: 'case', words: [], start, end: start };
+    const subject = this.next();
+    if (subject.kind !== 'word') {
+      throw new ShellParseError('Missing word after "case"', subject.start);
+    }
+    header.words.push(subject.word);
+    this.skipNewlines();
+    const keywordIn = this.next();
+    if (keywordIn.kind !== 'word' || keywordIn.word.text !== 'in') {
+      throw new ShellParseError('Expected "in" in case statement', keywordIn.start);
+    }
+
+    const commands: ShellCommand[] = [header];
+    const isEsac = (token: Token) => this.isKeyword(token, 'esac');
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (isEsac(token)) {
+        this.next();
+        break;
+      }
+      if (token.kind === 'eof') {
+        throw new ShellParseError('Unterminated case statement', token.start);
+      }
+
+      // Patterns, e.g. "a|b)" or "(a)"
+      if (token.kind === 'op' && token.op === '(') {
+        this.next();
+      }
+      for (;;) {
+        const pattern = this.next();
+        if (pattern.kind === 'word') {
+          header.words.push(pattern.word);
+        } else if (pattern.kind === 'op' && pattern.op === ')') {
+          break;
+        } else if (pattern.kind !== 'op' || pattern.op !== '|') {
+          throw new ShellParseError('Invalid case pattern', pattern.start);
+        }
+      }
+
+      const body = this.parseList(t => (t.kind === 'op' && CASE_TERMINATORS.has(t.op)) || isEsac(t));
+      commands.push({ type: 'group', body, redirects: [], start: token.start, end: this.pos });
+      const terminator = this.peek();
+      if (terminator.kind === 'op' && CASE_TERMINATORS.has(terminator.op)) {
+        this.next();
+      }
+    }
+    header.end = this.pos;
+    return commands;
+  }
+
+  private skipFunctionParens(): boolean {
+    const saved = this.pos;
+    const savedEnd = this.lastEnd;
+    const open = this.next();
+    if (open.kind === 'op' && open.op === '(') {
+      const close = this.next();
+      if (close.kind === 'op' && close.op === ')') {
+        return true;
+      }
+    }
+    this.pos = saved;
+    this.lastEnd = savedEnd;
+    return false;
+  }
+
+  private skipNewlines(): void {
+    for (let token = this.peek(); token.kind === 'op' && token.op === '\n'; token = this.peek()) {
+      this.next();
+    }
+  }
+
+  /** Whether a token is one of the keywords, which are only reserved when unquoted */
+  private isKeyword(token: Token, ...keywords: string[]): boolean {
+    return token.kind === 'word' && !token.word.dynamic && keywords.includes(token.word.text) &&
+      this.source.slice(token.start - this.offset, token.end - this.offset) === token.word.text;
+  }
+
+  private expectKeyword(keyword: string, message: string): void {
+    const token = this.next();
+    if (!this.isKeyword(token, keyword)) {
+      throw new ShellParseError(message, token.start);
+    }
+  }
+
+  private expectOperator(op: string, message: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.op !== op) {
+      throw new ShellParseError(message, token.start);
+    }
+  }
+
+  private describe(token: Token): string {
+    if (token.kind === 'eof') {
+      return 'end of input';
+    }
+    if (token.kind === 'op') {
+      return token.op === '\n' ? 'newline' : token.op;
+    }
+    return token.word.text;
+  }
+
+  // Tokens are lexed on demand because words can contain nested scripts.
+  // The token peeked at is kept for next, since lexing a word parses the
+  // scripts nested in it and lexing it again at each level of nesting would
+  // take exponential time.
+
+  private peek(): Token {
+    if (this.peeked?.start === this.pos) {
+      return this.peeked.token;
+    }
+    const start = this.pos;
+    const savedHeredocs = this.pendingHeredocs;
+    this.pendingHeredocs = [...savedHeredocs];
+    const token = this.lex();
+    this.peeked = { token, start, end: this.pos, pendingHeredocs: this.pendingHeredocs };
+    this.pos = start;
+    this.pendingHeredocs = savedHeredocs;
+    return token;
+  }
+
+  private next(): Token {
+    const peeked = this.peeked;
+    this.peeked = undefined;
+    let token: Token;
+    if (peeked?.start === this.pos) {
+      token = peeked.token;
+      this.pos = peeked.end;
+      this.pendingHeredocs = peeked.pendingHeredocs;
+    } else {
+      token = this.lex();
+    }
+    if (token.kind !== 'eof') {
+      this.lastEnd = token.end;
+    }
+    return token;
+  }
+
+  private lex(): Token {
+    this.skipBlanks();
+    const start = this.pos;
+    if (this.pos >= this.source.length) {
+      return { kind: 'eof', start: this.at(start), end: this.at(start) };
+    }
+
+    // A file descriptor number directly before a redirection belongs to it
+    const fd = /^\d+(?=[<>])/.exec(this.source.slice(this.pos));
+    const operatorStart = fd ? this.pos + fd[0].length : this.pos;
+    const op = OPERATORS.find(candidate => this.source.startsWith(candidate, operatorStart));
+    if (op && (!fd || op.startsWith('<') || op.startsWith('>'))) {
+      // <( and >( start process substitution, which is part of a word
+      if ((op === '<' || op === '>') && this.source[operatorStart + 1] === '(' && !fd) {
+        return this.lexWord(start);
+      }
+      this.pos = operatorStart + op.length;
+      if (op === '\n') {
+        this.readHeredocBodies();
+      }
+      return { kind: 'op', op, start: this.at(start), end: this.at(this.pos) };
+    }
+
+    return this.lexWord(start);
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === ' ' || char === '\t' || char === '\r') {
+        this.pos++;
+      } else if (char === '\\' && this.source[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (char === '#') {
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  private lexWord(start: number): Token {
+    const word: ShellWord = { text: '', start: this.at(start), end: 0, dynamic: false, substitutions: [] };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if ((char === '<' || char === '>') && this.source[this.pos + 1] === '(') {
+        this.pos += 2;
+        word.text += `${char}(`;
+        word.dynamic = true;
+        word.substitutions.push(this.parseNested());
+        word.text += ')';
+        continue;
+      }
+      if (WORD_BREAK.test(char)) {
+        break;
+      }
+
+      if (char === '\\') {
+        if (this.source[this.pos + 1] !== '\n') {
+          word.text += this.source[this.pos + 1] ?? '';
+        }
+        this.pos += 2;
+      } else if (char === "'") {
+        const end = this.source.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new ShellParseError('Unterminated single quote', this.at(this.pos));
+        }
+        word.text += this.source.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (char === '"') {
+        this.pos++;
+        this.readDoubleQuoted(word);
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        word.text += char;
+        this.pos++;
+      }
+    }
+
+    word.end = this.at(this.pos);
+    return { kind: 'word', word, start: word.start, end: word.end };
+  }
+
+  private readDoubleQuoted(word: ShellWord): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return;
+      }
+      if (char === '\\') {
+        const escaped = this.source[this.pos + 1];
+        if (escaped === '\n') {
+          // Line continuation
+        } else if (escaped !== undefined && '$`"\\'.includes(escaped)) {
+          word.text += escaped;
+        } else {
+          word.text += `\\${escaped ?? ''}`;
+        }
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        word.text += char;
+        this.pos++;
+      }
+    }
+    throw new ShellParseError('Unterminated double quote', this.at(this.pos));
+  }
+
+  /** Reads $name, ${...}, $(...), $((...)), $'...' or `...` */
+  private readExpansion(word: ShellWord): void {
+    const start = this.pos;
+
+    if (this.source[this.pos] === '`') {
+      const content = this.readBackquoted();
+      word.text += this.source.slice(start, this.pos);
+      word.dynamic = true;
+      word.substitutions.push(this.nestedParser(content, this.at(start + 1)).parseScript());
+      return;
+    }
+
+    const next = this.source[this.pos + 1];
+    if (next === '(' && this.source[this.pos + 2] === '(') {
+      // Arithmetic expansion, which can itself contain command substitutions
+      this.pos += 3;
+      const inner = this.parseArithmetic();
+      word.substitutions.push(...inner);
+      word.dynamic = true;
+      word.text += this.source.slice(start, this.pos);
+    } else if (next === '(') {
+      this.pos += 2;
+      word.substitutions.push(this.parseNested());
+      word.dynamic = true;
+      word.text += this.source.slice(start, this.pos);
+    } else if (next === '{') {
+      this.pos += 2;
+      this.readBraced(word);
+      word.dynamic = true;
+      word.text += this.source.slice(start, this.pos);
+    } else if (next === "'") {
+      const end = this.findAnsiQuoteEnd(this.pos + 2);
+      word.text += this.source.slice(this.pos + 2, end).replace(/\\(.)/g, '$1');
+      this.pos = end + 1;
+    } else if (next !== undefined && /[A-Za-z0-9_@*#?$!-]/.test(next)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*|^./.exec(this.source.slice(this.pos + 1))![0];
+      this.pos += 1 + name.length;
+      word.dynamic = true;
+      word.text += this.source.slice(start, this.pos);
+    } else {
+      word.text += '$';
+      this.pos++;
+    }
+  }
+
+  private parseNested(): ShellScript {
+    const parser = this.nestedParser(this.source, this.offset);
+    parser.pos = this.pos;
+    const script = parser.parseScript(true);
+    // Skip the closing parenthesis
+    this.pos = parser.pos + 1;
+    return script;
+  }
+
+  private nestedParser(source: string, offset: number): Parser {
+    if (this.depth === MAX_SUBSTITUTION_DEPTH) {
+      throw new ShellParseError(`Substitutions are nested more than ${MAX_SUBSTITUTION_DEPTH} deep`, this.at(this.pos));
+    }
+    return new Parser(source, offset, this.depth + 1);
+  }
+
+  private parseArithmetic(): ShellScript[] {
+    const scripts: ShellScript[] = [];
+    let depth = 0;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '$' && this.source[this.pos + 1] === '(' && this.source[this.pos + 2] !== '(') {
+        this.pos += 2;
+        scripts.push(this.parseNested());
+      } else if (char === '`') {
+        const start = this.pos;
+        const content = this.readBackquoted();
+        scripts.push(this.nestedParser(content, this.at(start + 1)).parseScript());
+      } else if (char === '(') {
+        depth++;
+        this.pos++;
+      } else if (char === ')') {
+        if (depth === 0 && this.source[this.pos + 1] === ')') {
+          this.pos += 2;
+          return scripts;
+        }
+        depth--;
+        this.pos++;
+      } else {
+        this.pos++;
+      }
+    }
+    throw new ShellParseError('Unterminated arithmetic expansion', this.at(this.pos));
+  }
+
+  private readBraced(word: ShellWord): void {
+    // The word after an operator such as ${x:-word} can contain substitutions
+    const inner: ShellWord = { text: '', start: 0, end: 0, dynamic: true, substitutions: [] };
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '}') {
+        this.pos++;
+        word.substitutions.push(...inner.substitutions);
+        return;
+      }
+      if (char === '\\') {
+        this.pos += 2;
+      } else if (char === "'") {
+        const end = this.source.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new ShellParseError('Unterminated single quote', this.at(this.pos));
+        }
+        this.pos = end + 1;
+      } else if (char === '"') {
+        this.pos++;
+        this.readDoubleQuoted(inner);
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(inner);
+      } else {
+        this.pos++;
+      }
+    }
+    throw new ShellParseError('Unterminated parameter expansion', this.at(this.pos));
+  }
+
+  private readBackquoted(): string {
+    let content = '';
+    this.pos++;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '`') {
+        this.pos++;
+        return content;
+      }
+      if (char === '\\' && '$`\\'.includes(this.source[this.pos + 1])) {
+        content += this.source[this.pos + 1];
+        this.pos += 2;
+      } else {
+        content += char;
+        this.pos++;
+      }
+    }
+    throw new ShellParseError('Unterminated backquote', this.at(this.pos));
+  }
+
+  private findAnsiQuoteEnd(from: number): number {
+    for (let i = from; i < this.source.length; i++) {
+      if (this.source[i] === '\\') {
+        i++;
+      } else if (this.source[i] === "'") {
+        return i;
+      }
+    }
+    throw new ShellParseError('Unterminated quote', this.at(from));
+  }
+
+  /**
+   * Skips the bodies of here-documents started on the line that just ended.
+   * Bodies with unquoted delimiters are expanded, so command substitutions in
+   * them are parsed and attached to the redirection. A body without its
+   * delimiter line is an error.
+   */
+  private readHeredocBodies(): void {
+    for (const heredoc of this.pendingHeredocs.splice(0)) {
+      const bodyStart = this.pos;
+      let bodyEnd: number | undefined;
+      while (this.pos < this.source.length) {
+        const lineEnd = this.source.indexOf('\n', this.pos);
+        const end = lineEnd === -1 ? this.source.length : lineEnd;
+        const line = this.source.slice(this.pos, end);
+        const next = lineEnd === -1 ? end : end + 1;
+        if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.delimiter) {
+          bodyEnd = this.pos;
+          this.pos = next;
+          break;
+        }
+        this.pos = next;
+      }
+      if (bodyEnd === undefined) {
+        throw new ShellParseError(`Unterminated here-document, expected "${heredoc.delimiter}"`, heredoc.target.start);
+      }
+
+      if (heredoc.expand) {
+        const parser = this.nestedParser(this.source.slice(0, bodyEnd), this.offset);
+        parser.pos = bodyStart;
+        const body: ShellWord = { text: '', start: 0, end: 0, dynamic: false, substitutions: [] };
+        parser.readHeredocText(body);
+        heredoc.target.substitutions.push(...body.substitutions);
+      }
+    }
+  }
+
+  private readHeredocText(word: ShellWord): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '\\') {
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  private at(position: number): number {
+    return this.offset + position;
+  }
+}
+
+/**
+ * Parses a command line into a syntax tree. Throws a ShellParseError if the
+ * command line is not valid shell syntax or is incomplete.
+ */
+export function parseShellCommand(source: string): ShellScript {
+  return new Parser(source).parseScript();
+}
+
+export interface CommandInvocation {
+  // Executable name without its directory, lowercased
+  name: string;
+  argv: string[];
+  // Source text of the command the invocation was found in
+  segment: string;
+  // Whether the executable name is only known once the command runs
+  dynamic: boolean;
+  // The command string of eval or sh -c, when it is only known once the command runs
+  dynamicScript?: string;
+  // Whether a shell reads its script from standard input, so the commands
+  // it runs aren't known
+  stdinScript?: boolean;
+}
+
+// Commands that run the command given in their arguments, with the options
+// of each that take a value. busybox runs the applet it is given, which may
+// be a shell.
+const WRAPPER_COMMANDS: Record<string, string[]> = {
+  builtin: [],
+  busybox: [],
+  chroot: [],
+  command: [],
+  coproc: [],
+  doas: ['-u', '-C'],
+  env: ['-u', '-C', '--unset', '--chdir'],
+  exec: ['-a'],
+  ionice: ['-c', '-n', '-p', '-P', '-u', '--class', '--classdata', '--pid', '--pgid', '--uid'],
+  nice: ['-n', '--adjustment'],
+  nohup: [],
+  setsid: [],
+  stdbuf: ['-i', '-o', '-e'],
+  strace: ['-a', '-b', '-e', '-E', '-I', '-o', '-O', '-p', '-P', '-s', '-S', '-u', '-U', '-X'],
+  sudo: ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '--user', '--group', '--host', '--prompt'],
+  time: ['-f', '-o', '--format', '--output'],
+  timeout: ['-s', '-k', '--signal', '--kill-after'],
+  watch: ['-n', '-q', '--interval', '--equexit'],
+  xargs: ['-a', '-d', '-E', '-e', '-I', '-i', '-L', '-l', '-n', '-P', '-s', '--arg-file', '--delimiter', '--max-args', '--max-procs'],
+};
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'mksh', 'ash']);
+// Shell options whose value is the next argument
+const SHELL_OPTIONS_WITH_VALUE = new Set(['-o', '+o', '-O', '+O', '--rcfile', '--init-file']);
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+// Nested command strings (bash -c, eval) are only followed this deep
+const MAX_NESTING = 8;
+
+/**
+ * Lists every command a command line would run, including those in
+ * substitutions, behind wrappers such as env, nohup or xargs, in the script
+ * of sh -c and eval, and in find -exec. Names and scripts that contain
+ * expansions are marked as dynamic rather than followed. Throws a
+ * ShellParseError if the command line can't be parsed.
+ */
+export function findCommandInvocations(source: string): CommandInvocation[] {
+  const invocations: CommandInvocation[] = [];
+  collectFromScript(parseShellCommand(source), source, invocations, 0);
+  return invocations;
+}
+
+/**
+ * Lists the commands an argv would run when executed directly, without a shell
+ */
+export function findArgvInvocations(argv: string[]): CommandInvocation[] {
+  const invocations: CommandInvocation[] = [];
+  collectFromArgv(argv, argv.map(() => false), argv.join(' '), invocations, 0);
+  return invocations;
+}
+
+function collectFromScript(script: ShellScript, source: string, invocations: CommandInvocation[], depth: number): void {
+  for (const pipeline of script.pipelines) {
+    for (const command of pipeline.commands) {
+      collectFromCommand(command, source, invocations, depth);
+    }
+  }
+}
+
+function collectFromCommand(command: ShellCommand, source: string, invocations: CommandInvocation[], depth: number): void {
+  const collectWords = (words: ShellWord[]) => {
+    for (const word of words) {
+      for (const substitution of word.substitutions) {
+        collectFromScript(substitution, source, invocations, depth);
+      }
+    }
+  };
+
+  if (command.type === 'clause') {
+    collectWords(command.words);
+    return;
+  }
+
+  collectWords(command.redirects.map(redirect => redirect.target));
+  if (command.type !== 'simple') {
+    collectFromScript(command.body, source, invocations, depth);
+    return;
+  }
+
+  collectWords(command.assignments);
+  collectWords(command.words);
+  if (command.words.length > 0) {
+    const segment = source.slice(command.start, command.end).trim();
+    collectFromArgv(command.words.map(word => word.text), command.words.map(word => word.dynamic), segment, invocations, depth);
+  }
+}
+
+/** Collects the commands an argv runs, where dynamic marks the words that contain expansions */
+function collectFromArgv(
+  argv: string[],
+  dynamic: boolean[],
+  segment: string,
+  invocations: CommandInvocation[],
+  depth: number
+): void {
+  const name = commandName(argv[0]);
+  const invocation: CommandInvocation = { name, argv, segment, dynamic: dynamic[0] };
+  invocations.push(invocation);
+  if (invocation.dynamic) {
+    return;
+  }
+
+  const wrapperOptions = WRAPPER_COMMANDS[name];
+  if (wrapperOptions) {
+    let args = argv.slice(1);
+    let argsDynamic = dynamic.slice(1);
+    const split = name === 'env' ? splitStringArgument(argv, dynamic) : undefined;
+    if (split?.dynamic) {
+      invocation.dynamicScript = split.value;
+      return;
+    }
+    if (split) {
+      const words = splitEnvString(split.value);
+      args = [...argv.slice(1, split.start), ...words.map(word => word.text), ...argv.slice(split.end)];
+      argsDynamic = [...dynamic.slice(1, split.start), ...words.map(word => word.dynamic), ...dynamic.slice(split.end)];
+    }
+
+    const start = skipWrapperArguments(name, args, wrapperOptions);
+    if (start >= args.length) {
+      return;
+    }
+    // watch runs its arguments with sh -c unless given -x
+    if (name === 'watch' && !args.slice(0, start).some(arg => arg === '-x' || arg === '--exec')) {
+      collectFromArgv(['sh', '-c', args.slice(start).join(' ')], [false, false, argsDynamic.slice(start).some(Boolean)],
+        segment, invocations, depth);
+      return;
+    }
+    collectFromArgv(args.slice(start), argsDynamic.slice(start), segment, invocations, depth);
+    return;
+  }
+
+  const shellInput = SHELLS.has(name) ? shellScriptArgument(argv, dynamic) : undefined;
+  if (shellInput === 'stdin') {
+    invocation.stdinScript = true;
+    return;
+  }
+  const nested = name === 'eval'
+    ? { script: argv.slice(1).join(' '), dynamic: dynamic.slice(1).some(Boolean) }
+    : shellInput;
+  if (nested?.dynamic) {
+    invocation.dynamicScript = nested.script;
+    return;
+  }
+  if (nested) {
+    if (depth >= MAX_NESTING) {
+      throw new ShellParseError('Command strings are nested too deeply', 0);
+    }
+    collectFromScript(parseShellCommand(nested.script), nested.script, invocations, depth + 1);
+    return;
+  }
+
+  if (name === 'find') {
+    for (let i = 1; i < argv.length; i++) {
+      if (!FIND_EXEC_ACTIONS.has(argv[i])) {
+        continue;
+      }
+      const end = argv.findIndex((arg, index) => index > i && (arg === ';' || arg === '+'));
+      const execEnd = end === -1 ? undefined : end;
+      const execArgv = argv.slice(i + 1, execEnd);
+      if (execArgv.length > 0) {
+        collectFromArgv(execArgv, dynamic.slice(i + 1, execEnd), segment, invocations, depth);
+      }
+      i = end === -1 ? argv.length : end;
+    }
+  }
+}
+
+function commandName(executable: string): string {
+  const base = executable.split(/[\\/]/).pop() ?? executable;
+  return base.toLowerCase().replace(/\.exe$/, '');
+}
+
+/** Returns the index in args of the command a wrapper runs */
+function skipWrapperArguments(name: string, args: string[], optionsWithValue: string[]): number {
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+    if (arg === '--') {
+      i++;
+      break;
+    }
+    if (name === 'env' && ASSIGNMENT_PATTERN.test(arg)) {
+      i++;
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      i += optionsWithValue.includes(arg) ? 2 : 1;
+    } else {
+      break;
+    }
+  }
+
+  // The first operand of timeout is the duration, and of chroot the new root
+  if (name === 'timeout' || name === 'chroot') {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Finds the value of env -S, which env splits into more arguments, with the
+ * range of arguments that give it
+ */
+function splitStringArgument(
+  argv: string[],
+  dynamic: boolean[]
+): { value: string; start: number; end: number; dynamic: boolean } | undefined {
+  const optionsWithValue = WRAPPER_COMMANDS.env;
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--' || !(ASSIGNMENT_PATTERN.test(arg) || (arg.startsWith('-') && arg.length > 1))) {
+      return undefined;
+    }
+    const attached = /^-[i0v]*S(.+)$/s.exec(arg) ?? /^--split-string=(.*)$/s.exec(arg);
+    if (attached) {
+      return { value: attached[1], start: i, end: i + 1, dynamic: dynamic[i] };
+    }
+    if (/^-[i0v]*S$/.test(arg) || arg === '--split-string') {
+      return i + 1 < argv.length
+        ? { value: argv[i + 1], start: i, end: i + 2, dynamic: dynamic[i + 1] }
+        : undefined;
+    }
+    if (optionsWithValue.includes(arg)) {
+      i++;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The words env -S splits a string into, which it does with quotes and
+ * escapes like a shell. Throws a ShellParseError if the string isn't a list
+ * of words.
+ */
+function splitEnvString(value: string): ShellWord[] {
+  const script = parseShellCommand(value);
+  if (script.pipelines.length === 0) {
+    return [];
+  }
+  const [command] = script.pipelines[0].commands;
+  if (script.pipelines.length > 1 || script.pipelines[0].commands.length > 1 ||
+      command.type !== 'simple' || command.redirects.length > 0) {
+    throw new ShellParseError('The string of env -S is not a list of words', 0);
+  }
+  return [...command.assignments, ...command.words];
+}
+
+/**
+ * Returns the script passed to a shell with -c, or 'stdin' if the shell
+ * reads its script from standard input, as it does without a script file or
+ * with -s. A word with an expansion among the options could itself be -c or
+ * the script, so it makes the script dynamic.
+ */
+function shellScriptArgument(
+  argv: string[],
+  dynamic: boolean[]
+): { script: string; dynamic: boolean } | 'stdin' | undefined {
+  let commandMode = false;
+  let stdinMode = false;
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (dynamic[i]) {
+      return { script: arg, dynamic: true };
+    }
+    if (arg === '--') {
+      continue;
+    }
+    if (SHELL_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+      continue;
+    }
+    if (/^[-+][a-zA-Z]+$/.test(arg) || /^--[a-z-]+$/.test(arg)) {
+      commandMode = commandMode || /^-[a-zA-Z]*c/.test(arg);
+      stdinMode = stdinMode || /^-[a-zA-Z]*s/.test(arg);
+      continue;
+    }
+    if (commandMode) {
+      return { script: arg, dynamic: false };
+    }
+    // With -s the operands are arguments of the script read from standard input
+    return stdinMode || arg === '-' ? 'stdin' : undefined;
+  }
+  return commandMode ? undefined : 'stdin';
+}
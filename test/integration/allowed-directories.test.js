@@ -0,0 +1,114 @@
+/**
+ * Integration tests for allowed directories, their modes and denied paths
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { readFile, writeFile, createDirectory, listDirectory, moveFile, listAllowedDirectories } from '../../dist/tools/filesystem.js';
+import { getServerConfig, parseServerConfig, setServerConfig } from '../../dist/server-config.js';
+
+describe('Allowed Directories Integration Tests', () => {
+  let testDir;
+  let readWriteDir;
+  let readOnlyDir;
+  let secretDir;
+  let previousConfig;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-allowed-')));
+    readWriteDir = path.join(testDir, 'rw');
+    readOnlyDir = path.join(testDir, 'ro');
+    secretDir = path.join(readWriteDir, 'secrets');
+    await fs.mkdir(secretDir, { recursive: true });
+    await fs.mkdir(readOnlyDir);
+    await fs.writeFile(path.join(readOnlyDir, 'data.txt'), 'read me');
+    await fs.writeFile(path.join(readWriteDir, '.env'), 'TOKEN=1');
+    await fs.writeFile(path.join(secretDir, 'key'), 'secret');
+
+    previousConfig = getServerConfig();
+    setServerConfig(parseServerConfig({
+      allowedDirectories: [readWriteDir, { path: readOnlyDir, mode: 'read-only' }],
+      deniedPaths: ['**/.env', `${secretDir}/**`]
+    }));
+  });
+
+  afterEach(async () => {
+    setServerConfig(previousConfig);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should read but not change read-only directories', async () => {
+    expect(await readFile(path.join(readOnlyDir, 'data.txt'))).toBe('read me');
+    expect(await listDirectory(readOnlyDir)).toEqual(['[FILE] data.txt']);
+
+    await expect(writeFile(path.join(readOnlyDir, 'data.txt'), 'changed'))
+      .rejects.toThrow(`${path.join(readOnlyDir, 'data.txt')} is in read-only directory ${readOnlyDir}`);
+    await expect(createDirectory(path.join(readOnlyDir, 'new'))).rejects.toThrow('read-only directory');
+    await expect(moveFile(path.join(readOnlyDir, 'data.txt'), path.join(readWriteDir, 'data.txt')))
+      .rejects.toThrow('read-only directory');
+    expect(await fs.readFile(path.join(readOnlyDir, 'data.txt'), 'utf-8')).toBe('read me');
+  });
+
+  it('should change read-write directories', async () => {
+    await writeFile(path.join(readWriteDir, 'out.txt'), 'written');
+    await moveFile(path.join(readWriteDir, 'out.txt'), path.join(readWriteDir, 'moved.txt'));
+
+    expect(await fs.readFile(path.join(readWriteDir, 'moved.txt'), 'utf-8')).toBe('written');
+  });
+
+  it('should deny paths matching a denied glob', async () => {
+    await expect(readFile(path.join(readWriteDir, '.env'))).rejects.toThrow('matches denied path **/.env');
+    await expect(listDirectory(secretDir)).rejects.toThrow(`matches denied path ${secretDir}/**`);
+    await expect(readFile(path.join(secretDir, 'key'))).rejects.toThrow('matches denied path');
+  });
+
+  it('should deny directories that are not allowed', async () => {
+    await expect(readFile(path.join(testDir, 'elsewhere.txt'))).rejects.toThrow('path outside allowed directories');
+    await expect(listDirectory(os.homedir())).rejects.toThrow('path outside allowed directories');
+  });
+
+  it('should check symlinks by their target', async () => {
+    await fs.symlink(path.join(readOnlyDir, 'data.txt'), path.join(readWriteDir, 'link.txt'));
+    await fs.symlink(path.join(secretDir, 'key'), path.join(readWriteDir, 'key-link'));
+
+    await expect(writeFile(path.join(readWriteDir, 'link.txt'), 'changed')).rejects.toThrow('symlink target');
+    await expect(readFile(path.join(readWriteDir, 'key-link'))).rejects.toThrow('matches denied path');
+  });
+
+  it('should not treat directories sharing a prefix as the same', async () => {
+    const sibling = `${readWriteDir}-backup`;
+    await fs.mkdir(sibling);
+    await fs.writeFile(path.join(sibling, 'a.txt'), 'backup');
+
+    await expect(readFile(path.join(sibling, 'a.txt'))).rejects.toThrow('path outside allowed directories');
+    await expect(readFile(path.join(readWriteDir, '..', 'rw-backup', 'a.txt'))).rejects.toThrow('path outside allowed directories');
+  });
+
+  it('should not write through a symlinked parent directory or a dangling symlink', async () => {
+    const outside = path.join(testDir, 'outside');
+    await fs.mkdir(outside);
+    await fs.symlink(outside, path.join(readWriteDir, 'escape'));
+    await fs.symlink(path.join(outside, 'planted.txt'), path.join(readWriteDir, 'dangling'));
+
+    await expect(writeFile(path.join(readWriteDir, 'escape', 'new.txt'), 'x')).rejects.toThrow('symlink target');
+    await expect(writeFile(path.join(readWriteDir, 'dangling'), 'x')).rejects.toThrow('symlink target');
+    await expect(createDirectory(path.join(readWriteDir, 'escape', 'nested', 'dir'))).rejects.toThrow('symlink target');
+    expect(await fs.readdir(outside)).toEqual([]);
+  });
+
+  it('should create files in new directories inside an allowed directory', async () => {
+    await writeFile(path.join(readWriteDir, 'new', 'nested', 'a.txt'), 'nested', { createDirectories: true });
+
+    expect(await fs.readFile(path.join(readWriteDir, 'new', 'nested', 'a.txt'), 'utf-8')).toBe('nested');
+  });
+
+  it('should list the directories with their modes and the denied paths', () => {
+    expect(listAllowedDirectories()).toEqual([
+      `${readWriteDir} (read-write)`,
+      `${readOnlyDir} (read-only)`,
+      'DENIED: **/.env (not accessible in any directory)',
+      `DENIED: ${secretDir}/** (not accessible in any directory)`
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Integration tests for loading config.json and reloading it while the server runs
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigManager } from '../../dist/config-manager.js';
+import { CommandManager } from '../../dist/command-manager.js';
+import { TerminalManager } from '../../dist/terminal-manager.js';
+import { executeCommand } from '../../dist/tools/execute.js';
+import { DEFAULT_BLOCKED_COMMANDS, getServerConfig } from '../../dist/server-config.js';
+
+describe('Config Manager Integration Tests', () => {
+  let testDir;
+  let configFile;
+  let commands;
+  let manager;
+  let messages;
+
+  const writeConfig = (config) => fs.writeFile(configFile, JSON.stringify(config, null, 2));
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dc-config-manager-'));
+    configFile = path.join(testDir, 'config.json');
+    await writeConfig({ blockedCommands: ['sudo', 'dd'] });
+
+    commands = new CommandManager(configFile);
+    manager = new ConfigManager([{ file: configFile, source: 'project' }], commands);
+    await manager.load();
+    messages = [];
+    manager.onReload((level, message) => messages.push({ level, message }));
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('load', () => {
+    it('should fill in defaults for settings the file does not set', () => {
+      const config = manager.get();
+
+      expect(config.blockedCommands).toEqual(['dd', 'sudo']);
+      expect(config.commandTimeoutMs).toBe(1000);
+      expect(config.maxCompletedSessions).toBe(100);
+      expect(config.fuzzyThreshold).toBe(0.7);
+      expect(config.commandPolicy.mode).toBe('blocklist');
+    });
+
+    it('should use the defaults without a config file', async () => {
+      await fs.rm(configFile);
+
+      const config = await manager.load();
+
+      expect(config.blockedCommands).toEqual([...DEFAULT_BLOCKED_COMMANDS].sort());
+    });
+
+    it('should name every invalid setting', async () => {
+      await writeConfig({ commandTimeoutMs: -5, commandLimits: { maxCpuSeconds: 'ten' }, maxSessions: 3 });
+
+      const error = await manager.load().catch(error => error);
+
+      expect(error.message).toContain(`Invalid config in ${configFile}`);
+      expect(error.message).toContain('commandTimeoutMs: Number must be greater than 0');
+      expect(error.message).toContain('commandLimits.maxCpuSeconds: Expected number, received string');
+      expect(error.message).toContain("Unrecognized key(s) in object: 'maxSessions'");
+    });
+  });
+
+  describe('reload', () => {
+    beforeEach(() => {
+      commands.setPolicyChangesAllowed(true);
+    });
+
+    it('should apply a changed config and describe what changed', async () => {
+      await writeConfig({
+        blockedCommands: ['sudo', 'curl'],
+        commandPolicy: { rules: [{ command: 'git', args: ['^push$', '^--force$'], action: 'deny' }] },
+        commandLimits: { maxCpuSeconds: 5 },
+        commandTimeoutMs: 3000
+      });
+
+      const result = await manager.reload();
+
+      expect(result.applied).toBe(true);
+      expect(result.changes).toEqual([
+        'blocked commands added: curl',
+        'blocked commands removed: dd',
+        'command rules added: deny git with arguments matching /^push$/ and /^--force$/',
+        'command limit maxCpuSeconds changed from unset to 5',
+        'commandTimeoutMs changed from 1000 to 3000'
+      ]);
+      expect(messages).toEqual([{ level: 'info', message: `Reloaded ${configFile}: ${result.changes.join('; ')}` }]);
+      expect(commands.checkCommand('curl example.com').allowed).toBe(false);
+      expect(commands.checkCommand('dd if=/dev/zero of=x').allowed).toBe(true);
+      expect(commands.checkCommand('git push --force').action).toBe('deny');
+      expect(new TerminalManager().getDefaultLimits()).toEqual({ maxCpuSeconds: 5 });
+      expect(getServerConfig().commandTimeoutMs).toBe(3000);
+    });
+
+    it('should keep the previous config when the new one is invalid', async () => {
+      await writeConfig({ blockedCommands: ['curl'], commandPolicy: { mode: 'denylist' } });
+
+      const result = await manager.reload();
+
+      expect(result.applied).toBe(false);
+      expect(result.error).toContain('commandPolicy.mode');
+      expect(messages[0].level).toBe('error');
+      expect(messages[0].message).toContain('keeping the previous config');
+      expect(commands.listBlockedCommands()).toEqual(['dd', 'sudo']);
+
+      await fs.writeFile(configFile, '{ "blockedCommands": [');
+      expect((await manager.reload()).applied).toBe(false);
+      expect(commands.listBlockedCommands()).toEqual(['dd', 'sudo']);
+    });
+
+    it('should keep the policy when a command writes the config without policy changes allowed', async () => {
+      commands.setPolicyChangesAllowed(false);
+      const config = JSON.stringify({ blockedCommands: [], commandTimeoutMs: 3000 });
+      const written = await executeCommand({ command: `echo '${config}' > ${configFile}`, timeout_ms: 2000 });
+      expect(written.isError).toBeFalsy();
+
+      const result = await manager.reload();
+
+      expect(result.changes).toEqual([
+        'changes to the blocked commands and command policy ignored until the server restarts, ' +
+          'since they can only change while it runs when it is started with --allow-policy-changes',
+        'commandTimeoutMs changed from 1000 to 3000'
+      ]);
+      expect(commands.listBlockedCommands()).toEqual(['dd', 'sudo']);
+      expect(commands.checkCommand('sudo ls').allowed).toBe(false);
+    });
+
+    it('should stay quiet when nothing changed', async () => {
+      const result = await manager.reload();
+
+      expect(result).toEqual({ applied: true, changes: [] });
+      expect(messages).toEqual([]);
+    });
+
+    it('should reload when the file is written', async () => {
+      manager.start();
+      await writeConfig({ blockedCommands: ['sudo', 'dd', 'curl'] });
+
+      for (let attempt = 0; attempt < 50 && messages.length === 0; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      expect(messages[0]?.message).toContain('blocked commands added: curl');
+      expect(commands.listBlockedCommands()).toContain('curl');
+    });
+  });
+
+  describe('layered config files', () => {
+    let flagFile;
+    let userFile;
+    let layered;
+
+    beforeEach(async () => {
+      flagFile = path.join(testDir, 'flag.json');
+      userFile = path.join(testDir, 'user', 'config.json');
+      await fs.mkdir(path.dirname(userFile));
+      await fs.writeFile(userFile, JSON.stringify({
+        blockedCommands: ['sudo'],
+        commandPolicy: { mode: 'allowlist', allowedCommands: ['ls'] },
+        commandTimeoutMs: 2000
+      }));
+      layered = new ConfigManager([
+        { file: flagFile, source: 'flag' },
+        { file: configFile, source: 'project' },
+        { file: userFile, source: 'user' }
+      ], commands);
+    });
+
+    afterEach(() => {
+      layered.stop();
+    });
+
+    it('should merge the files with the first one taking precedence', async () => {
+      await fs.writeFile(flagFile, JSON.stringify({ commandPolicy: { allowedCommands: ['git'] } }));
+
+      const config = await layered.load();
+
+      expect(config.blockedCommands).toEqual(['dd', 'sudo']);
+      expect(config.commandPolicy.mode).toBe('allowlist');
+      expect(config.commandPolicy.allowedCommands).toEqual(['git']);
+      expect(config.commandTimeoutMs).toBe(2000);
+      expect(layered.getLoadedFiles().map(candidate => candidate.file)).toEqual([flagFile, configFile, userFile]);
+      expect(layered.getConfigFile()).toBe(flagFile);
+    });
+
+    it('should let directories from the command line replace the allowed directories', async () => {
+      await fs.writeFile(flagFile, JSON.stringify({ allowedDirectories: ['/srv'] }));
+      const withArgs = new ConfigManager([{ file: flagFile, source: 'flag' }], commands, {
+        allowedDirectories: [{ path: '/work', mode: 'read-only' }]
+      });
+
+      const config = await withArgs.load();
+
+      expect(config.allowedDirectories).toEqual([{ path: '/work', mode: 'read-only' }]);
+    });
+
+    it('should require a file that was named explicitly', async () => {
+      await expect(layered.load()).rejects.toThrow(`Config file ${flagFile} given from --config does not exist`);
+    });
+
+    it('should name the file with an invalid setting', async () => {
+      await fs.writeFile(flagFile, '{}');
+      await fs.writeFile(userFile, JSON.stringify({ fuzzyThreshold: 2 }));
+
+      await expect(layered.load()).rejects.toThrow(`Invalid config in ${userFile}: fuzzyThreshold`);
+    });
+
+    it('should notice a config file created with a higher precedence', async () => {
+      await fs.rm(configFile);
+      const single = new ConfigManager([{ file: configFile, source: 'project' }, { file: userFile, source: 'user' }], commands);
+      await single.load();
+      expect(single.getConfigFile()).toBe(userFile);
+
+      await writeConfig({ commandTimeoutMs: 500 });
+      const result = await single.reload();
+
+      expect(result.changes).toEqual([
+        `config files changed from ${userFile} to ${configFile}, ${userFile}`,
+        'commandTimeoutMs changed from 2000 to 500'
+      ]);
+      expect(single.getConfigFile()).toBe(configFile);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Integration tests for actions held for confirmation by the command policy
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { executeCommand } from '../../dist/tools/execute.js';
+import { confirmAction, guardFileOperation } from '../../dist/tools/confirm.js';
+import { moveFile } from '../../dist/tools/filesystem.js';
+import { commandManager } from '../../dist/command-manager.js';
+import { CommandPolicySchema } from '../../dist/utils/command-policy.js';
+
+const tokenOf = (result) => /token "([^"]+)"/.exec(result.content[0].text)?.[1];
+
+describe('Confirmation Integration Tests', () => {
+  let testDir;
+  let originalPolicy;
+
+  beforeAll(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dc-confirm-'));
+    originalPolicy = commandManager.getPolicy();
+  });
+
+  afterEach(() => {
+    commandManager.setPolicy(originalPolicy);
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hold a command until it is confirmed', async () => {
+    const marker = path.join(testDir, 'ran');
+    commandManager.setPolicy(CommandPolicySchema.parse({
+      rules: [{ command: 'touch', action: 'confirm', reason: 'creates files' }]
+    }));
+
+    const pending = await executeCommand({ command: `touch ${marker}`, timeout_ms: 2000 });
+    const text = pending.content[0].text;
+
+    expect(pending.isError).toBeFalsy();
+    expect(text).toContain('Confirmation required: "touch"');
+    expect(text).toContain(`Pending action: run \`touch ${marker}\``);
+    await expect(fs.access(marker)).rejects.toThrow();
+
+    const confirmed = await confirmAction({ token: tokenOf(pending) });
+    expect(confirmed.content[0].text).toContain('Process completed with exit code 0');
+    await fs.access(marker);
+
+    const again = await confirmAction({ token: tokenOf(pending) });
+    expect(again.isError).toBe(true);
+  });
+
+  it('should check a confirmed command against the policy again', async () => {
+    commandManager.setPolicy(CommandPolicySchema.parse({
+      rules: [{ command: 'echo', action: 'confirm' }]
+    }));
+    const pending = await executeCommand({ command: 'echo hi' });
+
+    commandManager.setPolicy(CommandPolicySchema.parse({
+      rules: [{ command: 'echo', action: 'deny' }]
+    }));
+    const result = await confirmAction({ token: tokenOf(pending) });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Command not allowed');
+  });
+
+  it('should hold a directory move until it is confirmed', async () => {
+    const source = path.join(testDir, 'tree');
+    const destination = path.join(testDir, 'moved');
+    await fs.mkdir(path.join(source, 'nested'), { recursive: true });
+    commandManager.setPolicy(CommandPolicySchema.parse({
+      fileRules: [{ operation: 'move', directory: true, action: 'confirm' }]
+    }));
+
+    const move = () => guardFileOperation('move', [source, destination], `move ${source} to ${destination}`, async () => {
+      await moveFile(source, destination);
+      return { content: [{ type: 'text', text: 'moved' }] };
+    });
+    const pending = await move();
+
+    expect(pending.content[0].text).toContain('needs confirmation by file rule 1 (confirm move of directories)');
+    await fs.access(source);
+
+    const confirmed = await confirmAction({ token: tokenOf(pending) });
+    expect(confirmed.content[0].text).toBe('moved');
+    await fs.access(path.join(destination, 'nested'));
+  });
+
+  it('should cancel pending actions', async () => {
+    commandManager.setPolicy(CommandPolicySchema.parse({
+      rules: [{ command: 'echo', action: 'confirm' }]
+    }));
+    const pending = await executeCommand({ command: 'echo hi' });
+
+    const cancelled = await confirmAction({ token: tokenOf(pending), cancel: true });
+    expect(cancelled.content[0].text).toContain('was cancelled');
+    expect((await confirmAction({ token: tokenOf(pending) })).isError).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Integration tests for reading, writing and editing files that aren't
+ * UTF-8 with LF line endings
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { readFile, readFileRange, writeFile } from '../../dist/tools/filesystem.js';
+import { performSearchReplace } from '../../dist/tools/edit.js';
+
+const utf16leWithBom = text => Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+
+describe('Encoding Integration Tests', () => {
+  let testDir;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-encoding-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should read UTF-16 files and report their format', async () => {
+    const file = path.join(testDir, 'settings.reg');
+    await fs.writeFile(file, utf16leWithBom('[Settings]\r\nName=Größe\r\nSize=3\r\n'));
+
+    const result = await readFileRange(file, { startLine: 2, endLine: 2 });
+
+    expect(result.text).toBe('Name=Größe\r\n');
+    expect(result.totalLines).toBe(3);
+    expect(result.format).toEqual({ encoding: 'utf-16le', bom: true, lineEnding: '\r\n' });
+  });
+
+  it('should edit a UTF-16 file without changing its encoding, BOM or line endings', async () => {
+    const file = path.join(testDir, 'settings.reg');
+    await fs.writeFile(file, utf16leWithBom('[Settings]\r\nName=Größe\r\nSize=3\r\n'));
+
+    const result = await performSearchReplace(file, { search: 'Size=3\n', replace: 'Size=4\n' });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(file)).toEqual(utf16leWithBom('[Settings]\r\nName=Größe\r\nSize=4\r\n'));
+  });
+
+  it('should edit a Latin-1 file without converting it to UTF-8', async () => {
+    const file = path.join(testDir, 'legacy.c');
+    await fs.writeFile(file, Buffer.from('/* Auteur: François */\nint x = 1;\n', 'latin1'));
+
+    await performSearchReplace(file, { search: 'int x = 1;', replace: 'int x = 2; /* déjà */' });
+
+    expect(await fs.readFile(file)).toEqual(Buffer.from('/* Auteur: François */\nint x = 2; /* déjà */\n', 'latin1'));
+    const unencodable = await performSearchReplace(file, { search: 'int x', replace: 'int € x' });
+    expect(unencodable.success).toBe(false);
+    expect(unencodable.message).toContain('Latin-1 can\'t encode "€"');
+  });
+
+  it('should keep the BOM and line endings of a replaced file', async () => {
+    const file = path.join(testDir, 'notes.txt');
+    await fs.writeFile(file, '﻿old\r\ntext\r\n');
+
+    const format = await writeFile(file, 'new\ntext\n');
+
+    expect(format).toEqual({ encoding: 'utf-8', bom: true, lineEnding: '\r\n' });
+    expect(await fs.readFile(file, 'utf-8')).toBe('﻿new\r\ntext\r\n');
+  });
+
+  it('should write new files as UTF-8 unless an encoding is given', async () => {
+    const utf8 = path.join(testDir, 'new.txt');
+    const utf16 = path.join(testDir, 'new-utf16.txt');
+
+    expect(await writeFile(utf8, 'héllo\n')).toEqual({ encoding: 'utf-8', bom: false });
+    expect(await fs.readFile(utf8, 'utf-8')).toBe('héllo\n');
+
+    await writeFile(utf16, 'héllo\n', { encoding: 'utf-16le' });
+    expect(await fs.readFile(utf16)).toEqual(utf16leWithBom('héllo\n'));
+    expect(await readFile(utf16)).toBe('héllo\n');
+  });
+
+  it('should read a file in the encoding given instead of the detected one', async () => {
+    const file = path.join(testDir, 'mojibake.txt');
+    await fs.writeFile(file, 'café\n');
+
+    const result = await readFileRange(file, { encoding: 'latin1' });
+
+    expect(result.text).toBe('cafÃ©\n');
+    expect(result.format.encoding).toBe('latin1');
+  });
+});
@@ -162,14 +162,14 @@ describe('Filesystem Integration Tests', () => {
       await writeFile(join(TEST_DIR, 'script.js'), 'console.log("JavaScript file");');
       
       // Search for text files
-      const textFiles = await searchFiles(TEST_DIR, 'txt');
+      const textFiles = (await searchFiles(TEST_DIR, 'txt')).paths;
       
       expect(Array.isArray(textFiles)).toBe(true);
       expect(textFiles.length).toBeGreaterThan(0);
       expect(textFiles[0]).toContain('file1.txt');
       
       // Search for all files
-      const allFiles = await searchFiles(TEST_DIR, '');
+      const allFiles = (await searchFiles(TEST_DIR, '')).paths;
       
       expect(allFiles.length).toBeGreaterThanOrEqual(3);
       
@@ -0,0 +1,129 @@
+/**
+ * Integration tests for searching file contents with desktop_fs_grep
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { grepFiles, formatGrepResult } from '../../dist/tools/grep.js';
+import { getServerConfig, parseServerConfig, setServerConfig } from '../../dist/server-config.js';
+
+describe('Grep Integration Tests', () => {
+  let testDir;
+
+  const write = async (relative, content) => {
+    const file = path.join(testDir, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+    return file;
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-grep-')));
+    await write('src/app.ts', 'import { load } from "./load";\n\nconst config = load();\nconsole.log(Config.name);\n');
+    await write('src/load.ts', 'export function load() {\n  return { name: "app" };\n}\n');
+    await write('README.md', '# App\n\nCall load() to read the config.\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find literal text with its line and column', async () => {
+    const result = await grepFiles({ path: testDir, pattern: 'load()' });
+
+    expect(result.lines).toEqual([
+      { file: path.join(testDir, 'README.md'), line: 3, column: 6, text: 'Call load() to read the config.' },
+      { file: path.join(testDir, 'src', 'app.ts'), line: 3, column: 16, text: 'const config = load();' },
+      { file: path.join(testDir, 'src', 'load.ts'), line: 1, column: 17, text: 'export function load() {' },
+    ]);
+    expect(result.matchCount).toBe(3);
+    expect(result.filesSearched).toBe(3);
+  });
+
+  it('should search with regular expressions', async () => {
+    const result = await grepFiles({ path: testDir, pattern: '^export function \\w+\\(', regex: true });
+
+    expect(result.lines.map(line => `${path.basename(line.file)}:${line.line}`)).toEqual(['load.ts:1']);
+    await expect(grepFiles({ path: testDir, pattern: 'load(', regex: true })).rejects.toThrow('Invalid regular expression');
+  });
+
+  it('should ignore case unless the pattern has an uppercase letter', async () => {
+    expect((await grepFiles({ path: testDir, pattern: 'config' })).matchCount).toBe(3);
+    expect((await grepFiles({ path: testDir, pattern: 'Config' })).matchCount).toBe(1);
+    expect((await grepFiles({ path: testDir, pattern: 'Config', caseSensitivity: 'insensitive' })).matchCount).toBe(3);
+    expect((await grepFiles({ path: testDir, pattern: 'config', caseSensitivity: 'sensitive' })).matchCount).toBe(2);
+  });
+
+  it('should filter files with include and exclude globs', async () => {
+    const included = await grepFiles({ path: testDir, pattern: 'load', include: ['*.ts'] });
+    expect(new Set(included.lines.map(line => path.basename(line.file)))).toEqual(new Set(['app.ts', 'load.ts']));
+
+    const excluded = await grepFiles({ path: testDir, pattern: 'load', exclude: ['src/**'] });
+    expect(excluded.lines.map(line => path.basename(line.file))).toEqual(['README.md']);
+  });
+
+  it('should show context lines and separate groups', async () => {
+    const result = await grepFiles({ path: path.join(testDir, 'src', 'app.ts'), pattern: 'import', after: 1 });
+    expect(result.lines).toEqual([
+      { file: path.join(testDir, 'src', 'app.ts'), line: 1, column: 1, text: 'import { load } from "./load";' },
+      { file: path.join(testDir, 'src', 'app.ts'), line: 2, text: '' },
+    ]);
+
+    const text = formatGrepResult(await grepFiles({ path: testDir, pattern: 'name', before: 1, include: ['*.ts'] }), true);
+    expect(text).toBe([
+      `${testDir}/src/app.ts-3-const config = load();`,
+      `${testDir}/src/app.ts:4:20:console.log(Config.name);`,
+      '--',
+      `${testDir}/src/load.ts-1-export function load() {`,
+      `${testDir}/src/load.ts:2:12:  return { name: "app" };`,
+      '[2 matching lines in 2 files, 2 files searched]',
+    ].join('\n'));
+  });
+
+  it('should skip files ignored by .gitignore, the .git directory and binary files', async () => {
+    await write('.gitignore', 'dist/\n*.log\n!keep.log\n');
+    await write('dist/app.js', 'load();\n');
+    await write('debug.log', 'load failed\n');
+    await write('keep.log', 'load succeeded\n');
+    await write('.git/config', 'load\n');
+    await write('image.bin', Buffer.from('load\0\0\0binary'));
+
+    const result = await grepFiles({ path: testDir, pattern: 'load' });
+    const files = new Set(result.lines.map(line => path.relative(testDir, line.file)));
+    expect(files).toEqual(new Set(['README.md', 'keep.log', path.join('src', 'app.ts'), path.join('src', 'load.ts')]));
+    expect(result.filesSkipped).toBe(1);
+
+    const unfiltered = await grepFiles({ path: testDir, pattern: 'load', gitignore: false });
+    expect(unfiltered.lines.some(line => line.file.endsWith('debug.log'))).toBe(true);
+    expect(unfiltered.lines.some(line => line.file.includes(`${path.sep}.git${path.sep}`))).toBe(false);
+  });
+
+  it('should return matches a page at a time', async () => {
+    const first = await grepFiles({ path: testDir, pattern: 'load', maxMatches: 2 });
+    expect(first.matchCount).toBe(2);
+    expect(first.nextOffset).toBe(2);
+    expect(formatGrepResult(first, false)).toContain('there are more matches, search again with offset 2');
+
+    const rest = await grepFiles({ path: testDir, pattern: 'load', maxMatches: 10, offset: first.nextOffset });
+    expect(rest.nextOffset).toBeUndefined();
+    expect([...first.lines, ...rest.lines]).toEqual((await grepFiles({ path: testDir, pattern: 'load' })).lines);
+  });
+
+  it('should skip denied paths and reject paths outside allowed directories', async () => {
+    const previousConfig = getServerConfig();
+    await write('.env', 'LOAD_SECRET=1\n');
+    try {
+      setServerConfig(parseServerConfig({ allowedDirectories: [path.join(testDir, 'src')] }));
+      const result = await grepFiles({ path: path.join(testDir, 'src'), pattern: 'load' });
+      expect(result.filesSearched).toBe(2);
+      await expect(grepFiles({ path: testDir, pattern: 'load' })).rejects.toThrow('path outside allowed directories');
+
+      setServerConfig(parseServerConfig({ allowedDirectories: [testDir] }));
+      const withEnv = await grepFiles({ path: testDir, pattern: 'load_secret' });
+      expect(withEnv.matchCount).toBe(0);
+    } finally {
+      setServerConfig(previousConfig);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Integration tests for the command policy tools
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { getPolicy, blockCommand, unblockCommand, setPolicy } from '../../dist/tools/policy.js';
+import { commandManager } from '../../dist/command-manager.js';
+import { configManager } from '../../dist/config-manager.js';
+
+describe('Policy Tools Integration Tests', () => {
+  afterEach(() => {
+    commandManager.setPolicyChangesAllowed(false);
+  });
+
+  it('should show the active policy', async () => {
+    await configManager.load();
+
+    const result = await getPolicy({});
+    const text = result.content[0].text;
+
+    expect(text).toContain('Mode: blocklist');
+    expect(text).toContain('Policy changes: disabled (start the server with --allow-policy-changes to allow them)');
+    expect(text).toMatch(/Blocked commands: .*sudo/);
+  });
+
+  it('should return the policy as JSON', async () => {
+    const result = await getPolicy({ format: 'json' });
+    const policy = JSON.parse(result.content[0].text);
+
+    expect(policy.mode).toBe('blocklist');
+    expect(policy.blockedCommands).toContain('sudo');
+    expect(policy.changesAllowed).toBe(false);
+  });
+
+  it('should reject changes unless the operator allows them', async () => {
+    const configBefore = await fs.readFile(configManager.getConfigFile(), 'utf-8');
+
+    for (const result of [
+      await blockCommand({ command: 'curl' }),
+      await unblockCommand({ command: 'sudo' }),
+      await setPolicy({ policy: { mode: 'allowlist' } }),
+    ]) {
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Policy changes are disabled');
+    }
+
+    expect(commandManager.listBlockedCommands()).toContain('sudo');
+    expect(commandManager.listBlockedCommands()).not.toContain('curl');
+    expect(await fs.readFile(configManager.getConfigFile(), 'utf-8')).toBe(configBefore);
+  });
+
+  it('should report when policy changes are allowed', async () => {
+    commandManager.setPolicyChangesAllowed(true);
+
+    const result = await getPolicy({});
+
+    expect(result.content[0].text).toContain('Policy changes: allowed');
+  });
+});
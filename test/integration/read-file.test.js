@@ -0,0 +1,152 @@
+/**
+ * Integration tests for reading whole files and parts of them
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { readFileRange, writeFile, decodeBase64 } from '../../dist/tools/filesystem.js';
+import { getServerConfig, parseServerConfig, setServerConfig } from '../../dist/server-config.js';
+
+// A 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('Read File Integration Tests', () => {
+  let testDir;
+  let file;
+  let previousConfig;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-read-')));
+    file = path.join(testDir, 'lines.txt');
+    await fs.writeFile(file, Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n');
+    previousConfig = getServerConfig();
+  });
+
+  afterEach(async () => {
+    setServerConfig(previousConfig);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should read the whole file', async () => {
+    const result = await readFileRange(file);
+
+    expect(result.text).toBe(await fs.readFile(file, 'utf-8'));
+    expect(result.totalLines).toBe(20);
+    expect(result.note).toBeUndefined();
+  });
+
+  it('should read a range of lines', async () => {
+    const result = await readFileRange(file, { startLine: 3, endLine: 5 });
+
+    expect(result.text).toBe('line 3\nline 4\nline 5\n');
+    expect(result.note).toBe('[Lines 3-5 of 20]');
+  });
+
+  it('should read to the end without endLine and stop at the last line', async () => {
+    expect((await readFileRange(file, { startLine: 19 })).text).toBe('line 19\nline 20\n');
+    expect((await readFileRange(file, { startLine: 19, endLine: 100 })).note).toBe('[Lines 19-20 of 20]');
+    expect((await readFileRange(file, { startLine: 30 })).note).toBe('[No lines returned, the file has 20 lines]');
+  });
+
+  it('should read the last lines', async () => {
+    const result = await readFileRange(file, { tail: 2, lineNumbers: true });
+
+    expect(result.text).toBe('    19\tline 19\n    20\tline 20\n');
+    expect(result.note).toBe('[Lines 19-20 of 20]');
+  });
+
+  it('should read the last lines without counting the lines of the file', async () => {
+    const result = await readFileRange(file, { tail: 3 });
+
+    expect(result.text).toBe('line 18\nline 19\nline 20\n');
+    expect(result.note).toBe('[Last 3 lines]');
+    expect(result.totalLines).toBeUndefined();
+    expect((await readFileRange(file, { tail: 50 })).text).toBe(await fs.readFile(file, 'utf-8'));
+  });
+
+  it('should read the last lines of a UTF-16 file with CRLF line endings', async () => {
+    const utf16 = path.join(testDir, 'utf16.txt');
+    await fs.writeFile(utf16, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('one\r\ntwo\r\nthree\r\n', 'utf16le')]));
+
+    expect((await readFileRange(utf16, { tail: 2 })).text).toBe('two\r\nthree\r\n');
+    expect((await readFileRange(utf16, { tail: 3 })).text).toBe('one\r\ntwo\r\nthree\r\n');
+  });
+
+  it('should read a byte range and number its lines', async () => {
+    const result = await readFileRange(file, { offset: 7, length: 14, lineNumbers: true });
+
+    expect(result.text).toBe('     2\tline 2\n     3\tline 3\n');
+    expect(result.note).toBe('[14 bytes from offset 7 of 151]');
+    expect(result.totalLines).toBeUndefined();
+  });
+
+  it('should count a last line without a line ending', async () => {
+    await fs.writeFile(file, 'a\nb');
+
+    expect((await readFileRange(file, { tail: 1 })).text).toBe('b');
+    expect((await readFileRange(file)).totalLines).toBe(2);
+  });
+
+  it('should summarize content larger than the limit unless full is set', async () => {
+    setServerConfig(parseServerConfig({ maxReadBytes: 50 }));
+
+    const summary = await readFileRange(file);
+    expect(summary.isSummary).toBe(true);
+    expect(summary.text).toContain(`${file} has 151 bytes in 20 lines`);
+    expect(summary.text).toContain('larger than the 50 bytes returned at once');
+
+    expect((await readFileRange(file, { startLine: 1, endLine: 20 })).text).toContain('The requested part (lines 1 to 20) is larger');
+    expect((await readFileRange(file, { startLine: 1, endLine: 3 })).isSummary).toBe(false);
+    expect((await readFileRange(file, { tail: 20 })).text).toBe(`${file} has 151 bytes. The requested part (the last 20 lines) is larger ` +
+      'than the 50 bytes returned at once, so no content was returned.\n' +
+      'Read part of it with startLine and endLine, offset and length, or tail, or set full to true to return it anyway.');
+    expect((await readFileRange(file, { full: true })).text).toBe(await fs.readFile(file, 'utf-8'));
+  });
+
+  it('should reject combined or reversed ranges', async () => {
+    await expect(readFileRange(file, { startLine: 1, tail: 2 })).rejects.toThrow("can't be combined");
+    await expect(readFileRange(file, { startLine: 5, endLine: 2 })).rejects.toThrow('endLine 2 is before startLine 5');
+    await expect(readFileRange(testDir)).rejects.toThrow('is a directory');
+  });
+
+  it('should return images as base64 unless they are larger than maxImageBytes', async () => {
+    const image = path.join(testDir, 'pixel.png');
+    await fs.writeFile(image, Buffer.from(PNG_BASE64, 'base64'));
+
+    const result = await readFileRange(image);
+    expect(result.image).toEqual({ data: PNG_BASE64, mimeType: 'image/png' });
+    expect(result.text).toBe(`${image} is a PNG image of 68 bytes.`);
+
+    setServerConfig(parseServerConfig({ maxImageBytes: 50 }));
+    const summary = await readFileRange(image);
+    expect(summary.image).toBeUndefined();
+    expect(summary.text).toContain('larger than the 50 bytes returned as an image at once');
+    expect((await readFileRange(image, { full: true })).image).toBeDefined();
+  });
+
+  it('should show a hex dump of binary files', async () => {
+    const binary = path.join(testDir, 'data.bin');
+    await fs.writeFile(binary, Buffer.from(Array.from({ length: 300 }, (_, index) => index % 256)));
+
+    const preview = await readFileRange(binary);
+    expect(preview.text).toContain(`${binary} is a binary file of 300 bytes. It isn't text, so only a hex dump of its first 256 bytes is shown`);
+    expect(preview.text).toContain('000000f0  f0 f1 f2 f3');
+    expect(preview.text).not.toContain('00000100');
+
+    const range = await readFileRange(binary, { offset: 0x104, length: 4 });
+    expect(range.text).toBe('00000104  04 05 06 07                                       |....|');
+    expect(range.note).toBe('[4 bytes from offset 260 of 300, binary file]');
+
+    await expect(readFileRange(binary, { tail: 5 })).rejects.toThrow('not text, so it has no lines');
+  });
+
+  it('should write base64 content as bytes', async () => {
+    const image = path.join(testDir, 'written.png');
+
+    await writeFile(image, decodeBase64(PNG_BASE64.replace(/(.{20})/g, '$1\n')));
+
+    expect((await fs.readFile(image)).toString('base64')).toBe(PNG_BASE64);
+    expect(() => decodeBase64('not base64!')).toThrow('content is not valid base64');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Integration tests for finding files by name, glob, type, size and
+ * modification time
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { searchFiles } from '../../dist/tools/filesystem.js';
+import { getServerConfig, parseServerConfig, setServerConfig } from '../../dist/server-config.js';
+
+describe('Search Files Integration Tests', () => {
+  let testDir;
+  let previousConfig;
+
+  const write = async (relative, content = '') => {
+    const file = path.join(testDir, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+    return file;
+  };
+  const relativePaths = result => result.paths.map(entry => path.relative(testDir, entry).split(path.sep).join('/'));
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-search-')));
+    previousConfig = getServerConfig();
+    await write('src/app.ts', 'x'.repeat(100));
+    await write('src/app.test.ts', 'x'.repeat(2000));
+    await write('src/util/format.test.ts');
+    await write('test/app.ts');
+    await write('node_modules/lib/app.ts');
+    await write('.git/app.ts');
+  });
+
+  afterEach(async () => {
+    setServerConfig(previousConfig);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should match names containing the pattern in substring mode', async () => {
+    expect(relativePaths(await searchFiles(testDir, 'APP'))).toEqual(['src/app.test.ts', 'src/app.ts', 'test/app.ts']);
+    expect(relativePaths(await searchFiles(testDir, '*.ts'))).toEqual([]);
+  });
+
+  it('should match paths relative to the directory in glob mode', async () => {
+    expect(relativePaths(await searchFiles(testDir, 'src/**/*.test.ts', { mode: 'glob' })))
+      .toEqual(['src/app.test.ts', 'src/util/format.test.ts']);
+    expect(relativePaths(await searchFiles(testDir, '*.test.ts', { mode: 'glob' })))
+      .toEqual(['src/app.test.ts', 'src/util/format.test.ts']);
+    expect(relativePaths(await searchFiles(testDir, 'src/*', { mode: 'glob' })))
+      .toEqual(['src/app.test.ts', 'src/app.ts', 'src/util']);
+  });
+
+  it('should filter by entry type', async () => {
+    expect(relativePaths(await searchFiles(testDir, 'src/**', { mode: 'glob', type: 'directory' }))).toEqual(['src/util']);
+    expect(relativePaths(await searchFiles(testDir, 't', { type: 'directory' }))).toEqual(['src/util', 'test']);
+  });
+
+  it('should filter files by size', async () => {
+    expect(relativePaths(await searchFiles(testDir, 'app', { minSize: 50 }))).toEqual(['src/app.test.ts', 'src/app.ts']);
+    expect(relativePaths(await searchFiles(testDir, 'app', { minSize: 50, maxSize: 1000 }))).toEqual(['src/app.ts']);
+  });
+
+  it('should filter by modification time', async () => {
+    const old = new Date('2020-01-01T00:00:00Z');
+    await fs.utimes(path.join(testDir, 'src', 'app.ts'), old, old);
+
+    expect(relativePaths(await searchFiles(testDir, 'app', { modifiedBefore: '2021-01-01' }))).toEqual(['src/app.ts']);
+    expect(relativePaths(await searchFiles(testDir, 'app', { type: 'file', modifiedAfter: '1d' })))
+      .toEqual(['src/app.test.ts', 'test/app.ts']);
+    await expect(searchFiles(testDir, 'app', { modifiedAfter: 'last week' }))
+      .rejects.toThrow('modifiedAfter must be a date such as 2024-05-01 or a duration such as 7d');
+  });
+
+  it('should skip the configured and given excludes and optionally .gitignore', async () => {
+    await write('.gitignore', 'test/\n');
+
+    expect(relativePaths(await searchFiles(testDir, 'app', { exclude: ['*.test.ts'] }))).toEqual(['src/app.ts', 'test/app.ts']);
+    expect(relativePaths(await searchFiles(testDir, 'app', { gitignore: true }))).toEqual(['src/app.test.ts', 'src/app.ts']);
+
+    setServerConfig(parseServerConfig({ searchExclude: ['src'] }));
+    expect(relativePaths(await searchFiles(testDir, 'app.ts'))).toEqual(['.git/app.ts', 'node_modules/lib/app.ts', 'test/app.ts']);
+  });
+
+  it('should stop at maxResults and report that there are more', async () => {
+    const limited = await searchFiles(testDir, 'app', { maxResults: 2 });
+    expect(limited).toEqual({ paths: [path.join(testDir, 'src', 'app.test.ts'), path.join(testDir, 'src', 'app.ts')], truncated: true });
+
+    expect((await searchFiles(testDir, 'app', { maxResults: 3 })).truncated).toBe(false);
+  });
+});
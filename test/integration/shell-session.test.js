@@ -0,0 +1,172 @@
+/**
+ * Integration tests for persistent shell sessions
+ */
+import { describe, it, expect, afterAll, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import { spawnSync } from 'child_process';
+import {
+  createShellSession,
+  runInShellSession,
+  readShellOutput,
+  listShellSessions,
+  closeShellSession
+} from '../../dist/tools/shell-session.js';
+import { ShellSessionManager } from '../../dist/shell-session-manager.js';
+import { getServerConfig, parseServerConfig, setServerConfig } from '../../dist/server-config.js';
+
+const isWindows = process.platform === 'win32';
+const hasZsh = spawnSync('zsh', ['-c', 'true']).status === 0;
+const sessionName = `test-session-${Date.now()}`;
+
+describe.skipIf(isWindows)('Shell Session Integration Tests', () => {
+  afterAll(async () => {
+    await closeShellSession({ name: sessionName });
+  });
+
+  it('should create a named session', async () => {
+    const result = await createShellSession({ name: sessionName, shell: 'sh', cwd: os.tmpdir() });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain(sessionName);
+  });
+
+  it('should reject a duplicate session name', async () => {
+    const result = await createShellSession({ name: sessionName });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('already exists');
+  });
+
+  it('should keep environment variables and working directory between commands', async () => {
+    await runInShellSession({ name: sessionName, command: 'export GREETING=hello && cd /', timeout_ms: 2000 });
+    const result = await runInShellSession({ name: sessionName, command: 'echo "$GREETING from $(pwd)"', timeout_ms: 2000 });
+
+    expect(result.content[0].text).toContain('hello from /');
+    expect(result.content[0].text).toContain('Working directory: /');
+  });
+
+  it('should report each command exit code and stderr separately', async () => {
+    const result = await runInShellSession({ name: sessionName, command: 'echo oops >&2; false', timeout_ms: 2000 });
+
+    expect(result.content[0].text).toContain('stderr:\noops');
+    expect(result.content[0].text).toContain('Exit code: 1');
+  });
+
+  it('should return partial output for commands that outlive the timeout', async () => {
+    const started = await runInShellSession({ name: sessionName, command: 'echo first; sleep 1; echo second', timeout_ms: 300 });
+
+    expect(started.content[0].text).toContain('first');
+    expect(started.content[0].text).toContain('still running');
+
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    const rest = await readShellOutput({ name: sessionName });
+
+    expect(rest.content[0].text).toContain('second');
+    expect(rest.content[0].text).not.toContain('first');
+    expect(rest.content[0].text).toContain('Exit code: 0');
+  });
+
+  it('should list the session', async () => {
+    const result = await listShellSessions();
+
+    expect(result.content[0].text).toContain(`Name: ${sessionName}`);
+    expect(result.content[0].text).toContain('Status: Idle');
+  });
+});
+
+describe.skipIf(isWindows)('Shell session input handling', () => {
+  const manager = new ShellSessionManager();
+
+  afterAll(async () => {
+    await manager.shutdown(500);
+  });
+
+  it('should reject incomplete commands without writing them to the shell', async () => {
+    manager.createSession('incomplete', { cwd: os.tmpdir() });
+    await manager.runCommand('incomplete', 'cd / && export KEPT=yes', 2000);
+
+    await expect(manager.runCommand('incomplete', 'if true', 2000)).rejects.toThrow('Invalid command');
+    await expect(manager.runCommand('incomplete', 'cat <<EOF\nabc', 2000)).rejects.toThrow('Unterminated here-document');
+
+    const result = await manager.runCommand('incomplete', 'echo "$KEPT"', 2000);
+    expect(result).toMatchObject({ stdout: 'yes\n', exitCode: 0, cwd: '/', isRunning: false, shellExited: false });
+  });
+
+  it('should keep the shell running after a syntax error the shell reports', async () => {
+    manager.createSession('syntax-error', { shell: 'bash', cwd: os.tmpdir() });
+    await manager.runCommand('syntax-error', 'cd / && export KEPT=yes', 2000);
+
+    const failed = await manager.runCommand('syntax-error', '[[ a < ]]', 2000);
+    expect(failed).toMatchObject({ exitCode: 2, isRunning: false, shellExited: false });
+
+    const result = await manager.runCommand('syntax-error', `echo "$KEPT" 'quoted'`, 2000);
+    expect(result).toMatchObject({ stdout: 'yes quoted\n', exitCode: 0, cwd: '/' });
+  });
+
+  it.skipIf(!hasZsh)('should run commands and survive syntax errors in zsh sessions', async () => {
+    manager.createSession('zsh', { shell: 'zsh', cwd: os.tmpdir() });
+    await manager.runCommand('zsh', 'cd / && export KEPT=yes', 2000);
+
+    const failed = await manager.runCommand('zsh', '[[ a < ]]', 2000);
+    expect(failed).toMatchObject({ isRunning: false, shellExited: false });
+    expect(failed.exitCode).not.toBe(0);
+
+    const result = await manager.runCommand('zsh', `echo "$KEPT" 'quoted'`, 2000);
+    expect(result).toMatchObject({ stdout: 'yes quoted\n', exitCode: 0, cwd: '/' });
+  });
+});
+
+describe.skipIf(isWindows)('Shell session resource limits', () => {
+  const manager = new ShellSessionManager();
+  let previousConfig;
+
+  beforeEach(() => {
+    previousConfig = getServerConfig();
+  });
+
+  afterEach(() => {
+    setServerConfig(previousConfig);
+  });
+
+  afterAll(async () => {
+    await manager.shutdown(500);
+  });
+
+  it('should set the kernel limits on the session shell', async () => {
+    setServerConfig(parseServerConfig({ commandLimits: { maxMemoryMb: 512, maxOpenFiles: 64 } }));
+    manager.createSession('kernel-limits', { cwd: os.tmpdir() });
+
+    const result = await manager.runCommand('kernel-limits', 'ulimit -v; ulimit -n', 2000);
+
+    expect(result.stdout).toBe('524288\n64\n');
+  });
+
+  it('should kill the session when a command reaches the runtime limit', async () => {
+    setServerConfig(parseServerConfig({ commandLimits: { maxRuntimeMs: 300 } }));
+    manager.createSession('runtime-limit', { cwd: os.tmpdir() });
+
+    const result = await manager.runCommand('runtime-limit', 'sleep 5', 3000);
+
+    expect(result).toMatchObject({ limitExceeded: 'runtime', isRunning: false, shellExited: true });
+    expect(manager.listSessions().map(session => session.name)).not.toContain('runtime-limit');
+  });
+
+  it('should kill the session when a command exceeds the output limit', async () => {
+    setServerConfig(parseServerConfig({ commandLimits: { maxOutputBytes: 1000 } }));
+    manager.createSession('output-limit', { cwd: os.tmpdir() });
+
+    const result = await manager.runCommand('output-limit', 'yes', 3000);
+
+    expect(result).toMatchObject({ limitExceeded: 'output', shellExited: true });
+  });
+
+  it('should report a CPU limit violation through the tool result', async () => {
+    setServerConfig(parseServerConfig({ commandLimits: { maxCpuSeconds: 1 } }));
+    const name = `cpu-limit-${Date.now()}`;
+    await createShellSession({ name, cwd: os.tmpdir() });
+
+    const result = await runInShellSession({ name, command: 'while :; do :; done', timeout_ms: 10000 });
+
+    expect(result.content[0].text).toContain('Limit exceeded: killed after using more than 1s of CPU time');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Integration tests for cleaning up sessions when the server shuts down
+ */
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { isProcessAlive } from '../test-helpers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const serverPath = path.join(__dirname, '../../dist/index.js');
+const isWindows = process.platform === 'win32';
+
+
+function send(server, message) {
+  server.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+// Resolves with the response to the request with the given id
+function response(server, id) {
+  return new Promise((resolve) => {
+    let buffered = '';
+    const onData = (data) => {
+      buffered += data.toString();
+      for (const line of buffered.split('\n')) {
+        try {
+          const message = JSON.parse(line);
+          if (message.id === id) {
+            server.stdout.off('data', onData);
+            resolve(message);
+          }
+        } catch {
+          // Incomplete line or not JSON
+        }
+      }
+    };
+    server.stdout.on('data', onData);
+  });
+}
+
+describe.skipIf(isWindows)('Server Shutdown Integration Tests', () => {
+  it('should kill running sessions and their children when stdin closes', async () => {
+    const server = spawn(process.execPath, [serverPath], { stdio: ['pipe', 'pipe', 'ignore'] });
+
+    send(server, {
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    });
+    await response(server, 1);
+    send(server, { method: 'notifications/initialized' });
+
+    send(server, {
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'desktop_cmd_run', arguments: { command: 'sleep 30 & echo $!; wait', timeout_ms: 300 } }
+    });
+    const result = await response(server, 2);
+    const childPid = parseInt(result.result.content[0].text.match(/stdout:\n(\d+)/)[1], 10);
+    expect(isProcessAlive(childPid)).toBe(true);
+
+    const exited = new Promise(resolve => server.on('exit', resolve));
+    server.stdin.end();
+    await exited;
+
+    expect(isProcessAlive(childPid)).toBe(false);
+  });
+});
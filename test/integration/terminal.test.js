@@ -2,8 +2,14 @@
  * Integration tests for terminal commands
  */
 import { describe, it, expect } from 'vitest';
-import { executeCommand, readOutput, forceTerminate } from '../../dist/tools/execute.js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import net from 'net';
+import { executeCommand, readOutput, sendInput, waitFor, forceTerminate, sessionHistory } from '../../dist/tools/execute.js';
+import { TerminalManager } from '../../dist/terminal-manager.js';
 import { listProcesses } from '../../dist/tools/process.js';
+import { isProcessAlive } from '../test-helpers.js';
 
 describe('Terminal Integration Tests', () => {
   describe('executeCommand', () => {
@@ -46,6 +52,457 @@ describe('Terminal Integration Tests', () => {
     });
   });
   
+  describe('readOutput', () => {
+    const isWindows = process.platform === 'win32';
+
+    async function runToCompletion(command) {
+      const result = await executeCommand({ command, timeout_ms: 2000 });
+      return parseInt(result.content[0].text.match(/PID (\d+)/)[1], 10);
+    }
+
+    it.skipIf(isWindows)('should keep output readable after it has been read', async () => {
+      const pid = await runToCompletion('seq 1 5');
+
+      const first = await readOutput({ pid, mode: 'all' });
+      const second = await readOutput({ pid, mode: 'all' });
+
+      expect(first.content[0].text).toContain('1\n2\n3\n4\n5');
+      expect(second.content[0].text).toBe(first.content[0].text);
+    });
+
+    it.skipIf(isWindows)('should only return unread output in new mode', async () => {
+      const pid = await runToCompletion('seq 1 3');
+
+      const result = await readOutput({ pid });
+
+      expect(result.content[0].text).toContain('No new output available');
+      expect(result.content[0].text).toContain('exit code 0');
+    });
+
+    it.skipIf(isWindows)('should return head and tail lines', async () => {
+      const pid = await runToCompletion('seq 1 500');
+
+      const head = await readOutput({ pid, mode: 'head', lines: 2 });
+      const tail = await readOutput({ pid, mode: 'tail', lines: 2 });
+
+      expect(head.content[0].text).toContain('1\n2\n[bytes');
+      expect(tail.content[0].text).toContain('499\n500\n[bytes');
+    });
+
+    it.skipIf(isWindows)('should return a byte range and continue from a cursor', async () => {
+      const pid = await runToCompletion('printf "abcdefghij"');
+
+      const range = await readOutput({ pid, mode: 'range', offset: 2, length: 3 });
+      const fromCursor = await readOutput({ pid, cursor: 7 });
+
+      expect(range.content[0].text).toContain('cde\n[bytes 2-5 of 10');
+      expect(fromCursor.content[0].text).toContain('hij');
+    });
+
+    it.skipIf(isWindows)('should grep output with context lines', async () => {
+      const pid = await runToCompletion('printf "ok\\nstill ok\\nERROR: broken\\nafter\\nmore\\n"');
+
+      const result = await readOutput({ pid, mode: 'grep', pattern: 'error', ignore_case: true, context: 1 });
+
+      expect(result.content[0].text).toContain('1 matching lines');
+      expect(result.content[0].text).toContain('2- still ok\n3: ERROR: broken\n4- after');
+      expect(result.content[0].text).not.toContain('5- more');
+    });
+
+    it('should report unknown sessions', async () => {
+      const result = await readOutput({ pid: 999999 });
+
+      expect(result.content[0].text).toContain('No session found');
+    });
+  });
+
+  describe('execution options', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should run in the requested working directory', async () => {
+      const cwd = await fs.realpath(os.tmpdir());
+      const result = await executeCommand({ command: 'pwd', cwd, timeout_ms: 1000 });
+
+      expect(result.content[0].text).toContain(cwd);
+    });
+
+    it('should reject a working directory outside allowed directories', async () => {
+      const result = await executeCommand({ command: 'pwd', cwd: path.join(os.homedir(), 'Desktop'), timeout_ms: 1000 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Access denied');
+    });
+
+    it.skipIf(isWindows)('should merge env over the server environment', async () => {
+      const result = await executeCommand({
+        command: 'echo "$DC_TEST_VALUE:$PATH"',
+        env: { DC_TEST_VALUE: 'merged' },
+        timeout_ms: 1000
+      });
+
+      expect(result.content[0].text).toContain(`merged:${process.env.PATH}`);
+    });
+
+    it.skipIf(isWindows)('should pass args without shell interpolation', async () => {
+      const result = await executeCommand({
+        command: 'echo',
+        shell: 'none',
+        args: ['$HOME', 'a b'],
+        timeout_ms: 1000
+      });
+
+      expect(result.content[0].text).toContain('$HOME a b');
+    });
+
+    it('should reject args unless shell is none', async () => {
+      const result = await executeCommand({ command: 'echo', args: ['x'], timeout_ms: 1000 });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it('should report executables that cannot be started', async () => {
+      const result = await executeCommand({
+        command: 'definitely-not-a-real-binary',
+        shell: 'none',
+        timeout_ms: 1000
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('ENOENT');
+    });
+  });
+
+  describe('structured results', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should report stdout and stderr separately with the exit code', async () => {
+      const result = await executeCommand({ command: 'echo out; echo err >&2; exit 3', timeout_ms: 2000 });
+      const text = result.content[0].text;
+
+      expect(text).toContain('stdout:\nout\n');
+      expect(text).toContain('stderr:\nerr\n');
+      expect(text).toContain('exit code 3');
+    });
+
+    it.skipIf(isWindows)('should keep the original order when interleaved', async () => {
+      const result = await executeCommand({
+        command: 'echo one; sleep 0.1; echo two >&2; sleep 0.1; echo three',
+        interleaved: true,
+        timeout_ms: 2000
+      });
+
+      expect(result.content[0].text).toContain('one\ntwo\nthree\n');
+    });
+
+    it.skipIf(isWindows)('should return a JSON result with exit status fields', async () => {
+      const result = await executeCommand({ command: 'echo out; echo err >&2; exit 2', format: 'json', timeout_ms: 2000 });
+      const json = JSON.parse(result.content[0].text);
+
+      expect(json).toMatchObject({ isRunning: false, exitCode: 2, signal: null, truncated: false, stdout: 'out\n', stderr: 'err\n' });
+      expect(new Date(json.endTime).getTime()).toBeGreaterThanOrEqual(new Date(json.startTime).getTime());
+    });
+
+    it.skipIf(isWindows)('should report the terminating signal', async () => {
+      const started = await executeCommand({ command: 'sleep', shell: 'none', args: ['5'], format: 'json', timeout_ms: 100 });
+      const pid = JSON.parse(started.content[0].text).pid;
+
+      process.kill(pid, 'SIGTERM');
+      await new Promise(resolve => setTimeout(resolve, 200));
+      const result = await readOutput({ pid, format: 'json' });
+
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ isRunning: false, exitCode: null, signal: 'SIGTERM' });
+    });
+  });
+
+  describe('waitFor', () => {
+    const isWindows = process.platform === 'win32';
+
+    async function start(command) {
+      const result = await executeCommand({ command, format: 'json', timeout_ms: 100 });
+      return JSON.parse(result.content[0].text).pid;
+    }
+
+    it.skipIf(isWindows)('should return when output matches a pattern', async () => {
+      const pid = await start('sleep 0.3; echo "Server listening on port 1234"; sleep 5');
+
+      const result = await waitFor({ pid, pattern: 'listening on port \\d+', ignore_case: true, timeout_ms: 3000 });
+
+      expect(result.content[0].text).toContain('matched pattern on line 1');
+      expect(result.content[0].text).toContain('Server listening on port 1234');
+      await forceTerminate({ pid });
+    });
+
+    it.skipIf(isWindows)('should return when the process exits', async () => {
+      const pid = await start('sleep 0.3; echo done; exit 4');
+
+      const result = await waitFor({ pid, pattern: 'never printed', timeout_ms: 3000 });
+
+      expect(result.content[0].text).toContain('Process exited with code 4');
+      expect(result.content[0].text).toContain('done');
+    });
+
+    it.skipIf(isWindows)('should time out while the process keeps running', async () => {
+      const pid = await start('sleep 5');
+
+      const result = await waitFor({ pid, pattern: 'never printed', timeout_ms: 300 });
+
+      expect(result.content[0].text).toContain('Timed out');
+      await forceTerminate({ pid });
+    });
+
+    it('should return when a port starts accepting connections', async () => {
+      const port = await new Promise(resolve => {
+        const probe = net.createServer().listen(0, '127.0.0.1', () => {
+          const { port } = probe.address();
+          probe.close(() => resolve(port));
+        });
+      });
+      const script = `setTimeout(() => require('net').createServer().listen(${port}, '127.0.0.1'), 300)`;
+      const started = await executeCommand({ command: process.execPath, shell: 'none', args: ['-e', script], format: 'json', timeout_ms: 100 });
+      const pid = JSON.parse(started.content[0].text).pid;
+
+      const result = await waitFor({ pid, port, timeout_ms: 5000 });
+
+      expect(result.content[0].text).toContain(`Port ${port} is accepting connections`);
+      await forceTerminate({ pid });
+    });
+  });
+
+  describe('sendInput', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should answer a prompt from a running command', async () => {
+      const result = await executeCommand({
+        command: 'read answer; echo "Got: $answer"',
+        timeout_ms: 200
+      });
+      const pid = parseInt(result.content[0].text.match(/PID (\d+)/)[1], 10);
+
+      const response = await sendInput({ pid, input: 'yes', wait_ms: 1000 });
+
+      expect(response.content[0].text).toContain('Got: yes');
+    });
+
+    it.skipIf(isWindows)('should send a bare Enter for empty input', async () => {
+      const result = await executeCommand({
+        command: 'read answer; echo "Got: [$answer]"',
+        timeout_ms: 200
+      });
+      const pid = parseInt(result.content[0].text.match(/PID (\d+)/)[1], 10);
+
+      const response = await sendInput({ pid, input: '', newline: true, wait_ms: 1000 });
+
+      expect(response.content[0].text).toContain('Got: []');
+    });
+
+    it.skipIf(isWindows)('should close stdin when eof is requested', async () => {
+      const result = await executeCommand({
+        command: 'cat',
+        timeout_ms: 200
+      });
+      const pid = parseInt(result.content[0].text.match(/PID (\d+)/)[1], 10);
+
+      const response = await sendInput({ pid, input: 'echoed back', eof: true, wait_ms: 1000 });
+
+      expect(response.content[0].text).toContain('echoed back');
+      expect(response.content[0].text).toContain('exit code 0');
+    });
+
+    it('should report unknown sessions', async () => {
+      const response = await sendInput({ pid: 999999, input: 'ignored' });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('No active session');
+    });
+  });
+
+  describe('forceTerminate', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should terminate child processes of the session', async () => {
+      const started = await executeCommand({ command: 'sleep 30 & echo $!; wait', timeout_ms: 300 });
+      const pid = parseInt(started.content[0].text.match(/PID (\d+)/)[1], 10);
+      const childPid = parseInt(started.content[0].text.match(/stdout:\n(\d+)/)[1], 10);
+      expect(isProcessAlive(childPid)).toBe(true);
+
+      const result = await forceTerminate({ pid, signal: 'SIGTERM', grace_ms: 200 });
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      expect(result.content[0].text).toContain('Successfully initiated termination');
+      expect(isProcessAlive(childPid)).toBe(false);
+    });
+  });
+
+  describe('resource limits', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should kill the process tree when the runtime limit is reached', async () => {
+      const result = await executeCommand({
+        command: 'sleep 30 & echo $!; wait',
+        timeout_ms: 5000,
+        limits: { max_runtime_ms: 300 }
+      });
+      const text = result.content[0].text;
+      const childPid = parseInt(text.match(/stdout:\n(\d+)/)[1], 10);
+
+      expect(text).toContain('maximum runtime of 300ms');
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      expect(isProcessAlive(childPid)).toBe(false);
+    });
+
+    it.skipIf(isWindows)('should stop a command at the output limit', async () => {
+      const result = await executeCommand({
+        command: 'yes',
+        shell: 'none',
+        timeout_ms: 5000,
+        limits: { max_output_bytes: 1000 },
+        format: 'json'
+      });
+      const json = JSON.parse(result.content[0].text);
+
+      expect(json.limitExceeded).toBe('output');
+      expect(json.stdout.length).toBe(1000);
+    });
+
+    it.skipIf(isWindows)('should report a CPU limit violation', async () => {
+      const result = await executeCommand({
+        command: 'while :; do :; done',
+        timeout_ms: 10000,
+        limits: { max_cpu_seconds: 1 }
+      });
+
+      expect(result.content[0].text).toContain('more than 1s of CPU time');
+    });
+
+    it.skipIf(isWindows)('should apply limits to commands run without a shell', async () => {
+      const result = await executeCommand({
+        command: 'sh',
+        args: ['-c', 'ulimit -n'],
+        shell: 'none',
+        timeout_ms: 5000,
+        limits: { max_open_files: 64 }
+      });
+
+      expect(result.content[0].text).toContain('stdout:\n64\n');
+    });
+  });
+
+  describe('output normalization', () => {
+    const isWindows = process.platform === 'win32';
+    const progressCommand = "printf '\\033[1mbuild\\033[0m\\n10%%\\r50%%\\r100%%\\n'";
+
+    it.skipIf(isWindows)('should normalize output of commands run with normalize', async () => {
+      const result = await executeCommand({ command: progressCommand, timeout_ms: 5000, normalize: true });
+
+      expect(result.content[0].text).toContain('stdout:\nbuild\n100%\n');
+    });
+
+    it.skipIf(isWindows)('should still return raw output on request', async () => {
+      const started = await executeCommand({ command: progressCommand, timeout_ms: 5000, normalize: true, format: 'json' });
+      const { pid } = JSON.parse(started.content[0].text);
+
+      const normalized = JSON.parse((await readOutput({ pid, mode: 'all', format: 'json' })).content[0].text);
+      const raw = JSON.parse((await readOutput({ pid, mode: 'all', raw: true, format: 'json' })).content[0].text);
+
+      expect(normalized.stdout).toBe('build\n100%\n');
+      expect(raw.stdout).toBe('\x1b[1mbuild\x1b[0m\n10%\r50%\r100%\n');
+      expect(raw.normalized).toBe(false);
+    });
+
+    it.skipIf(isWindows)('should leave output alone by default', async () => {
+      const result = await executeCommand({ command: progressCommand, timeout_ms: 5000, format: 'json' });
+
+      expect(JSON.parse(result.content[0].text).stdout).toContain('\r50%');
+    });
+  });
+
+  describe('response budget', () => {
+    const isWindows = process.platform === 'win32';
+
+    it.skipIf(isWindows)('should shorten long output and explain how to page through it', async () => {
+      const result = await executeCommand({
+        command: 'seq 1 5000; echo "error: something broke" >&2',
+        timeout_ms: 5000,
+        max_lines: 20,
+        interleaved: true
+      });
+      const text = result.content[0].text;
+      const offset = parseInt(text.match(/"offset": (\d+)/)[1], 10);
+
+      expect(text).toContain('lines (');
+      expect(text).toContain('omitted');
+      expect(text).toContain('error: something broke');
+      expect(text).toContain('"mode": "range"');
+      expect(offset).toBe('1\n2\n3\n4\n5\n6\n7\n'.length);
+    });
+
+    it.skipIf(isWindows)('should apply the budget to reads of session output', async () => {
+      const started = await executeCommand({ command: 'seq 1 5000', timeout_ms: 5000, max_lines: 0, format: 'json' });
+      const { pid, stdout } = JSON.parse(started.content[0].text);
+      expect(stdout.split('\n')).toHaveLength(5001);
+
+      const result = await readOutput({ pid, mode: 'all', max_bytes: 100 });
+
+      expect(result.content[0].text).toContain('omitted');
+      expect(result.content[0].text).toContain('4999\n5000\n');
+    });
+  });
+
+  describe('sessionHistory', () => {
+    it('should list finished sessions with their command and exit code', async () => {
+      const marker = `history-${Date.now()}`;
+      await executeCommand({ command: `echo ${marker}`, timeout_ms: 5000 });
+      await executeCommand({ command: `echo ${marker} && exit 3`, timeout_ms: 5000 });
+
+      const result = await sessionHistory({ command: marker, format: 'json' });
+      const { sessions } = JSON.parse(result.content[0].text);
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0].command).toBe(`echo ${marker} && exit 3`);
+      expect(sessions[0].exitCode).toBe(3);
+      expect(sessions[0].cwd).toBe(process.cwd());
+      expect(sessions[1].outputBytes).toBe(marker.length + 1);
+    });
+
+    it('should filter failed sessions and time ranges', async () => {
+      const marker = `failed-${Date.now()}`;
+      const before = new Date().toISOString();
+      await executeCommand({ command: `echo ${marker}`, timeout_ms: 5000 });
+      await executeCommand({ command: `echo ${marker}; false`, timeout_ms: 5000 });
+
+      const failed = await sessionHistory({ command: marker, failed_only: true });
+      expect(failed.content[0].text).toContain('Showing 1 of 1 matching sessions');
+      expect(failed.content[0].text).toContain(`$ echo ${marker}; false`);
+
+      const earlier = await sessionHistory({ command: marker, until: before });
+      expect(earlier.content[0].text).toBe('No matching sessions');
+    });
+
+    it('should re-read the output of a past session by ID', async () => {
+      const started = await executeCommand({ command: 'echo from the past', timeout_ms: 5000, format: 'json' });
+      const { sessionId } = JSON.parse(started.content[0].text);
+
+      const result = await readOutput({ session_id: sessionId, mode: 'all' });
+
+      expect(result.content[0].text).toContain('from the past');
+      expect(result.content[0].text).toContain('exit code 0');
+    });
+
+    it('should keep history entries after their output is discarded', async () => {
+      const manager = new TerminalManager();
+      for (let i = 0; i < 101; i++) {
+        await manager.executeCommand('true', 5000, { shell: 'none' });
+      }
+
+      const history = manager.listHistory({ limit: 200 });
+      const oldest = history.entries[history.entries.length - 1];
+
+      expect(history.totalMatches).toBe(101);
+      expect(oldest.outputAvailable).toBe(false);
+      expect(() => manager.readOutputById(oldest.id)).toThrow('no longer retained');
+    });
+  });
+
   describe('Process Management', () => {
     it('should list processes', async () => {
       const processes = await listProcesses({});
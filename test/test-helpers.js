@@ -1,7 +1,7 @@
 /**
  * Common test helper functions and utilities
  */
-import { promises as fs } from 'fs';
+import { promises as fs, readFileSync } from 'fs';
 import path from 'path';
 import os from 'os';
 import { setupTestTempDirectories, addTestDirectory } from '../dist/tools/filesystem.js';
@@ -113,4 +113,24 @@ export async function createTestStructure(baseDir, structure) {
     const filePath = path.join(baseDir, structure.name);
     await fs.writeFile(filePath, structure.content || '');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks if a process is still running
+ * @param {number} pid - Process ID to check
+ * @returns {boolean} True if the process exists and is not a zombie
+ */
+export function isProcessAlive(pid) {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+
+  // Killed processes linger as zombies until their parent reaps them
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CommandManager, commandManager } from '../../dist/command-manager.js';
+import { configManager } from '../../dist/config-manager.js';
+import { DEFAULT_COMMAND_POLICY } from '../../dist/utils/command-policy.js';
+
+describe('CommandManager.checkCommand', () => {
+  beforeAll(async () => {
+    // config.json in the repository blocks sudo, su, dd and others
+    await configManager.load();
+  });
+
+  it('should allow commands that run nothing blocked', () => {
+    expect(commandManager.checkCommand('ls -la && echo "sudo is just text here"')).toEqual({
+      allowed: true,
+      action: 'allow',
+      reason: '"ls" is not blocked; "echo" is not blocked'
+    });
+  });
+
+  it.each([
+    ['ls && sudo rm -rf /', 'sudo rm -rf /'],
+    ['echo x | sudo tee /etc/hosts', 'sudo tee /etc/hosts'],
+    ['/usr/bin/sudo ls', '/usr/bin/sudo ls'],
+    ['FOO=1 sudo ls', 'FOO=1 sudo ls'],
+    ['echo $(sudo id)', 'sudo id'],
+    ['bash -c "sudo ls"', 'sudo ls'],
+    ['coproc sudo ls', 'coproc sudo ls'],
+    ['env -S "sudo ls"', 'env -S "sudo ls"'],
+    ["env -iS'sudo ls'", "env -iS'sudo ls'"],
+    ['env --split-string="FOO=1 sudo" ls', 'env --split-string="FOO=1 sudo" ls'],
+    ['watch sudo ls', 'sudo ls'],
+    ['watch -n 1 "sudo ls"', 'sudo ls'],
+    ['watch -x sudo ls', 'watch -x sudo ls'],
+    ['strace -f -o trace.log sudo ls', 'strace -f -o trace.log sudo ls'],
+    ['chroot / sudo ls', 'chroot / sudo ls'],
+    ['chroot --userspec=1000:1000 / sudo ls', 'chroot --userspec=1000:1000 / sudo ls'],
+    ['ionice -c 3 sudo ls', 'ionice -c 3 sudo ls'],
+  ])('should reject %s and name the offending segment', (command, segment) => {
+    const result = commandManager.checkCommand(command);
+
+    expect(result.allowed).toBe(false);
+    expect(result.action).toBe('deny');
+    expect(result.reason).toBe(`"sudo" is blocked, in "${segment}"`);
+  });
+
+  it('should reject command lines that cannot be parsed', () => {
+    const result = commandManager.checkCommand('echo "unterminated');
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('could not parse command');
+  });
+
+  it('should reject substitutions nested too deep to check', () => {
+    const result = commandManager.checkCommand(`echo ${'$('.repeat(40)}ls${')'.repeat(40)}`);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('nested more than 16 deep');
+  });
+
+  it('should reject command names produced by command substitution', () => {
+    expect(commandManager.checkCommand('$(echo sudo) ls').allowed).toBe(false);
+  });
+
+  it.each([
+    ['S=sudo; $S ls', 'the command name "$S" is computed when it runs, in "$S ls"'],
+    ['"${S}" ls', 'the command name "${S}" is computed when it runs, in ""${S}" ls"'],
+    ['env $S ls', 'the command name "$S" is computed when it runs, in "env $S ls"'],
+    ['X="sudo rm -rf /"; eval "$X"', 'the command string "$X" of "eval" is computed when it runs, in "eval "$X""'],
+    ['sh -c "$X"', 'the command string "$X" of "sh" is computed when it runs, in "sh -c "$X""'],
+    ['F=-c; sh $F "sudo ls"', 'the command string "$F" of "sh" is computed when it runs, in "sh $F "sudo ls""'],
+    ['env -S "$CMD"', 'the command string "$CMD" of "env" is computed when it runs, in "env -S "$CMD""'],
+    ['echo "sudo ls" | sh', '"sh" reads the commands it runs from its input, in "sh"'],
+    ['sh <<< "sudo ls"', '"sh" reads the commands it runs from its input, in "sh <<< "sudo ls""'],
+    ['bash -s -- arg < script.sh', '"bash" reads the commands it runs from its input, in "bash -s -- arg < script.sh"'],
+    ['bash --norc', '"bash" reads the commands it runs from its input, in "bash --norc"'],
+  ])('should reject %s, whose command is only known when it runs', (command, reason) => {
+    expect(commandManager.checkCommand(command)).toEqual({ allowed: false, action: 'deny', reason });
+  });
+
+  it('should check the applet busybox runs', () => {
+    expect(commandManager.checkCommand('busybox dd if=/dev/zero of=disk.img').reason).toBe('"dd" is blocked, in "busybox dd if=/dev/zero of=disk.img"');
+    expect(commandManager.checkCommand('busybox sh -c "sudo ls"').allowed).toBe(false);
+    expect(commandManager.checkCommand('busybox ls').allowed).toBe(true);
+  });
+
+  it.each([
+    ['shopt -s expand_aliases; alias x=sudo; x ls', 'alias x=sudo'],
+    ['hash -p /usr/bin/sudo x; x ls', 'hash -p /usr/bin/sudo x'],
+    ['enable -f ./sudo.so sudo', 'enable -f ./sudo.so sudo'],
+  ])('should reject %s, which renames a command', (command, segment) => {
+    const result = commandManager.checkCommand(command);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain(`gives a command another name, which can't be checked, in "${segment}"`);
+  });
+
+  it('should allow listing aliases and hashed commands', () => {
+    expect(commandManager.checkCommand('alias').allowed).toBe(true);
+    expect(commandManager.checkCommand('alias ll').allowed).toBe(true);
+    expect(commandManager.checkCommand('hash -r').allowed).toBe(true);
+  });
+
+  it('should allow shells that run a script file', () => {
+    expect(commandManager.checkCommand('sh ./build.sh --release').allowed).toBe(true);
+    expect(commandManager.checkCommand('bash --norc -e deploy.sh').allowed).toBe(true);
+  });
+
+  it('should allow expansions in arguments', () => {
+    expect(commandManager.checkCommand('ls "$HOME"').allowed).toBe(true);
+    expect(commandManager.checkCommand(`sh -c 'echo "$1"' _ "$HOME"`).allowed).toBe(true);
+  });
+
+  it('should check argv of commands run without a shell', () => {
+    expect(commandManager.checkArgv(['sh', '-c', 'dd if=/dev/zero of=x']).allowed).toBe(false);
+    expect(commandManager.checkArgv(['echo', 'sudo']).allowed).toBe(true);
+  });
+});
+
+describe('CommandManager policy changes', () => {
+  let testDir;
+  let configFile;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dc-command-manager-'));
+    configFile = path.join(testDir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should save blocked commands and keep the rest of the config', async () => {
+    await fs.writeFile(configFile, JSON.stringify({ blockedCommands: ['sudo'], commandLimits: { maxCpuSeconds: 5 } }));
+    const manager = new CommandManager(configFile);
+    manager.applyConfig(['sudo'], DEFAULT_COMMAND_POLICY);
+
+    expect(await manager.blockCommand('RM   -rf')).toBe(true);
+    expect(await manager.blockCommand('rm -rf')).toBe(false);
+    expect(await manager.unblockCommand('sudo')).toBe(true);
+
+    const config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+    expect(config).toEqual({ blockedCommands: ['rm -rf'], commandLimits: { maxCpuSeconds: 5 } });
+    expect(manager.checkCommand('rm -rf build').reason).toBe('"rm -rf" is blocked, in "rm -rf build"');
+  });
+
+  it('should save the command policy', async () => {
+    const manager = new CommandManager(configFile);
+    const policy = { mode: 'allowlist', allowedCommands: ['ls'], rules: [], fileRules: [] };
+
+    await manager.updatePolicy(policy);
+
+    expect(manager.getPolicy()).toEqual(policy);
+    expect(JSON.parse(await fs.readFile(configFile, 'utf-8')).commandPolicy).toEqual(policy);
+  });
+
+  it('should create the directory of a new config file', async () => {
+    const newConfigFile = path.join(testDir, 'desktop-commander', 'config.json');
+    const manager = new CommandManager(newConfigFile);
+
+    await manager.blockCommand('curl');
+
+    expect(JSON.parse(await fs.readFile(newConfigFile, 'utf-8')).blockedCommands).toContain('curl');
+  });
+
+  it('should report write errors and undo the change', async () => {
+    // A link into a directory that doesn't exist can be neither read nor written
+    await fs.symlink(path.join(testDir, 'missing', 'config.json'), configFile);
+    const manager = new CommandManager(configFile);
+
+    await expect(manager.blockCommand('curl')).rejects.toThrow('Failed to save');
+    expect(manager.listBlockedCommands()).not.toContain('curl');
+  });
+
+  it('should deny file changes to the config file unless policy changes are allowed', () => {
+    const manager = new CommandManager(configFile);
+    const request = { operation: 'write', paths: [configFile], directory: false };
+
+    expect(manager.checkFileOperation(request).reason).toContain('holds the command policy');
+
+    manager.setPolicyChangesAllowed(true);
+    expect(manager.checkFileOperation(request).allowed).toBe(true);
+  });
+
+  it('should deny creating a config file that would take precedence', () => {
+    const projectConfig = path.join(testDir, 'project', 'config.json');
+    const manager = new CommandManager(configFile);
+    manager.setConfigFiles(configFile, [projectConfig, configFile]);
+
+    const result = manager.checkFileOperation({ operation: 'write', paths: [projectConfig], directory: false });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe(`${projectConfig} holds the command policy, which can only be changed when the server is started with --allow-policy-changes`);
+  });
+
+  it('should not overwrite a config file it cannot parse', async () => {
+    await fs.writeFile(configFile, '{ "blockedCommands": [');
+    const manager = new CommandManager(configFile);
+
+    await expect(manager.blockCommand('curl')).rejects.toThrow('Failed to read');
+    expect(await fs.readFile(configFile, 'utf-8')).toBe('{ "blockedCommands": [');
+  });
+});
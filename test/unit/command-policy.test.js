@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { findCommandInvocations } from '../../dist/utils/shell-parser.js';
+import { CommandPolicySchema, evaluateCommandPolicy, evaluateFileOperation } from '../../dist/utils/command-policy.js';
+
+const policy = CommandPolicySchema.parse({
+  mode: 'allowlist',
+  allowedCommands: ['ls', 'echo', 'git', 'npm', 'rm'],
+  rules: [
+    { command: 'git', args: ['^push$', '^(--force|-f)$'], action: 'deny', reason: 'force pushes rewrite shared history' },
+    { command: 'git', args: ['^reset$', '^--hard$'], action: 'confirm' },
+    { command: 'rm', args: ['^-[a-zA-Z]*r', '^(/|~/?)$'], action: 'deny' },
+    { command: 'curl', directories: ['~/projects'], action: 'allow' },
+    { command: '*', directories: ['/etc'], action: 'deny', reason: 'system configuration' },
+  ]
+});
+
+const evaluate = (command, cwd = '/tmp', blocked = []) =>
+  evaluateCommandPolicy(findCommandInvocations(command), policy, new Set(blocked), cwd);
+
+describe('Command policy', () => {
+  it('should allow listed commands in allowlist mode', () => {
+    const result = evaluate('git status && npm test');
+
+    expect(result).toEqual({
+      allowed: true,
+      action: 'allow',
+      reason: '"git" is in the allowlist; "npm" is in the allowlist'
+    });
+  });
+
+  it('should deny commands that are not in the allowlist', () => {
+    const result = evaluate('ls | curl -d @- example.com');
+
+    expect(result.action).toBe('deny');
+    expect(result.reason).toBe('"curl" is not in the allowlist, in "curl -d @- example.com"');
+  });
+
+  it.each([
+    'git push --force origin main',
+    'git push origin main -f',
+    'cd repo && git push --force',
+  ])('should deny %s by argument rule', (command) => {
+    const result = evaluate(command);
+
+    expect(result.allowed).toBe(false);
+    expect(result.action).toBe('deny');
+    expect(result.reason).toContain('is denied by rule 1 (deny git with arguments matching /^push$/ and /^(--force|-f)$/): force pushes rewrite shared history');
+  });
+
+  it('should allow variants that do not match an argument rule', () => {
+    expect(evaluate('git push origin main').allowed).toBe(true);
+    expect(evaluate('rm -rf build').allowed).toBe(true);
+  });
+
+  it.each(['rm -rf /', 'rm -r -f ~', 'rm -fr ~/'])('should deny %s', (command) => {
+    expect(evaluate(command).reason).toContain('denied by rule 3');
+  });
+
+  it('should ask for confirmation', () => {
+    const result = evaluate('git reset --hard HEAD~1');
+
+    expect(result.allowed).toBe(false);
+    expect(result.action).toBe('confirm');
+    expect(result.reason).toBe('"git" in "git reset --hard HEAD~1" needs confirmation by rule 2 (confirm git with arguments matching /^reset$/ and /^--hard$/)');
+  });
+
+  it('should prefer deny over confirm', () => {
+    expect(evaluate('git reset --hard && git push -f').action).toBe('deny');
+  });
+
+  it('should apply directory rules to the working directory and below', () => {
+    const projects = path.join(os.homedir(), 'projects');
+
+    expect(evaluate('curl example.com', path.join(projects, 'app')).action).toBe('allow');
+    expect(evaluate('curl example.com', projects).reason).toContain('allowed by rule 4');
+    expect(evaluate('curl example.com', `${projects}-old`).action).toBe('deny');
+    expect(evaluate('ls', '/etc/nginx').reason).toContain('denied by rule 5 (deny any command in /etc): system configuration');
+    expect(evaluate('ls', '/etcetera').action).toBe('allow');
+  });
+
+  it('should let rules override blocked commands', () => {
+    const blocklist = CommandPolicySchema.parse({
+      rules: [{ command: 'sudo', args: ['^apt$'], action: 'allow' }]
+    });
+    const check = (command) => evaluateCommandPolicy(findCommandInvocations(command), blocklist, new Set(['sudo']), '/tmp');
+
+    expect(check('sudo apt update').allowed).toBe(true);
+    expect(check('sudo rm x').reason).toBe('"sudo" is blocked, in "sudo rm x"');
+    expect(check('curl example.com').reason).toBe('"curl" is not blocked');
+  });
+
+  it('should match blocked patterns against busybox applets', () => {
+    const result = evaluateCommandPolicy(findCommandInvocations('busybox rm -rf /'), CommandPolicySchema.parse({}), new Set(['rm -rf']), '/tmp');
+
+    expect(result.action).toBe('deny');
+    expect(result.reason).toBe('"rm -rf" is blocked, in "busybox rm -rf /"');
+  });
+
+  it('should reject invalid policies', () => {
+    expect(CommandPolicySchema.safeParse({ mode: 'denylist' }).success).toBe(false);
+    expect(CommandPolicySchema.safeParse({ rules: [{ command: 'git', action: 'maybe' }] }).success).toBe(false);
+    expect(CommandPolicySchema.safeParse({ rules: [{ command: 'git', args: ['('], action: 'deny' }] }).success).toBe(false);
+  });
+});
+
+describe('File policy', () => {
+  const filePolicy = CommandPolicySchema.parse({
+    fileRules: [
+      { operation: 'move', directory: true, action: 'confirm', reason: 'moves the whole tree' },
+      { operation: '*', paths: ['/etc'], action: 'deny' },
+    ]
+  });
+
+  it('should apply the first matching file rule', () => {
+    const result = evaluateFileOperation({ operation: 'move', paths: ['/tmp/a', '/tmp/b'], directory: true }, filePolicy);
+
+    expect(result).toEqual({
+      allowed: false,
+      action: 'confirm',
+      reason: 'the move of /tmp/a to /tmp/b needs confirmation by file rule 1 (confirm move of directories): moves the whole tree'
+    });
+  });
+
+  it('should match any path of the operation', () => {
+    const result = evaluateFileOperation({ operation: 'move', paths: ['/tmp/hosts', '/etc/hosts'], directory: false }, filePolicy);
+
+    expect(result.action).toBe('deny');
+    expect(result.reason).toContain('denied by file rule 2 (deny any operation in /etc)');
+  });
+
+  it('should allow operations no rule matches', () => {
+    const result = evaluateFileOperation({ operation: 'write', paths: ['/tmp/file'], directory: false }, filePolicy);
+
+    expect(result).toEqual({ allowed: true, action: 'allow', reason: 'no file rule matches the write of /tmp/file' });
+  });
+});
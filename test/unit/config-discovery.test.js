@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { findArgsConfig, findConfigCandidates, mergeConfigs } from '../../dist/config-discovery.js';
+import { USER_CONFIG_FILE } from '../../dist/config.js';
+
+describe('findConfigCandidates', () => {
+  const cwd = path.join(os.tmpdir(), 'project');
+
+  it('should look in the working directory and the user config directory', () => {
+    expect(findConfigCandidates([], {}, cwd)).toEqual([
+      { file: path.join(cwd, 'config.json'), source: 'project' },
+      { file: USER_CONFIG_FILE, source: 'user' }
+    ]);
+  });
+
+  it('should put the flag before the environment variable', () => {
+    const candidates = findConfigCandidates(
+      ['--allow-policy-changes', '--config', 'conf/dc.json'],
+      { DESKTOP_COMMANDER_CONFIG: '~/dc.json' },
+      cwd
+    );
+
+    expect(candidates.slice(0, 2)).toEqual([
+      { file: path.join(cwd, 'conf', 'dc.json'), source: 'flag' },
+      { file: path.join(os.homedir(), 'dc.json'), source: 'env' }
+    ]);
+  });
+
+  it('should accept --config=path and read a file named twice once', () => {
+    const file = path.join(cwd, 'config.json');
+
+    expect(findConfigCandidates([`--config=${file}`], {}, cwd).map(candidate => candidate.source)).toEqual(['flag', 'user']);
+  });
+
+  it.each([[['--config']], [['--config', '--allow-policy-changes']], [['--config=']]])(
+    'should reject %j without a path', (argv) => {
+      expect(() => findConfigCandidates(argv, {}, cwd)).toThrow('--config needs a path');
+    });
+});
+
+describe('findArgsConfig', () => {
+  it('should turn directory flags into allowed directories', () => {
+    expect(findArgsConfig(['--allowed-dir', 'src', '--read-only-dir=/srv/docs', '--allowed-dir', '/tmp'], '/work')).toEqual({
+      allowedDirectories: [
+        { path: '/work/src', mode: 'read-write' },
+        { path: '/tmp', mode: 'read-write' },
+        { path: '/srv/docs', mode: 'read-only' }
+      ]
+    });
+  });
+
+  it('should leave the config alone without directory flags', () => {
+    expect(findArgsConfig(['--allow-policy-changes'], '/work')).toEqual({});
+  });
+});
+
+describe('mergeConfigs', () => {
+  it('should merge objects and replace lists and values', () => {
+    const merged = mergeConfigs([
+      { blockedCommands: ['sudo'], commandLimits: { maxCpuSeconds: 5 } },
+      { blockedCommands: ['dd', 'su'], commandLimits: { maxMemoryMb: 512 }, fuzzyThreshold: 0.5 }
+    ]);
+
+    expect(merged).toEqual({
+      blockedCommands: ['sudo'],
+      commandLimits: { maxCpuSeconds: 5, maxMemoryMb: 512 },
+      fuzzyThreshold: 0.5
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ConfirmationManager } from '../../dist/confirmation-manager.js';
+
+const respond = (text) => async () => ({ content: [{ type: 'text', text }] });
+
+describe('ConfirmationManager', () => {
+  it('should run a pending action once when it is confirmed', async () => {
+    const manager = new ConfirmationManager();
+    let runs = 0;
+    const pending = manager.request('run `git reset --hard`', 'needs confirmation', async () => {
+      runs++;
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+
+    expect(runs).toBe(0);
+    expect(pending.summary).toBe('run `git reset --hard`');
+    expect(pending.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    const result = await manager.confirm(pending.token);
+    expect(result.content[0].text).toBe('done');
+    expect(runs).toBe(1);
+
+    await expect(manager.confirm(pending.token)).rejects.toThrow('No pending action');
+    expect(runs).toBe(1);
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(new ConfirmationManager().confirm('nope')).rejects.toThrow('No pending action with token nope');
+  });
+
+  it('should reject tokens confirmed after they expire', async () => {
+    const manager = new ConfirmationManager(50);
+    const pending = manager.request('write file', 'needs confirmation', respond('done'));
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    await expect(manager.confirm(pending.token)).rejects.toThrow('may have expired');
+  });
+
+  it('should not run cancelled actions', async () => {
+    const manager = new ConfirmationManager();
+    const pending = manager.request('move directory', 'needs confirmation', respond('done'));
+
+    expect(manager.cancel(pending.token)).toBe(true);
+    expect(manager.cancel(pending.token)).toBe(false);
+    await expect(manager.confirm(pending.token)).rejects.toThrow('No pending action');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectEncoding,
+  decodeText,
+  encodeText,
+  detectLineEnding,
+  describeFormat
+} from '../../dist/utils/encoding.js';
+
+const utf16be = text => Buffer.from(text, 'utf16le').swap16();
+
+describe('detectEncoding', () => {
+  it('should detect the encoding from a byte order mark', () => {
+    expect(detectEncoding(Buffer.from('﻿hello', 'utf-8'))).toEqual({ encoding: 'utf-8', bom: true });
+    expect(detectEncoding(Buffer.from('﻿hello', 'utf16le'))).toEqual({ encoding: 'utf-16le', bom: true });
+    expect(detectEncoding(utf16be('﻿hello'))).toEqual({ encoding: 'utf-16be', bom: true });
+  });
+
+  it('should detect UTF-16 without a byte order mark from its null bytes', () => {
+    expect(detectEncoding(Buffer.from('key = value\r\n', 'utf16le'))).toEqual({ encoding: 'utf-16le', bom: false });
+    expect(detectEncoding(utf16be('key = value\r\n'))).toEqual({ encoding: 'utf-16be', bom: false });
+  });
+
+  it('should tell UTF-8 from Latin-1', () => {
+    expect(detectEncoding(Buffer.from('café', 'utf-8')).encoding).toBe('utf-8');
+    expect(detectEncoding(Buffer.from('café', 'latin1')).encoding).toBe('latin1');
+    expect(detectEncoding(Buffer.from('plain ascii')).encoding).toBe('utf-8');
+  });
+
+  it('should not count a UTF-8 character cut off at the end of the sample', () => {
+    const cutOff = Buffer.from('café', 'utf-8').subarray(0, 4);
+
+    expect(detectEncoding(cutOff, true).encoding).toBe('utf-8');
+    expect(detectEncoding(cutOff).encoding).toBe('latin1');
+  });
+});
+
+describe('decodeText and encodeText', () => {
+  it.each([
+    [{ encoding: 'utf-8', bom: false, lineEnding: '\n' }],
+    [{ encoding: 'utf-8', bom: true, lineEnding: '\r\n' }],
+    [{ encoding: 'utf-16le', bom: true, lineEnding: '\r\n' }],
+    [{ encoding: 'utf-16be', bom: true, lineEnding: '\n' }],
+    [{ encoding: 'latin1', bom: false, lineEnding: '\n' }],
+  ])('should round-trip text in %o', format => {
+    const encoded = encodeText('naïve\ncafé\n', format);
+    const decoded = decodeText(encoded);
+
+    expect(decoded.text).toBe(format.lineEnding === '\r\n' ? 'naïve\r\ncafé\r\n' : 'naïve\ncafé\n');
+    expect(decoded.format).toEqual(format);
+  });
+
+  it('should keep every byte of Latin-1 text', () => {
+    const bytes = Buffer.from(Array.from({ length: 256 }, (_, index) => index).filter(byte => byte !== 0));
+
+    expect(encodeText(decodeText(bytes, 'latin1').text, { encoding: 'latin1', bom: false })).toEqual(bytes);
+  });
+
+  it('should reject characters Latin-1 cannot encode', () => {
+    expect(() => encodeText('price: €5', { encoding: 'latin1', bom: false })).toThrow('Latin-1 can\'t encode "€"');
+  });
+
+  it('should decode in the encoding given instead of the detected one', () => {
+    const { text, format } = decodeText(Buffer.from('café', 'utf-8'), 'latin1');
+
+    expect(text).toBe('cafÃ©');
+    expect(format.encoding).toBe('latin1');
+  });
+});
+
+describe('detectLineEnding', () => {
+  it('should find the line ending used throughout', () => {
+    expect(detectLineEnding('a\nb\n')).toBe('\n');
+    expect(detectLineEnding('a\r\nb\r\n')).toBe('\r\n');
+    expect(detectLineEnding('a\r\nb\n')).toBeUndefined();
+    expect(detectLineEnding('one line')).toBeUndefined();
+  });
+});
+
+describe('describeFormat', () => {
+  it('should describe the encoding, byte order mark and line endings', () => {
+    expect(describeFormat({ encoding: 'utf-16le', bom: true, lineEnding: '\r\n' })).toBe('UTF-16LE with BOM, CRLF line endings');
+    expect(describeFormat({ encoding: 'latin1', bom: false })).toBe('Latin-1');
+  });
+});
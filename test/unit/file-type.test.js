@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { detectFileType, hexDump, hexDumpSize } from '../../dist/utils/file-type.js';
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe('detectFileType', () => {
+  it('should detect images that can be returned as image content', () => {
+    expect(detectFileType(PNG_HEADER)).toEqual({ kind: 'image', mimeType: 'image/png', description: 'PNG image' });
+    expect(detectFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10])).mimeType).toBe('image/jpeg');
+    expect(detectFileType(Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1')).mimeType).toBe('image/gif');
+    expect(detectFileType(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1')).mimeType).toBe('image/webp');
+  });
+
+  it('should detect other formats by their magic bytes', () => {
+    expect(detectFileType(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3', 'latin1'))).toEqual({ kind: 'binary', mimeType: undefined, description: 'PDF document' });
+    expect(detectFileType(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00])).description).toContain('ZIP archive');
+    expect(detectFileType(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01])).description).toBe('ELF executable or library');
+    expect(detectFileType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1')).description).toBe('WAV audio');
+  });
+
+  it('should only count ASCII magic bytes for content that is not text', () => {
+    expect(detectFileType(Buffer.from('MZ is where the notes start\n')).kind).toBe('text');
+    expect(detectFileType(Buffer.from('BM\n')).kind).toBe('text');
+    expect(detectFileType(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00])).description).toBe('Windows executable or DLL');
+  });
+
+  it('should treat content with a null byte as binary', () => {
+    expect(detectFileType(Buffer.from('key\0value'))).toEqual({ kind: 'binary', description: 'binary file' });
+    expect(detectFileType(Buffer.from('plain text with ünïcode\n')).kind).toBe('text');
+    expect(detectFileType(Buffer.alloc(0)).kind).toBe('text');
+  });
+
+  it('should treat UTF-16 with a byte order mark as text', () => {
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hello', 'utf16le')]);
+
+    expect(detectFileType(utf16).kind).toBe('text');
+  });
+});
+
+describe('hexDump', () => {
+  it('should format bytes like hexdump -C', () => {
+    const bytes = Buffer.from('Hello, binary world!\0\x01', 'latin1');
+
+    expect(hexDump(bytes, 0x100)).toBe(
+      '00000100  48 65 6c 6c 6f 2c 20 62  69 6e 61 72 79 20 77 6f  |Hello, binary wo|\n' +
+      '00000110  72 6c 64 21 00 01                                 |rld!..|'
+    );
+  });
+
+  it('should size the dump by its full lines', () => {
+    const dump = hexDump(Buffer.alloc(32));
+
+    expect(hexDumpSize(32)).toBe(dump.length + 1);
+    expect(hexDumpSize(0)).toBe(0);
+  });
+});
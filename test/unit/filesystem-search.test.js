@@ -69,7 +69,7 @@ describe('Filesystem Search Tests', () => {
   
   // Test case-insensitive search (default behavior)
   it('should find files case-insensitively by default', async () => {
-    const results = await searchFiles(testDir, 'test');
+    const results = (await searchFiles(testDir, 'test')).paths;
     
     // The searchFiles function returns paths, not just filenames
     expect(results.length).toBeGreaterThan(0);
@@ -84,8 +84,8 @@ describe('Filesystem Search Tests', () => {
   
   // Note: caseSensitive option has been removed from searchFiles
   it('should always perform case-insensitive searches (case-sensitive option removed)', async () => {
-    const resultsLowercase = await searchFiles(testDir, 'test');
-    const resultsUppercase = await searchFiles(testDir, 'TEST');
+    const resultsLowercase = (await searchFiles(testDir, 'test')).paths;
+    const resultsUppercase = (await searchFiles(testDir, 'TEST')).paths;
     
     // Both searches should return the same results since case-insensitive
     expect(resultsLowercase.length).toBeGreaterThan(0);
@@ -105,7 +105,7 @@ describe('Filesystem Search Tests', () => {
   
   // Test recursive search
   it('should search recursively through subdirectories', async () => {
-    const results = await searchFiles(testDir, 'subfile');
+    const results = (await searchFiles(testDir, 'subfile')).paths;
     
     // We should find the files in the subdirectory
     expect(results.length).toBeGreaterThan(0);
@@ -118,7 +118,7 @@ describe('Filesystem Search Tests', () => {
   
   // Test searching for file extension
   it('should find files by extension', async () => {
-    const results = await searchFiles(testDir, '.txt');
+    const results = (await searchFiles(testDir, '.txt')).paths;
     
     // We should find multiple files with .txt extension
     expect(results.length).toBeGreaterThan(0);
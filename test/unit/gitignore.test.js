@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseGitignore, isIgnored, readParentGitignores } from '../../dist/utils/gitignore.js';
+
+const base = path.resolve('/repo');
+const ignored = (content, relative, isDirectory = false) =>
+  isIgnored(path.join(base, relative), isDirectory, parseGitignore(content, base));
+
+describe('parseGitignore', () => {
+  it('should skip comments and blank lines and read negation, directory and anchoring', () => {
+    expect(parseGitignore('# comment\n\n!keep.log\nbuild/\n/dist\nsrc/gen\n\\#hash\n', base)).toEqual([
+      { base, pattern: 'keep.log', negated: true, directoryOnly: false, anchored: false },
+      { base, pattern: 'build', negated: false, directoryOnly: true, anchored: false },
+      { base, pattern: 'dist', negated: false, directoryOnly: false, anchored: true },
+      { base, pattern: 'src/gen', negated: false, directoryOnly: false, anchored: true },
+      { base, pattern: '#hash', negated: false, directoryOnly: false, anchored: false },
+    ]);
+  });
+});
+
+describe('isIgnored', () => {
+  it('should match patterns without a slash in any directory', () => {
+    expect(ignored('*.log', 'debug.log')).toBe(true);
+    expect(ignored('*.log', 'a/b/debug.log')).toBe(true);
+    expect(ignored('*.log', 'debug.txt')).toBe(false);
+  });
+
+  it('should match anchored patterns relative to the .gitignore file', () => {
+    expect(ignored('/dist', 'dist', true)).toBe(true);
+    expect(ignored('/dist', 'packages/dist', true)).toBe(false);
+    expect(ignored('src/gen', 'src/gen', true)).toBe(true);
+    expect(ignored('**/gen', 'a/b/gen', true)).toBe(true);
+  });
+
+  it('should only match directories with a trailing slash', () => {
+    expect(ignored('build/', 'build', true)).toBe(true);
+    expect(ignored('build/', 'build', false)).toBe(false);
+  });
+
+  it('should let the last matching rule win', () => {
+    expect(ignored('*.log\n!keep.log', 'keep.log')).toBe(false);
+    expect(ignored('*.log\n!keep.log', 'other.log')).toBe(true);
+    expect(ignored('!keep.log\n*.log', 'keep.log')).toBe(true);
+  });
+
+  it('should not apply rules to paths outside their directory', () => {
+    const rules = parseGitignore('*.log', path.join(base, 'sub'));
+
+    expect(isIgnored(path.join(base, 'debug.log'), false, rules)).toBe(false);
+    expect(isIgnored(path.join(base, 'sub', 'debug.log'), false, rules)).toBe(true);
+  });
+});
+
+describe('readParentGitignores', () => {
+  let testDir;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-gitignore-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should read the .gitignore files from the repository root down', async () => {
+    await fs.mkdir(path.join(testDir, '.git'));
+    await fs.mkdir(path.join(testDir, 'packages', 'app'), { recursive: true });
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'dist/\n');
+    await fs.writeFile(path.join(testDir, 'packages', '.gitignore'), '*.tmp\n');
+
+    const rules = await readParentGitignores(path.join(testDir, 'packages', 'app'));
+
+    expect(rules.map(rule => [rule.base, rule.pattern])).toEqual([
+      [testDir, 'dist'],
+      [path.join(testDir, 'packages'), '*.tmp'],
+    ]);
+  });
+
+  it('should read none outside a repository or at its root', async () => {
+    await fs.mkdir(path.join(testDir, 'sub'));
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'dist/\n');
+
+    expect(await readParentGitignores(path.join(testDir, 'sub'))).toEqual([]);
+    await fs.mkdir(path.join(testDir, '.git'));
+    expect(await readParentGitignores(testDir)).toEqual([]);
+  });
+});
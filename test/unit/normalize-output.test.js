@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeOutput, normalizeLine, FULL_NORMALIZATION } from '../../dist/utils/normalize-output.js';
+
+describe('normalizeOutput', () => {
+  it('should strip color codes', () => {
+    expect(normalizeOutput('\x1b[32mPASS\x1b[0m test.js\n', FULL_NORMALIZATION)).toBe('PASS test.js\n');
+  });
+
+  it('should strip OSC sequences such as hyperlinks', () => {
+    const link = '\x1b]8;;https://example.com\x07docs\x1b]8;;\x07';
+    expect(normalizeOutput(`see ${link}\n`, FULL_NORMALIZATION)).toBe('see docs\n');
+  });
+
+  it('should keep only the final state of a carriage return progress bar', () => {
+    const progress = 'Downloading 10%\rDownloading 50%\rDownloading 100%\ndone\n';
+    expect(normalizeOutput(progress, FULL_NORMALIZATION)).toBe('Downloading 100%\ndone\n');
+  });
+
+  it('should apply erase-line sequences after carriage returns', () => {
+    const spinner = 'installing packages...\r\x1b[2Kadded 12 packages\n';
+    expect(normalizeOutput(spinner, FULL_NORMALIZATION)).toBe('added 12 packages\n');
+  });
+
+  it('should overwrite in place when the new text is shorter', () => {
+    expect(normalizeLine('abcdef\rXY', FULL_NORMALIZATION)).toBe('XYcdef');
+  });
+
+  it('should apply backspaces', () => {
+    expect(normalizeLine('ab\bc', FULL_NORMALIZATION)).toBe('ac');
+  });
+
+  it('should treat CRLF as a plain line ending', () => {
+    expect(normalizeOutput('one\r\ntwo\r\n', FULL_NORMALIZATION)).toBe('one\ntwo\n');
+  });
+
+  it('should collapse runs of identical lines', () => {
+    const text = 'start\nretrying\nretrying\nretrying\nretrying\nend\n';
+    expect(normalizeOutput(text, FULL_NORMALIZATION))
+      .toBe('start\nretrying\n[previous line repeated 3 more times]\nend\n');
+  });
+
+  it('should leave pairs of identical lines alone', () => {
+    expect(normalizeOutput('a\na\nb\n', FULL_NORMALIZATION)).toBe('a\na\nb\n');
+  });
+
+  it('should only apply the selected normalizations', () => {
+    const text = '\x1b[31mfail\x1b[0m 1%\r\x1b[31mfail\x1b[0m 2%\nx\nx\nx\n';
+    const options = { stripAnsi: false, carriageReturns: true, collapseRepeats: false };
+
+    expect(normalizeOutput(text, options)).toBe('\x1b[31mfail\x1b[0m 2%\nx\nx\nx\n');
+  });
+});
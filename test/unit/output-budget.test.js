@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { applyOutputBudget, splitOutputBudget } from '../../dist/utils/output-budget.js';
+
+function numberedLines(count) {
+  return Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+}
+
+describe('applyOutputBudget', () => {
+  it('should leave output within the budget unchanged', () => {
+    const text = numberedLines(10);
+    const result = applyOutputBudget(text, { maxBytes: 1000, maxLines: 10 });
+
+    expect(result.exceeded).toBe(false);
+    expect(result.text).toBe(text);
+  });
+
+  it('should keep the head and tail around an elision marker', () => {
+    const result = applyOutputBudget(numberedLines(100), { maxLines: 8 });
+    const lines = result.text.trimEnd().split('\n');
+
+    expect(result.exceeded).toBe(true);
+    expect(lines.slice(0, 3)).toEqual(['line 1', 'line 2', 'line 3']);
+    expect(lines[3]).toBe('[... 94 lines (746 bytes) omitted ...]');
+    expect(lines.slice(4)).toEqual(['line 98', 'line 99', 'line 100']);
+  });
+
+  it('should report the omitted byte range of the original text', () => {
+    const text = numberedLines(100);
+    const result = applyOutputBudget(text, { maxLines: 8 });
+
+    expect(text.slice(result.omittedStart, result.omittedEnd).startsWith('line 4\n')).toBe(true);
+    expect(text.slice(result.omittedEnd)).toBe('line 98\nline 99\nline 100\n');
+  });
+
+  it('should keep error-looking lines from the middle', () => {
+    const lines = numberedLines(100).split('\n');
+    lines[49] = 'npm ERR! code ELIFECYCLE';
+    lines[59] = '    at Object.<anonymous> (/app/index.js:3:9)';
+    const result = applyOutputBudget(lines.join('\n'), { maxLines: 20 });
+
+    expect(result.text).toContain('2 of them look like errors');
+    expect(result.text).toContain('line 50: npm ERR! code ELIFECYCLE');
+    expect(result.text).toContain('line 60:     at Object.<anonymous> (/app/index.js:3:9)');
+    expect(result.text).not.toContain('line 55\n');
+  });
+
+  it('should enforce a byte budget', () => {
+    const result = applyOutputBudget('x'.repeat(50) + '\n' + numberedLines(1000), { maxBytes: 200 });
+
+    expect(result.exceeded).toBe(true);
+    expect(Buffer.byteLength(result.text)).toBeLessThan(300);
+  });
+
+  it('should return part of a single line that exceeds the budget', () => {
+    const result = applyOutputBudget('a'.repeat(10000), { maxBytes: 100 });
+
+    expect(result.text.startsWith('a'.repeat(37) + '\n[...')).toBe(true);
+  });
+
+  it('should treat a budget of 0 as unlimited', () => {
+    const text = numberedLines(5000);
+    expect(applyOutputBudget(text, { maxBytes: 0, maxLines: 0 }).text).toBe(text);
+  });
+});
+
+describe('splitOutputBudget', () => {
+  it('should give unused budget of a small stream to the other one', () => {
+    const [stdout, stderr] = splitOutputBudget({ maxBytes: 1000, maxLines: 100 }, 'x'.repeat(5000), 'short\n');
+
+    expect(stdout).toEqual({ maxBytes: 994, maxLines: 99 });
+    expect(stderr).toEqual({ maxBytes: 500, maxLines: 99 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { OutputBuffer } from '../../dist/utils/output-buffer.js';
+
+describe('OutputBuffer', () => {
+  it('should read output back without consuming it', () => {
+    const buffer = new OutputBuffer();
+    buffer.append('stdout', Buffer.from('first\n'));
+    buffer.append('stderr', Buffer.from('second\n'));
+
+    expect(buffer.read().text).toBe('first\nsecond\n');
+    expect(buffer.read().text).toBe('first\nsecond\n');
+  });
+
+  it('should read from an absolute offset used as a cursor', () => {
+    const buffer = new OutputBuffer();
+    buffer.append('stdout', Buffer.from('abc'));
+    const cursor = buffer.endOffset;
+    buffer.append('stdout', Buffer.from('def'));
+
+    const slice = buffer.read(cursor);
+    expect(slice.text).toBe('def');
+    expect(slice.startOffset).toBe(3);
+    expect(slice.endOffset).toBe(6);
+  });
+
+  it('should count lines with and without a trailing newline', () => {
+    const buffer = new OutputBuffer();
+    expect(buffer.lastLineNumber).toBe(0);
+
+    buffer.append('stdout', Buffer.from('one\ntwo\n'));
+    expect(buffer.lastLineNumber).toBe(2);
+
+    buffer.append('stdout', Buffer.from('three'));
+    expect(buffer.lastLineNumber).toBe(3);
+  });
+
+  it('should read line ranges across chunks', () => {
+    const buffer = new OutputBuffer();
+    buffer.append('stdout', Buffer.from('line 1\nline '));
+    buffer.append('stderr', Buffer.from('2\nline 3\n'));
+    buffer.append('stdout', Buffer.from('line 4\n'));
+
+    expect(buffer.readLines(2, 3).text).toBe('line 2\nline 3\n');
+    expect(buffer.readLines(4, 10).text).toBe('line 4\n');
+    expect(buffer.readLines(-5, 1).text).toBe('line 1\n');
+  });
+
+  it('should split output into numbered lines', () => {
+    const buffer = new OutputBuffer();
+    buffer.append('stdout', Buffer.from('a\nb\nc'));
+
+    expect(buffer.lines()).toEqual([
+      { number: 1, text: 'a' },
+      { number: 2, text: 'b' },
+      { number: 3, text: 'c' }
+    ]);
+  });
+
+  it('should keep offsets and line numbers stable when old output is dropped', () => {
+    const buffer = new OutputBuffer();
+    const line = 'x'.repeat(1023) + '\n';
+    const block = Buffer.from(line.repeat(1024)); // 1MB, 1024 lines
+
+    for (let i = 0; i < 25; i++) {
+      buffer.append('stdout', block);
+    }
+
+    expect(buffer.truncated).toBe(true);
+    expect(buffer.endOffset).toBe(25 * block.length);
+    expect(buffer.endOffset - buffer.startOffset).toBeLessThanOrEqual(20 * 1024 * 1024);
+    expect(buffer.lastLineNumber).toBe(25 * 1024);
+    expect(buffer.firstLineNumber).toBe(buffer.startOffset / line.length + 1);
+    expect(buffer.readLines(buffer.lastLineNumber, buffer.lastLineNumber).text).toBe(line);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { findAccessDenial, findDeniedPattern } from '../../dist/utils/path-access.js';
+
+const home = os.homedir();
+
+describe('findAccessDenial', () => {
+  const grants = {
+    roots: [
+      { path: home, mode: 'read-only' },
+      { path: path.join(home, 'project'), mode: 'read-write' }
+    ],
+    deniedPaths: ['~/.ssh/**', '**/.env']
+  };
+
+  it('should let the innermost root decide', () => {
+    expect(findAccessDenial(path.join(home, 'project', 'src', 'a.ts'), 'write', grants)).toBeUndefined();
+    expect(findAccessDenial(path.join(home, 'notes.txt'), 'read', grants)).toBeUndefined();
+    expect(findAccessDenial(path.join(home, 'notes.txt'), 'write', grants))
+      .toBe(`${path.join(home, 'notes.txt')} is in read-only directory ${home}`);
+  });
+
+  it('should deny paths outside every root', () => {
+    expect(findAccessDenial('/etc/passwd', 'read', grants)).toBe('path outside allowed directories: /etc/passwd');
+    expect(findAccessDenial(`${home}-backup/file`, 'read', grants)).toContain('path outside allowed directories');
+  });
+
+  it('should let denied paths override the roots', () => {
+    const key = path.join(home, '.ssh', 'id_ed25519');
+    const env = path.join(home, 'project', '.env');
+
+    expect(findAccessDenial(key, 'read', grants)).toBe(`${key} matches denied path ~/.ssh/**`);
+    expect(findAccessDenial(env, 'read', grants)).toBe(`${env} matches denied path **/.env`);
+  });
+});
+
+describe('findDeniedPattern', () => {
+  it('should match the directory of a glob ending in /**', () => {
+    expect(findDeniedPattern(path.join(home, '.ssh'), ['~/.ssh/**'])).toBe('~/.ssh/**');
+    expect(findDeniedPattern(path.join(home, '.sshd'), ['~/.ssh/**'])).toBeUndefined();
+  });
+
+  it('should match everything inside a denied path', () => {
+    expect(findDeniedPattern('/srv/app/.env/nested', ['**/.env'])).toBe('**/.env');
+  });
+
+  it('should match relative globs anywhere', () => {
+    expect(findDeniedPattern('/srv/app/secrets.pem', ['*.pem'])).toBe('*.pem');
+    expect(findDeniedPattern('/srv/app/.env.example', ['.env'])).toBeUndefined();
+  });
+});
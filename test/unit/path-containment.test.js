@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { isPathWithin, resolveRealPath, isCaseSensitive } from '../../dist/utils/path-containment.js';
+
+describe('isPathWithin', () => {
+  it.each([
+    ['/home/user', '/home/user'],
+    ['/home/user/docs/a.txt', '/home/user'],
+    ['/home/user/', '/home/user'],
+    ['/home/user', '/home/user/'],
+    ['/home/user/a', '/'],
+    ['/home/user/../user/a', '/home/user'],
+  ])('should find %s within %s', (target, directory) => {
+    expect(isPathWithin(target, directory, true)).toBe(true);
+  });
+
+  it.each([
+    ['/home/user2', '/home/user'],
+    ['/home/user-backup/a', '/home/user'],
+    ['/home/use', '/home/user'],
+    ['/home', '/home/user'],
+    ['/home/user/../user2/a', '/home/user'],
+    ['/home/user/../../etc/passwd', '/home/user'],
+    ['/etc/passwd', '/home/user'],
+  ])('should not find %s within %s', (target, directory) => {
+    expect(isPathWithin(target, directory, true)).toBe(false);
+  });
+
+  it('should compare letter case on case-sensitive filesystems', () => {
+    expect(isPathWithin('/home/User/a', '/home/user', true)).toBe(false);
+    expect(isPathWithin('/home/user/A', '/home/user', true)).toBe(true);
+  });
+
+  it('should ignore letter case on case-insensitive filesystems', () => {
+    expect(isPathWithin('/Users/Me/Project/a', '/users/me/project', false)).toBe(true);
+    expect(isPathWithin('/Users/Me2/a', '/users/me', false)).toBe(false);
+  });
+
+  it('should treat composed and decomposed names alike on case-insensitive filesystems', () => {
+    expect(isPathWithin('/docs/café/a', '/docs/café', false)).toBe(true);
+    expect(isPathWithin('/docs/café/a', '/docs/café', true)).toBe(false);
+  });
+});
+
+describe('resolveRealPath', () => {
+  let testDir;
+  let inside;
+  let outside;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-containment-')));
+    inside = path.join(testDir, 'inside');
+    outside = path.join(testDir, 'outside');
+    await fs.mkdir(inside);
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return existing paths without symlinks unchanged', async () => {
+    await fs.writeFile(path.join(inside, 'a.txt'), '');
+
+    expect(await resolveRealPath(path.join(inside, 'a.txt'))).toBe(path.join(inside, 'a.txt'));
+  });
+
+  it('should keep the names of files and directories that do not exist', async () => {
+    expect(await resolveRealPath(path.join(inside, 'new', 'deeper', 'a.txt')))
+      .toBe(path.join(inside, 'new', 'deeper', 'a.txt'));
+  });
+
+  it('should resolve a symlinked file', async () => {
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(inside, 'link.txt'));
+
+    expect(await resolveRealPath(path.join(inside, 'link.txt'))).toBe(path.join(outside, 'secret.txt'));
+  });
+
+  it('should resolve a symlinked parent of a file that does not exist', async () => {
+    await fs.symlink(outside, path.join(inside, 'escape'));
+
+    expect(await resolveRealPath(path.join(inside, 'escape', 'new', 'file.txt')))
+      .toBe(path.join(outside, 'new', 'file.txt'));
+  });
+
+  it('should resolve a symlink to a file that does not exist', async () => {
+    await fs.symlink(path.join(outside, 'created-by-write.txt'), path.join(inside, 'dangling'));
+
+    expect(await resolveRealPath(path.join(inside, 'dangling'))).toBe(path.join(outside, 'created-by-write.txt'));
+  });
+
+  it('should resolve relative symlinks and chains of them', async () => {
+    await fs.symlink('../outside', path.join(inside, 'relative'));
+    await fs.symlink('relative', path.join(inside, 'chain'));
+
+    expect(await resolveRealPath(path.join(inside, 'chain', 'secret.txt'))).toBe(path.join(outside, 'secret.txt'));
+  });
+
+  it('should resolve a dangling symlink through a symlinked directory', async () => {
+    await fs.symlink(path.join(outside, 'missing', 'file.txt'), path.join(outside, 'dangling'));
+    await fs.symlink(outside, path.join(inside, 'escape'));
+
+    expect(await resolveRealPath(path.join(inside, 'escape', 'dangling')))
+      .toBe(path.join(outside, 'missing', 'file.txt'));
+  });
+
+  it('should give up on symlink loops', async () => {
+    await fs.symlink(path.join(inside, 'b'), path.join(inside, 'a'));
+    await fs.symlink(path.join(inside, 'a'), path.join(inside, 'b'));
+
+    await expect(resolveRealPath(path.join(inside, 'a', 'file.txt'))).rejects.toThrow(/symbolic links|ELOOP/);
+  });
+
+  it('should normalize traversal before resolving', async () => {
+    expect(await resolveRealPath(path.join(inside, '..', 'outside', 'secret.txt'))).toBe(path.join(outside, 'secret.txt'));
+  });
+});
+
+describe('isCaseSensitive', () => {
+  let testDir;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dc-case-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should detect whether the filesystem ignores case', async () => {
+    const directory = path.join(testDir, 'MixedCase');
+    await fs.mkdir(directory);
+    const ignoresCase = await fs.stat(path.join(testDir, 'mixedcase')).then(() => true, () => false);
+
+    expect(await isCaseSensitive(path.join(directory, 'new-file.txt'))).toBe(!ignoresCase);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parseServerConfig, serverConfigJsonSchema } from '../../dist/server-config.js';
+
+describe('Server config schema', () => {
+  it('should accept the config in the repository', () => {
+    const config = parseServerConfig(JSON.parse(readFileSync('config.json', 'utf-8')));
+
+    expect(config.blockedCommands).toContain('sudo');
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() => parseServerConfig({ fuzzyThreshold: 1.5 })).toThrow('fuzzyThreshold: Number must be less than or equal to 1');
+    expect(() => parseServerConfig({ maxOutputChunks: 2.5 })).toThrow('maxOutputChunks: Expected integer, received float');
+    expect(() => parseServerConfig({ allowedDirectories: [''] })).toThrow('allowedDirectories.0');
+  });
+
+  it('should match the JSON Schema shipped with the package', () => {
+    const shipped = JSON.parse(readFileSync('config.schema.json', 'utf-8'));
+
+    expect(shipped).toEqual(serverConfigJsonSchema());
+    expect(shipped.definitions.DesktopCommanderConfig.properties.commandTimeoutMs.default).toBe(1000);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { parseShellCommand, findCommandInvocations, findArgvInvocations } from '../../dist/utils/shell-parser.js';
+
+function names(command) {
+  return findCommandInvocations(command).map(invocation => invocation.name);
+}
+
+describe('parseShellCommand', () => {
+  it('should split lists and pipelines', () => {
+    const script = parseShellCommand('a | b && c; d &');
+
+    expect(script.pipelines).toHaveLength(3);
+    expect(script.pipelines[0].commands.map(command => command.words[0].text)).toEqual(['a', 'b']);
+  });
+
+  it('should remove quotes and escapes from words', () => {
+    const [command] = parseShellCommand(`echo 'a b' "c \\"d\\"" e\\ f`).pipelines[0].commands;
+
+    expect(command.words.map(word => word.text)).toEqual(['echo', 'a b', 'c "d"', 'e f']);
+  });
+
+  it('should keep operators inside quotes as text', () => {
+    expect(names('git commit -m "fix; then | more"')).toEqual(['git']);
+  });
+
+  it('should separate variable assignments from the command', () => {
+    const [command] = parseShellCommand('FOO=1 BAR="x y" make test').pipelines[0].commands;
+
+    expect(command.assignments.map(word => word.text)).toEqual(['FOO=1', 'BAR=x y']);
+    expect(command.words.map(word => word.text)).toEqual(['make', 'test']);
+  });
+
+  it('should parse redirections with file descriptors', () => {
+    const [command] = parseShellCommand('make 2>&1 >build.log').pipelines[0].commands;
+
+    expect(command.words.map(word => word.text)).toEqual(['make']);
+    expect(command.redirects.map(redirect => [redirect.operator, redirect.target.text])).toEqual([['>&', '1'], ['>', 'build.log']]);
+  });
+
+  it('should ignore comments', () => {
+    expect(names('echo a # sudo ls')).toEqual(['echo']);
+  });
+
+  it('should reject unterminated quotes and substitutions', () => {
+    expect(() => parseShellCommand('echo "abc')).toThrow('Unterminated double quote');
+    expect(() => parseShellCommand("echo 'abc")).toThrow('Unterminated single quote');
+    expect(() => parseShellCommand('echo $(ls')).toThrow('Unterminated command substitution');
+    expect(() => parseShellCommand('(ls')).toThrow('Unterminated subshell');
+  });
+
+  it('should reject stray operators', () => {
+    expect(() => parseShellCommand('ls && && ls')).toThrow('Unexpected "&&"');
+    expect(() => parseShellCommand('ls )')).toThrow('Unexpected ")"');
+    expect(() => parseShellCommand('ls &&')).toThrow('Expected a command after "&&"');
+  });
+
+  it('should reject unbalanced control structures', () => {
+    expect(() => parseShellCommand('if true')).toThrow('Expected "then" in if statement');
+    expect(() => parseShellCommand('if true; then ls')).toThrow('Unterminated if statement');
+    expect(() => parseShellCommand('while true; do ls')).toThrow('Unterminated while loop');
+    expect(() => parseShellCommand('for f in *; do')).toThrow('Expected a command');
+    expect(() => parseShellCommand('{ ls')).toThrow('Unterminated brace group');
+    expect(() => parseShellCommand('ls; fi')).toThrow('Unexpected "fi"');
+    expect(() => parseShellCommand('ls; }')).toThrow('Unexpected "}"');
+  });
+
+  it('should only treat unquoted words as keywords', () => {
+    expect(names('echo if then fi')).toEqual(['echo']);
+    expect(names('"if" true')).toEqual(['if']);
+  });
+
+  it('should reject unterminated here-documents', () => {
+    expect(() => parseShellCommand('cat <<EOF\nabc')).toThrow('Unterminated here-document, expected "EOF"');
+    expect(() => parseShellCommand('cat <<EOF')).toThrow('Unterminated here-document');
+    expect(() => parseShellCommand('cat <<-EOF\n\tabc\n\tEOF\necho')).not.toThrow();
+  });
+
+  it('should parse deeply nested substitutions in linear time', () => {
+    const started = Date.now();
+
+    expect(names(`echo ${'$(echo '.repeat(16)}ls${')'.repeat(16)}`)).toHaveLength(17);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should reject substitutions nested too deep', () => {
+    const started = Date.now();
+
+    expect(() => parseShellCommand(`echo ${'$('.repeat(40)}ls${')'.repeat(40)}`)).toThrow('nested more than 16 deep');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('findCommandInvocations', () => {
+  it('should find commands in lists and pipelines', () => {
+    expect(names('ls && sudo rm -rf /')).toEqual(['ls', 'sudo', 'rm']);
+    expect(names('echo x | sudo tee /etc/hosts')).toEqual(['echo', 'sudo', 'tee']);
+    expect(names('a || b; c & d |& e')).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('should find commands in subshells and brace groups', () => {
+    expect(names('(cd /tmp; sudo ls)')).toEqual(['cd', 'sudo', 'ls']);
+    expect(names('{ sudo ls; }')).toEqual(['sudo', 'ls']);
+  });
+
+  it('should find commands in command and process substitution', () => {
+    expect(names('echo $(sudo id)')).toContain('sudo');
+    expect(names('echo `sudo id`')).toContain('sudo');
+    expect(names('echo "$(sudo id)"')).toContain('sudo');
+    expect(names('diff <(sudo cat a) b')).toContain('sudo');
+    expect(names('echo $(( 1 + $(sudo id) ))')).toContain('sudo');
+    expect(names('echo ${x:-$(sudo id)}')).toContain('sudo');
+    expect(names('x=$(sudo id) ls')).toContain('sudo');
+    expect(names('ls > $(sudo id)')).toContain('sudo');
+  });
+
+  it('should use the name of path-qualified executables', () => {
+    expect(names('/usr/bin/sudo ls')).toEqual(['sudo', 'ls']);
+    expect(names('./node_modules/.bin/jest')).toEqual(['jest']);
+  });
+
+  it('should look past environment assignments', () => {
+    expect(names('FOO=1 sudo ls')).toEqual(['sudo', 'ls']);
+  });
+
+  it('should find commands run by wrappers', () => {
+    expect(names('env -i PATH=/bin sudo ls')).toEqual(['env', 'sudo', 'ls']);
+    expect(names('timeout 5 sudo ls')).toEqual(['timeout', 'sudo', 'ls']);
+    expect(names('nice -n 5 nohup sudo ls &')).toEqual(['nice', 'nohup', 'sudo', 'ls']);
+    expect(names('xargs -n 1 sudo rm')).toEqual(['xargs', 'sudo', 'rm']);
+    expect(names('find . -name x -exec sudo rm {} \;')).toEqual(['find', 'sudo', 'rm']);
+  });
+
+  it('should parse scripts passed to shells and eval', () => {
+    expect(names('bash -c "sudo ls"')).toEqual(['bash', 'sudo', 'ls']);
+    expect(names("sh -ec 'ls && sudo id'")).toEqual(['sh', 'ls', 'sudo', 'id']);
+    expect(names('bash -o pipefail -c "sudo ls"')).toEqual(['bash', 'sudo', 'ls']);
+    expect(names('eval "sudo ls"')).toEqual(['eval', 'sudo', 'ls']);
+    expect(names('bash script.sh')).toEqual(['bash']);
+  });
+
+  it('should find commands in control structures', () => {
+    expect(names('if true; then sudo ls; else echo; fi')).toEqual(['true', 'sudo', 'ls', 'echo']);
+    expect(names('for f in $(ls); do rm $f; done')).toEqual(['ls', 'rm']);
+    expect(names('while read l; do echo $l; done < file')).toEqual(['read', 'echo']);
+    expect(names('case $x in a) sudo ls;; b|c) echo;; esac')).toEqual(['sudo', 'ls', 'echo']);
+    expect(names('f() { sudo ls; }; f')).toEqual(['sudo', 'ls', 'f']);
+    expect(names('if a; then b; elif c; then d; else e; fi | f')).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(names('for ((i = $(sudo id); i < 3; i++)); do echo; done')).toEqual(['sudo', 'id', 'echo']);
+    expect(names('for f in a b; { sudo rm $f; }')).toEqual(['sudo', 'rm']);
+    expect(names('! grep x file')).toEqual(['grep']);
+  });
+
+  it('should find substitutions in unquoted here-documents only', () => {
+    expect(names('cat <<EOF\n$(sudo id)\nEOF\necho done')).toEqual(['sudo', 'id', 'cat', 'echo']);
+    expect(names("cat <<'EOF'\n$(sudo id)\nEOF")).toEqual(['cat']);
+  });
+
+  it('should name the segment each command was found in', () => {
+    const invocation = findCommandInvocations('ls -la && sudo rm -rf /tmp/x').find(item => item.name === 'sudo');
+
+    expect(invocation.segment).toBe('sudo rm -rf /tmp/x');
+  });
+
+  it('should mark command names that are computed at run time', () => {
+    const [invocation] = findCommandInvocations('$(echo sudo) ls').filter(item => item.dynamic);
+
+    expect(invocation.argv[0]).toBe('$(echo sudo)');
+    expect(findCommandInvocations('$S ls')[0].dynamic).toBe(true);
+  });
+
+  it('should mark eval and sh -c scripts that are computed at run time', () => {
+    expect(findCommandInvocations('eval "$X"')[0].dynamicScript).toBe('$X');
+    expect(findCommandInvocations('bash -c "sudo $X"')[0].dynamicScript).toBe('sudo $X');
+    expect(names('bash -c "sudo $X"')).toEqual(['bash']);
+    expect(findCommandInvocations('eval "echo hi"')[0].dynamicScript).toBeUndefined();
+  });
+
+  it('should find the applet busybox runs', () => {
+    expect(names('busybox rm -rf /')).toEqual(['busybox', 'rm']);
+    expect(names('busybox sh -c "sudo ls"')).toEqual(['busybox', 'sh', 'sudo', 'ls']);
+  });
+});
+
+describe('findArgvInvocations', () => {
+  it('should find commands run through a shell in an argv', () => {
+    expect(findArgvInvocations(['bash', '-c', 'sudo ls']).map(invocation => invocation.name)).toEqual(['bash', 'sudo', 'ls']);
+  });
+});